@@ -1,10 +1,21 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { RouterProvider, useRouter } from './contexts/RouterContext';
+import { paths, PRIVATE_ROUTES } from './services/routes';
 import Layout from './components/Layout';
 import LandingPage from './components/LandingPage';
+import NotFoundPage from './components/NotFoundPage';
+import PublicProfilePage from './components/PublicProfilePage';
 
 const AppContent: React.FC = () => {
   const { session, loading } = useAuth();
+  const { route, navigate } = useRouter();
+
+  useEffect(() => {
+    if (!loading && session && route.name === 'home') {
+      navigate(paths.dashboard(), { replace: true });
+    }
+  }, [loading, session, route.name, navigate]);
 
   if (loading) {
     return (
@@ -14,18 +25,34 @@ const AppContent: React.FC = () => {
     );
   }
 
+  const renderContent = () => {
+    if (session) {
+      return <Layout />;
+    }
+    // Private routes keep their URL behind the sign-in screen, so signing in lands on the page that was asked for.
+    if (route.name === 'home' || PRIVATE_ROUTES.includes(route.name)) {
+      return <LandingPage />;
+    }
+    if (route.name === 'publicProfile') {
+      return <PublicProfilePage username={route.username} />;
+    }
+    return <NotFoundPage />;
+  };
+
   return (
     <div className="w-full text-gray-100">
-      {!session ? <LandingPage /> : <Layout />}
+      {renderContent()}
     </div>
   );
 };
 
 const App: React.FC = () => {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <RouterProvider>
+      <AuthProvider>
+        <AppContent />
+      </AuthProvider>
+    </RouterProvider>
   );
 };
 
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+import { Achievement } from '../services/achievements';
+
+interface AchievementToastProps {
+  achievements: Achievement[];
+  durationMs: number;
+  onDismiss: () => void;
+}
+
+const AchievementToast: React.FC<AchievementToastProps> = ({ achievements, durationMs, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [achievements, durationMs, onDismiss]);
+
+  return (
+    <div className="fixed bottom-16 right-6 z-50 w-80 bg-gray-800 border border-amber-500/50 rounded-lg shadow-2xl px-5 py-4 text-sm" role="status">
+      <div className="flex justify-between items-start gap-4">
+        <p className="font-bold text-amber-300 uppercase tracking-wide text-xs">
+          {achievements.length === 1 ? 'Achievement unlocked' : `${achievements.length} achievements unlocked`}
+        </p>
+        <button onClick={onDismiss} aria-label="Dismiss" className="text-gray-500 hover:text-white text-lg leading-none">&times;</button>
+      </div>
+      <ul className="mt-2 space-y-2">
+        {achievements.map(achievement => (
+          <li key={achievement.id}>
+            <p className="font-semibold text-gray-100">{achievement.name}</p>
+            <p className="text-gray-400">{achievement.description}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AchievementToast;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { UserAchievement } from '../types';
+import { ACHIEVEMENTS } from '../services/achievements';
+
+interface AchievementWallProps {
+    achievements: UserAchievement[];
+    className: string;
+}
+
+const AchievementWall: React.FC<AchievementWallProps> = ({ achievements, className }) => {
+    const unlockedAt = new Map<string, string>(achievements.map(a => [a.achievement_id, a.unlocked_at]));
+
+    return (
+        <div className={className}>
+            <div className="flex justify-between items-baseline mb-4">
+                <h3 className="text-lg font-bold text-gray-200">Achievements</h3>
+                <span className="text-sm text-gray-400">{unlockedAt.size} / {ACHIEVEMENTS.length}</span>
+            </div>
+            <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {ACHIEVEMENTS.map(achievement => {
+                    const date = unlockedAt.get(achievement.id);
+                    return (
+                        <li
+                            key={achievement.id}
+                            title={achievement.description}
+                            className={`flex flex-col items-center text-center rounded-lg border p-3 ${date ? 'border-amber-500/50 bg-amber-500/10' : 'border-gray-700 bg-gray-900/40 opacity-50'}`}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className={`h-8 w-8 ${date ? 'text-amber-300' : 'text-gray-500'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>
+                            <span className={`mt-2 text-sm font-semibold ${date ? 'text-gray-100' : 'text-gray-400'}`}>{achievement.name}</span>
+                            <span className="text-xs text-gray-500 mt-0.5">
+                                {date ? format(parseISO(date), 'MMM d, yyyy') : achievement.description}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default AchievementWall;
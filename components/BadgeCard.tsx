@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Profile } from '../types';
+import { DayActivity } from '../services/activity';
+import { BADGE_THEMES, BadgeTheme, buildBadgeSvg, buildEmbedSnippet, EmbedFormat, getBadgeUrl, svgToDataUrl, svgToPng } from '../services/badge';
+import { downloadFile } from '../services/export';
+import { getPublicProfileUrl } from '../services/publicProfile';
+import { resolveTimeZone } from '../services/streaks';
+
+interface BadgeCardProps {
+    profile: Profile | null;
+    activityByDay: Map<string, DayActivity>;
+    className: string;
+}
+
+const BADGE_FILE_NAME = 'dsa-streak';
+
+const BadgeCard: React.FC<BadgeCardProps> = ({ profile, activityByDay, className }) => {
+    const [theme, setTheme] = useState<BadgeTheme>('dark');
+    const [fileType, setFileType] = useState<'svg' | 'png'>('svg');
+    const [embedFormat, setEmbedFormat] = useState<EmbedFormat>('markdown');
+    const [message, setMessage] = useState('');
+
+    const timeZone = resolveTimeZone(profile?.timezone);
+
+    const svg = useMemo(() => buildBadgeSvg({
+        username: profile?.username || 'Anonymous',
+        currentStreak: profile?.current_streak ?? 0,
+        longestStreak: profile?.longest_streak ?? 0,
+        activityByDay,
+        timeZone,
+    }, theme), [profile, activityByDay, timeZone, theme]);
+
+    // Public profiles embed the live badge; otherwise the snippet points at a
+    // downloaded copy committed next to the README.
+    const publicUsername = profile?.is_public && profile.username ? profile.username : null;
+    const linkUrl = publicUsername ? getPublicProfileUrl(publicUsername) : undefined;
+    const imageUrl = publicUsername ? getBadgeUrl(publicUsername, theme) : `./${BADGE_FILE_NAME}.${fileType}`;
+    const snippet = buildEmbedSnippet(imageUrl, embedFormat, linkUrl);
+
+    const flash = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const handleDownload = async () => {
+        try {
+            if (fileType === 'svg') {
+                downloadFile(`${BADGE_FILE_NAME}.svg`, svg, 'image/svg+xml');
+            } else {
+                downloadFile(`${BADGE_FILE_NAME}.png`, await svgToPng(svg), 'image/png');
+            }
+        } catch (err: any) {
+            console.error("Error generating badge:", err);
+            flash(`Error: ${err.message}`);
+        }
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(snippet);
+            flash('Snippet copied!');
+        } catch (err: any) {
+            console.error("Error copying snippet:", err);
+            flash(`Error: ${err.message}`);
+        }
+    };
+
+    const selectStyles = "bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500";
+
+    return (
+        <div className={className}>
+            <h3 className="text-lg font-bold mb-1 text-gray-200">Streak Badge</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                Show off your streak in a GitHub README.{' '}
+                {publicUsername
+                    ? 'Paste the snippet: the badge is served from your public profile, so it keeps up with your streak. Download it for places that need a file.'
+                    : 'Download the badge, commit it next to your README and paste the snippet.'}
+            </p>
+            <img src={svgToDataUrl(svg)} alt="Streak badge preview" className="w-full max-w-md rounded-lg mb-4" />
+            <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                <select aria-label="Badge theme" value={theme} onChange={(e) => setTheme(e.target.value as BadgeTheme)} className={`capitalize ${selectStyles}`}>
+                    {(Object.keys(BADGE_THEMES) as BadgeTheme[]).map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+                <select aria-label="File type" value={fileType} onChange={(e) => setFileType(e.target.value as 'svg' | 'png')} className={selectStyles}>
+                    <option value="svg">SVG</option>
+                    <option value="png">PNG</option>
+                </select>
+                <button
+                    onClick={handleDownload}
+                    className="px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800"
+                >
+                    Download {fileType.toUpperCase()}
+                </button>
+            </div>
+            <div className="flex justify-between items-center mb-1">
+                <div className="inline-flex rounded-md border border-gray-700 text-xs overflow-hidden">
+                    {(['markdown', 'html'] as EmbedFormat[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setEmbedFormat(option)}
+                            className={`px-3 py-1 capitalize transition-colors ${embedFormat === option ? 'bg-teal-600 text-white' : 'bg-gray-900/70 text-gray-400 hover:text-gray-200'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={handleCopy} className="text-sm font-medium text-gray-300 hover:text-white">Copy snippet</button>
+            </div>
+            <pre className="bg-gray-950 text-emerald-300 p-2 rounded-md text-xs overflow-x-auto"><code>{snippet}</code></pre>
+            {!publicUsername && <p className="text-xs text-gray-500 mt-2">Make your profile public to embed a badge that updates itself and links to your profile.</p>}
+            {message && <p className={`text-sm mt-2 ${message.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{message}</p>}
+        </div>
+    );
+};
+
+export default BadgeCard;
@@ -1,34 +1,102 @@
-import React, { useState, useRef } from 'react';
-import { format, startOfDay, addDays, getDay, differenceInDays } from 'date-fns';
+import React, { useState, useRef, useMemo } from 'react';
+import { format, parseISO, addDays, getDay, differenceInDays, startOfWeek, getYear } from 'date-fns';
+import { getTodayKey } from '../services/streaks';
+import { DayActivity, getIntensityLevel, HeatmapMode } from '../services/activity';
 
 interface CalendarHeatmapProps {
-  submissionDates: Set<string>;
+  activityByDay: Map<string, DayActivity>;
+  timeZone: string;
+  frozenDates?: Set<string>;
+  restDays?: number[];
+  selectedDay?: string | null;
+  onDayClick?: (dayKey: string) => void;
 }
 
-const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+type HeatmapRange = 'last12' | number;
 
-const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ submissionDates }) => {
-  const [tooltip, setTooltip] = useState({ show: false, x: 0, y: 0, date: '', count: 0 });
+interface WeekColumn {
+  days: (Date | null)[];
+  monthLabel: string | null;
+}
+
+const INTENSITY_CLASSES = ['bg-gray-800', 'bg-teal-800', 'bg-teal-600', 'bg-teal-400'];
+
+const MAX_TOOLTIP_PROBLEMS = 3;
+
+/**
+ * Splits [start, end] into Sunday-first week columns. Days outside the range
+ * are left as null so the grid keeps its shape, and each column is labelled
+ * with the month whose first day it contains.
+ */
+const buildWeekColumns = (start: Date, end: Date): WeekColumn[] => {
+  const columns: WeekColumn[] = [];
+  let weekStart = startOfWeek(start);
+  while (differenceInDays(weekStart, end) <= 0) {
+    const days = Array.from({ length: 7 }, (_, i) => {
+      const day = addDays(weekStart, i);
+      return differenceInDays(day, start) < 0 || differenceInDays(day, end) > 0 ? null : day;
+    });
+    const firstOfMonth = days.find(day => day && (day.getDate() === 1 || differenceInDays(day, start) === 0));
+    columns.push({ days, monthLabel: firstOfMonth ? format(firstOfMonth, 'MMM') : null });
+    weekStart = addDays(weekStart, 7);
+  }
+  // Drop the leading partial month's label when the next month starts right after it, so the two don't overlap.
+  if (columns.length > 1 && columns[0].monthLabel && columns[1].monthLabel) {
+    columns[0].monthLabel = null;
+  }
+  return columns;
+};
+
+const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ activityByDay, timeZone, frozenDates = new Set(), restDays = [], selectedDay = null, onDayClick }) => {
+  const [mode, setMode] = useState<HeatmapMode>('count');
+  const [range, setRange] = useState<HeatmapRange>('last12');
+  const [tooltip, setTooltip] = useState({ show: false, x: 0, y: 0, date: '', problems: [] as string[] });
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const today = startOfDay(new Date());
-  const yearAgo = addDays(today, -364);
+  // Grid cells are plain calendar days; anchor "today" in the user's timezone.
+  const todayKey = getTodayKey(timeZone);
+  const today = parseISO(todayKey);
+  const currentYear = getYear(today);
 
-  const days = Array.from({ length: 365 }, (_, i) => addDays(yearAgo, i));
-  const firstDayOffset = getDay(yearAgo);
+  const years = useMemo(() => {
+    const firstKey = [...activityByDay.keys()].sort()[0];
+    const firstYear = firstKey ? Math.min(Number(firstKey.slice(0, 4)), currentYear) : currentYear;
+    return Array.from({ length: currentYear - firstYear + 1 }, (_, i) => currentYear - i);
+  }, [activityByDay, currentYear]);
+
+  const columns = useMemo(() => {
+    const end = parseISO(todayKey);
+    if (range === 'last12') {
+      return buildWeekColumns(addDays(end, -364), end);
+    }
+    const yearEnd = new Date(range, 11, 31);
+    return buildWeekColumns(new Date(range, 0, 1), differenceInDays(yearEnd, end) > 0 ? end : yearEnd);
+  }, [range, todayKey]);
 
   const handleMouseEnter = (day: Date, e: React.MouseEvent) => {
     if (containerRef.current) {
       const rect = containerRef.current.getBoundingClientRect();
-      const count = submissionDates.has(format(day, 'yyyy-MM-dd')) ? 1 : 0;
-      const contributionsText = count === 1 ? '1 contribution' : 'No contributions';
-      
+      const formattedDate = format(day, 'yyyy-MM-dd');
+      const activity = activityByDay.get(formattedDate);
+      const count = activity?.count ?? 0;
+      let contributionsText = count === 0 ? 'No contributions' : `${count} contribution${count === 1 ? '' : 's'}`;
+      if (activity && mode === 'weighted') {
+        contributionsText += ` (score ${activity.score})`;
+      }
+      const shownProblems = (activity?.problems ?? []).slice(0, MAX_TOOLTIP_PROBLEMS);
+      if (count === 0 && frozenDates.has(formattedDate)) {
+        contributionsText = 'Streak freeze used';
+      } else if (count === 0 && restDays.includes(getDay(day))) {
+        contributionsText = 'Rest day';
+      }
+
       setTooltip({
         show: true,
         x: e.clientX - rect.left,
         y: e.clientY - rect.top,
         date: `${contributionsText} on ${format(day, 'MMMM d, yyyy')}`,
-        count: count,
+        // Days only carry the first few names, so the rest are counted.
+        problems: count > shownProblems.length ? [...shownProblems, `and ${count - shownProblems.length} more`] : shownProblems,
       });
     }
   };
@@ -36,11 +104,15 @@ const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ submissionDates }) =>
   const handleMouseLeave = () => {
     setTooltip({ ...tooltip, show: false });
   };
-  
+
   const getCellClass = (date: Date) => {
     const formattedDate = format(date, 'yyyy-MM-dd');
-    if (submissionDates.has(formattedDate)) {
-        return 'bg-teal-400'; // Active day
+    const level = getIntensityLevel(activityByDay.get(formattedDate), mode);
+    if (level > 0) {
+        return INTENSITY_CLASSES[level]; // Active day, shaded by intensity
+    }
+    if (frozenDates.has(formattedDate)) {
+        return 'bg-sky-500/70'; // Missed day bridged by a freeze
     }
     return 'bg-gray-800'; // Inactive day
   };
@@ -57,44 +129,67 @@ const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ submissionDates }) =>
             opacity: 1,
           }}
         >
-          {tooltip.date}
+          <div>{tooltip.date}</div>
+          {tooltip.problems.map((problem, i) => (
+            <div key={i} className="text-xs text-gray-400">{problem}</div>
+          ))}
         </div>
       )}
-      <div className="flex justify-between text-xs text-gray-400 mb-2 px-2" style={{maxWidth: '680px'}}>
-         <span>{format(yearAgo, 'MMM')}</span>
-         <span>{format(addDays(yearAgo, 75), 'MMM')}</span>
-         <span>{format(addDays(yearAgo, 150), 'MMM')}</span>
-         <span>{format(addDays(yearAgo, 225), 'MMM')}</span>
-         <span>{format(addDays(yearAgo, 300), 'MMM')}</span>
+      <div className="flex justify-between items-center mb-3 gap-3">
+        <select
+          aria-label="Heatmap range"
+          value={range}
+          onChange={(e) => setRange(e.target.value === 'last12' ? 'last12' : Number(e.target.value))}
+          className="bg-gray-900/70 border border-gray-700 rounded-md text-xs text-gray-300 py-1 px-2 focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+        >
+          <option value="last12">Last 12 months</option>
+          {years.map(year => <option key={year} value={year}>{year}</option>)}
+        </select>
+        <div className="inline-flex rounded-md border border-gray-700 text-xs overflow-hidden">
+          {(['count', 'weighted'] as HeatmapMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 capitalize transition-colors ${mode === option ? 'bg-teal-600 text-white' : 'bg-gray-900/70 text-gray-400 hover:text-gray-200'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
       </div>
-      <div className="grid grid-flow-col grid-rows-7 gap-1">
-        {Array.from({ length: firstDayOffset }).map((_, i) => (
-          <div key={`empty-${i}`} className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+      <div className="flex gap-1">
+        {columns.map((column, weekIndex) => (
+          <div key={weekIndex} className="flex flex-col gap-1">
+            <div className="h-4 text-xs text-gray-400 whitespace-nowrap">{column.monthLabel}</div>
+            {column.days.map((day, dayIndex) => {
+              if (!day || differenceInDays(day, today) > 0) {
+                return <div key={dayIndex} className="w-3 h-3 sm:w-3.5 sm:h-3.5" />;
+              }
+              const dayKey = format(day, 'yyyy-MM-dd');
+              return (
+                <div
+                  key={dayIndex}
+                  className={`w-3 h-3 sm:w-3.5 sm:h-3.5 rounded-sm ${getCellClass(day)} ${onDayClick ? 'cursor-pointer' : ''} ${selectedDay === dayKey ? 'ring-2 ring-white/80' : ''}`}
+                  onMouseEnter={(e) => handleMouseEnter(day, e)}
+                  onMouseLeave={handleMouseLeave}
+                  onClick={() => onDayClick?.(dayKey)}
+                />
+              );
+            })}
+          </div>
         ))}
-        {days.map((day) => {
-          const isFuture = differenceInDays(day, today) > 0;
-          if (isFuture) return null;
-          
-          return (
-            <div
-              key={day.toString()}
-              className={`w-3 h-3 sm:w-3.5 sm:h-3.5 rounded-sm ${getCellClass(day)}`}
-              onMouseEnter={(e) => handleMouseEnter(day, e)}
-              onMouseLeave={handleMouseLeave}
-            />
-          );
-        })}
       </div>
       <div className="flex justify-end items-center mt-4 text-xs text-gray-500 space-x-2">
           <span>Less</span>
-          <div className="w-3 h-3 bg-gray-800 rounded-sm"></div>
-          <div className="w-3 h-3 bg-teal-800 rounded-sm"></div>
-          <div className="w-3 h-3 bg-teal-600 rounded-sm"></div>
-          <div className="w-3 h-3 bg-teal-400 rounded-sm"></div>
+          {INTENSITY_CLASSES.map(cls => (
+            <div key={cls} className={`w-3 h-3 ${cls} rounded-sm`}></div>
+          ))}
           <span>More</span>
+          <div className="w-3 h-3 bg-sky-500/70 rounded-sm ml-4"></div>
+          <span>Frozen</span>
       </div>
     </div>
   );
 };
 
-export default CalendarHeatmap;
\ No newline at end of file
+export default CalendarHeatmap;
@@ -1,7 +1,20 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import CalendarHeatmap from './CalendarHeatmap';
-import { Profile, Submission } from '../types';
+import SubmissionLog from './SubmissionLog';
+import ReviewQueue from './ReviewQueue';
+import PieChart from './PieChart';
+import GoalWidget from './GoalWidget';
+import Link from './Link';
+import { Goal, Profile, ReviewSchedule, ReviewTime, Submission } from '../types';
 import { format, parseISO } from 'date-fns';
+import { calculateStreaks, FREEZE_EARN_INTERVAL, getDayKey, getStreakOptions, getTodayKey } from '../services/streaks';
+import { DayActivity, DIFFICULTY_COLORS, sumActivity } from '../services/activity';
+import { getDueReviews, getStreakActivityDates } from '../services/reviews';
+import { getGoalProgress } from '../services/goals';
+import { fetchSolveCounts } from '../services/problems';
+import { paths } from '../services/routes';
+import { submissionsRepo } from '../services/submissionsRepo';
+import { DEFAULT_FILTERS } from '../services/submissionQueries';
 
 const FireIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -16,84 +29,137 @@ const TrophyIcon = () => (
     </svg>
 );
 
+const SnowflakeIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-sky-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18M4.2 7.5l15.6 9M4.2 16.5l15.6-9M9.75 4.5L12 6.75 14.25 4.5M9.75 19.5L12 17.25l2.25 2.25" />
+    </svg>
+);
+
 const CheckIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
     </svg>
 )
 
-const PieChart = ({ data }: { data: { name: string; value: number; color: string }[] }) => {
-    const total = data.reduce((sum, item) => sum + item.value, 0);
-    if (total === 0) {
-        return <div className="flex items-center justify-center h-full text-gray-500">No submission data yet.</div>;
-    }
-    
-    let cumulative = 0;
-    const radius = 40;
-    const circumference = 2 * Math.PI * radius;
+const MAX_TOPICS = 8;
 
+const TopicChart = ({ data }: { data: { name: string; value: number }[] }) => {
+    if (data.length === 0) {
+        return <div className="flex items-center justify-center h-full text-gray-500">Tag your submissions to see topic coverage.</div>;
+    }
+    const max = Math.max(...data.map(item => item.value));
     return (
-        <div className="flex items-center justify-center space-x-6">
-            <svg width="120" height="120" viewBox="0 0 100 100" className="-rotate-90">
-                {data.map((item, index) => {
-                    const dasharray = (item.value / total) * circumference;
-                    const dashoffset = (cumulative / total) * circumference;
-                    cumulative += item.value;
-                    return (
-                        <circle
-                            key={index}
-                            r={radius}
-                            cx="50"
-                            cy="50"
-                            fill="transparent"
-                            stroke={item.color}
-                            strokeWidth="20"
-                            strokeDasharray={`${dasharray} ${circumference}`}
-                            strokeDashoffset={-dashoffset}
-                        />
-                    );
-                })}
-            </svg>
-            <div className="text-sm space-y-2">
-                {data.map((item, index) => (
-                    <div key={index} className="flex items-center">
-                        <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: item.color }}></span>
-                        <span className="text-gray-300">{item.name}</span>
-                        <span className="ml-auto text-gray-400 font-mono">({item.value})</span>
+        <div className="space-y-2 text-sm">
+            {data.map(item => (
+                <div key={item.name}>
+                    <div className="flex justify-between mb-0.5">
+                        <span className="text-gray-300 truncate">{item.name}</span>
+                        <span className="text-gray-400 font-mono ml-2">({item.value})</span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-2">
+                        <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${(item.value / max) * 100}%` }}></div>
                     </div>
-                ))}
-            </div>
+                </div>
+            ))}
         </div>
     );
 };
 
 interface DashboardProps {
     profile: Profile | null;
+    /** The submissions loaded in full, dated `activitySince` or later. */
     submissions: Submission[];
+    activityByDay: Map<string, DayActivity>;
+    activitySince: string | null;
+    /** The submissions the review schedules refer to. */
+    reviewSubmissions: Submission[];
+    tagsBySubmission: Map<number, string[]>;
+    reviewSchedules: ReviewSchedule[];
+    reviewEvents: ReviewTime[];
+    goals: Goal[];
+    timeZone: string;
+    onDataRefresh: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ profile, submissions }) => {
-    const submissionDates = useMemo(() => new Set(submissions.map(s => format(parseISO(s.created_at), 'yyyy-MM-dd'))), [submissions]);
-    
+const Dashboard: React.FC<DashboardProps> = ({ profile, submissions, activityByDay, activitySince, reviewSubmissions, tagsBySubmission, reviewSchedules, reviewEvents, goals, timeZone, onDataRefresh }) => {
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+    const [olderDaySubmissions, setOlderDaySubmissions] = useState<Submission[]>([]);
+    const [solveCounts, setSolveCounts] = useState<Map<number, number>>(new Map());
+
+    // Days before the loaded window are fetched when picked.
+    const isSelectedDayLoaded = !selectedDay || !activitySince || selectedDay >= getDayKey(activitySince, timeZone);
+
+    useEffect(() => {
+        setOlderDaySubmissions([]);
+        if (!selectedDay || isSelectedDayLoaded || !profile) return;
+        let cancelled = false;
+        submissionsRepo.page(profile.id, { ...DEFAULT_FILTERS, from: selectedDay, to: selectedDay }, 0, timeZone)
+            .then(result => {
+                if (!cancelled) setOlderDaySubmissions(result.rows);
+            })
+            .catch((err: any) => console.error("Error loading the day's submissions:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedDay, isSelectedDayLoaded, profile?.id, timeZone]);
+
+    const selectedDaySubmissions = useMemo(
+        () => !selectedDay ? [] : isSelectedDayLoaded ? submissions.filter(s => getDayKey(s.date, timeZone) === selectedDay) : olderDaySubmissions,
+        [submissions, timeZone, selectedDay, isSelectedDayLoaded, olderDaySubmissions]
+    );
+
+    useEffect(() => {
+        if (!profile || selectedDaySubmissions.length === 0) return;
+        let cancelled = false;
+        fetchSolveCounts(profile.id, selectedDaySubmissions, submissions)
+            .then(counts => {
+                if (!cancelled) setSolveCounts(counts);
+            })
+            .catch((err: any) => console.error("Error counting solves:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [profile?.id, selectedDaySubmissions, submissions]);
+
+    const activityDates = useMemo(
+        () => getStreakActivityDates(profile, activityByDay, reviewEvents, timeZone),
+        [profile, activityByDay, reviewEvents, timeZone]
+    );
+
+    const streakDetails = useMemo(
+        () => calculateStreaks(activityDates, timeZone, getStreakOptions(profile)),
+        [activityDates, timeZone, profile]
+    );
+
     const hasLoggedToday = useMemo(() => {
-        const todayUTC = format(new Date(), 'yyyy-MM-dd');
-        return submissionDates.has(todayUTC);
-    }, [submissionDates]);
+        const todayKey = getTodayKey(timeZone);
+        return activityDates.some(date => getDayKey(date, timeZone) === todayKey);
+    }, [activityDates, timeZone]);
+
+    const dueReviewCount = useMemo(
+        () => getDueReviews(reviewSchedules, getTodayKey(timeZone)).length,
+        [reviewSchedules, timeZone]
+    );
     
-    const difficultyCounts = useMemo(() => {
-        const counts = { Easy: 0, Medium: 0, Hard: 0 };
-        submissions.forEach(s => {
-            if (counts[s.difficulty] !== undefined) {
-               counts[s.difficulty]++;
-            }
-        });
-        return [
-            { name: 'Easy', value: counts.Easy, color: '#22c55e' }, // green-500
-            { name: 'Medium', value: counts.Medium, color: '#eab308' }, // yellow-500
-            { name: 'Hard', value: counts.Hard, color: '#ef4444' }, // red-500
-        ];
-    }, [submissions]);
+    const totals = useMemo(() => sumActivity(activityByDay), [activityByDay]);
+
+    const difficultyCounts = useMemo(
+        () => (['Easy', 'Medium', 'Hard'] as const).map(name => ({ name, value: totals.difficulties[name], color: DIFFICULTY_COLORS[name] })),
+        [totals]
+    );
 
+    const topicCounts = useMemo(
+        () => [...totals.topics.entries()]
+            .map(([name, value]) => ({ name, value }))
+            .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name))
+            .slice(0, MAX_TOPICS),
+        [totals]
+    );
+
+    const goalProgress = useMemo(() => {
+        const todayKey = getTodayKey(timeZone);
+        return goals.map(goal => getGoalProgress(goal, activityByDay, timeZone, todayKey));
+    }, [goals, activityByDay, timeZone]);
 
     return (
         <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 font-sans">
@@ -105,7 +171,7 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, submissions }) => {
             </header>
             
             <main>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
                     <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl flex items-center space-x-4 border border-gray-700 transition-all duration-300 hover:border-amber-500/30 hover:bg-gray-800">
                         <FireIcon />
                         <div>
@@ -120,6 +186,14 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, submissions }) => {
                             <p className="text-4xl font-bold text-white">{profile?.longest_streak ?? 0} days</p>
                         </div>
                     </div>
+                    <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl flex items-center space-x-4 border border-gray-700 transition-all duration-300 hover:border-sky-400/30 hover:bg-gray-800">
+                        <SnowflakeIcon />
+                        <div>
+                            <p className="text-gray-400 text-sm">Streak Freezes</p>
+                            <p className="text-4xl font-bold text-white">{streakDetails.freezesRemaining} left</p>
+                            <p className="text-xs text-gray-500 mt-1">Earn one every {FREEZE_EARN_INTERVAL} days in a row.</p>
+                        </div>
+                    </div>
                     <div className={`p-6 rounded-xl flex items-center justify-center border ${hasLoggedToday ? 'bg-teal-800/30 border-teal-600' : 'bg-gray-800/50 border-gray-700'}`}>
                         <div className="text-center">
                             {hasLoggedToday ? (
@@ -137,16 +211,65 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, submissions }) => {
                     </div>
                 </div>
 
+                <div className="mb-8">
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-bold">Goals</h2>
+                        <Link to={paths.profile()} className="text-sm text-teal-400 hover:text-teal-300">{goals.length > 0 ? 'Edit goals' : 'Set a goal'}</Link>
+                    </div>
+                    {goalProgress.length > 0 ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+                            {goalProgress.map(progress => <GoalWidget key={progress.goal.id} progress={progress} />)}
+                        </div>
+                    ) : (
+                        <p className="text-gray-500">Track problems per week, Hard solves per month, minutes per day or a topic target.</p>
+                    )}
+                </div>
+
                  <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 mb-8">
                     <div className="lg:col-span-3 bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700">
                         <h2 className="text-xl font-bold mb-4">Contribution Heatmap</h2>
-                        <CalendarHeatmap submissionDates={submissionDates} />
+                        <CalendarHeatmap
+                            activityByDay={activityByDay}
+                            timeZone={timeZone}
+                            frozenDates={streakDetails.frozenDays}
+                            restDays={profile?.rest_days ?? []}
+                            selectedDay={selectedDay}
+                            onDayClick={(dayKey) => setSelectedDay(prev => prev === dayKey ? null : dayKey)}
+                        />
+                    </div>
+                     <div className="lg:col-span-2 space-y-8">
+                        <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700">
+                            <h2 className="text-xl font-bold mb-4">Progress Snapshot</h2>
+                            <PieChart data={difficultyCounts} />
+                        </div>
+                        <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700">
+                            <h2 className="text-xl font-bold mb-4">Topic Distribution</h2>
+                            <TopicChart data={topicCounts} />
+                        </div>
                     </div>
-                     <div className="lg:col-span-2 bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700">
-                         <h2 className="text-xl font-bold mb-4">Progress Snapshot</h2>
-                         <PieChart data={difficultyCounts} />
+                </div>
+
+                <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700 mb-8">
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-bold">Due for Review</h2>
+                        {dueReviewCount > 0 && <span className="text-sm text-gray-400">{dueReviewCount} due</span>}
                     </div>
+                    <ReviewQueue schedules={reviewSchedules} submissions={reviewSubmissions} timeZone={timeZone} onReviewed={onDataRefresh} />
                 </div>
+
+                {selectedDay && (
+                    <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700 mb-8">
+                        <div className="flex justify-between items-center mb-4">
+                            <h2 className="text-xl font-bold">{format(parseISO(selectedDay), 'EEEE, MMMM d, yyyy')}</h2>
+                            <button onClick={() => setSelectedDay(null)} className="text-gray-500 hover:text-white transition-colors text-2xl leading-none">&times;</button>
+                        </div>
+                        {selectedDaySubmissions.length > 0 ? (
+                            <SubmissionLog submissions={selectedDaySubmissions} timeZone={timeZone} tagsBySubmission={tagsBySubmission} solveCounts={solveCounts} />
+                        ) : (
+                            <p className="text-center text-gray-400 py-4">No submissions on this day.</p>
+                        )}
+                    </div>
+                )}
             </main>
         </div>
     );
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Profile } from '../types';
+import {
+    buildJson,
+    buildProfileCsv,
+    buildSubmissionsCsv,
+    collectExportData,
+    downloadFile,
+    EXPORT_SCHEMA_VERSION,
+} from '../services/export';
+
+interface ExportCardProps {
+    userId: string;
+    profile: Profile | null;
+    className: string;
+}
+
+type ExportFormat = 'csv' | 'json';
+
+const ExportCard: React.FC<ExportCardProps> = ({ userId, profile, className }) => {
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+    const [message, setMessage] = useState('');
+
+    const handleExport = async (exportFormat: ExportFormat) => {
+        setExporting(exportFormat);
+        setMessage('');
+        try {
+            const data = await collectExportData(userId, profile, loaded => setMessage(`Fetched ${loaded} submissions...`));
+            const stamp = format(new Date(), 'yyyy-MM-dd');
+            if (exportFormat === 'json') {
+                downloadFile(`dsa-streak-${stamp}.json`, buildJson(data), 'application/json');
+            } else {
+                downloadFile(`dsa-streak-submissions-${stamp}.csv`, buildSubmissionsCsv(data), 'text/csv');
+                downloadFile(`dsa-streak-profile-${stamp}.csv`, buildProfileCsv(data), 'text/csv');
+            }
+            setMessage(`Exported ${data.submissions.length} submissions.`);
+        } catch (err: any) {
+            console.error("Error exporting data:", err);
+            setMessage(`Error: ${err.message}`);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div className={className}>
+            <h3 className="text-lg font-bold mb-1 text-gray-200">Export Data</h3>
+            <p className="text-sm text-gray-400 mb-4">Download your full history and profile stats (schema v{EXPORT_SCHEMA_VERSION}) for backups, spreadsheets or migration.</p>
+            <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                    onClick={() => handleExport('csv')}
+                    disabled={!!exporting}
+                    className="px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                >
+                    {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+                </button>
+                <button
+                    onClick={() => handleExport('json')}
+                    disabled={!!exporting}
+                    className="px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                >
+                    {exporting === 'json' ? 'Exporting...' : 'Export JSON'}
+                </button>
+            </div>
+            {message && <p className={`text-sm mt-2 ${message.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{message}</p>}
+        </div>
+    );
+};
+
+export default ExportCard;
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState, FormEvent } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { FollowingFeedItem } from '../types';
+import {
+  describeNotification,
+  fetchFollowingData,
+  followUser,
+  FollowingData,
+  markNotificationsRead,
+  unfollowUser,
+} from '../services/follows';
+
+const EMPTY_DATA: FollowingData = { following: [], feed: [], notifications: [] };
+
+const timeAgo = (iso: string) => formatDistanceToNow(parseISO(iso), { addSuffix: true });
+
+const describeFeedItem = (item: FollowingFeedItem): string => {
+  const name = item.username ?? 'Someone';
+  if (item.kind === 'streak_milestone') {
+    return `${name} reached a ${item.streak}-day streak`;
+  }
+  return `${name} solved ${item.problem_name} (${item.difficulty})`;
+};
+
+/**
+ * Sidebar button plus the slide-out panel it opens: follow by username,
+ * notifications, and what the people you follow have been up to.
+ */
+const FollowingFeed: React.FC = () => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [data, setData] = useState<FollowingData>(EMPTY_DATA);
+  const [loading, setLoading] = useState(false);
+  const [username, setUsername] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  // Notifications stay highlighted until the panel closes, even once marked read.
+  const [highlightedIds, setHighlightedIds] = useState<Set<number>>(new Set());
+
+  const unreadCount = data.notifications.filter(n => !n.read_at).length;
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setData(await fetchFollowingData(user.id));
+    } catch (err: any) {
+      console.error("Error loading feed:", err);
+      setMessage(`Error: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleOpen = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      setHighlightedIds(new Set());
+      return;
+    }
+    setIsOpen(true);
+    await loadData();
+  };
+
+  useEffect(() => {
+    if (!isOpen || !user || unreadCount === 0) return;
+    const unreadIds = data.notifications.filter(n => !n.read_at).map(n => n.id);
+    setHighlightedIds(prev => new Set([...Array.from(prev), ...unreadIds]));
+    markNotificationsRead(user.id)
+      .then(() => {
+        const readAt = new Date().toISOString();
+        setData(prev => ({ ...prev, notifications: prev.notifications.map(n => n.read_at ? n : { ...n, read_at: readAt }) }));
+      })
+      .catch((err: any) => console.error("Error marking notifications read:", err));
+  }, [isOpen, user, unreadCount, data.notifications]);
+
+  const flash = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleFollow = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    setIsSaving(true);
+    try {
+      await followUser(username);
+      setUsername('');
+      flash('Following!');
+      await loadData();
+    } catch (err: any) {
+      console.error("Error following user:", err);
+      flash(`Error: ${err.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnfollow = async (followeeId: string) => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await unfollowUser(user.id, followeeId);
+      await loadData();
+    } catch (err: any) {
+      console.error("Error unfollowing user:", err);
+      flash(`Error: ${err.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        aria-label="Following feed"
+        aria-expanded={isOpen}
+        className="relative p-2 rounded-lg group transition-colors"
+      >
+        <div className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${isOpen ? 'bg-teal-500 text-white' : 'text-gray-400 group-hover:bg-gray-700 group-hover:text-gray-200'}`}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
+        </div>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 flex items-center justify-center min-w-[1.25rem] h-5 px-1 text-xs font-bold text-white bg-red-600 rounded-full border-2 border-gray-800">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="fixed top-0 left-20 h-screen w-80 max-w-[calc(100vw-5rem)] bg-gray-800 border-r border-gray-700 shadow-2xl z-40 flex flex-col text-left">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-700">
+            <h2 className="text-lg font-bold text-gray-100">Following</h2>
+            <button onClick={handleOpen} aria-label="Close feed" className="text-gray-400 hover:text-white text-xl leading-none">&times;</button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            <form onSubmit={handleFollow} className="flex gap-2">
+              <input
+                type="text"
+                aria-label="Username to follow"
+                placeholder="Follow by username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="flex-1 min-w-0 bg-gray-900/70 border border-gray-600 rounded-md py-1.5 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+              />
+              <button type="submit" disabled={isSaving || !username.trim()} className="px-3 py-1.5 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                Follow
+              </button>
+            </form>
+            {message && <p className={`text-sm ${message.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{message}</p>}
+
+            {data.notifications.length > 0 && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Notifications</h3>
+                <ul className="space-y-2">
+                  {data.notifications.map(notification => (
+                    <li key={notification.id} className={`text-sm rounded-md px-3 py-2 ${highlightedIds.has(notification.id) ? 'bg-teal-900/40 text-teal-100' : 'text-gray-300'}`}>
+                      <p>{describeNotification(notification)}</p>
+                      <p className="text-xs text-gray-500 mt-0.5">{timeAgo(notification.created_at)}</p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Activity</h3>
+              {loading && data.feed.length === 0 ? (
+                <div className="flex justify-center py-4"><div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-teal-500"></div></div>
+              ) : data.feed.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {data.following.length === 0 ? 'Follow someone to see their solves here.' : 'Nothing new from the people you follow.'}
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {data.feed.map(item => (
+                    <li key={`${item.kind}-${item.submission_id ?? item.occurred_at}-${item.user_id}`} className="text-sm">
+                      <p className={item.kind === 'streak_milestone' ? 'text-amber-300' : 'text-gray-300'}>
+                        {describeFeedItem(item)}
+                        {item.link && (
+                          <a href={item.link} target="_blank" rel="noopener noreferrer" className="ml-2 text-xs text-teal-400 hover:text-teal-300">View</a>
+                        )}
+                      </p>
+                      {item.description && <p className="text-xs text-gray-400 mt-0.5 whitespace-pre-wrap line-clamp-3">{item.description}</p>}
+                      <p className="text-xs text-gray-500 mt-0.5">{timeAgo(item.occurred_at)}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {data.following.length > 0 && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">You follow</h3>
+                <ul className="space-y-1">
+                  {data.following.map(followee => (
+                    <li key={followee.user_id} className="flex justify-between items-center text-sm">
+                      <span className="text-gray-300 truncate">
+                        {followee.username ?? 'Anonymous'}
+                        <span className="text-gray-500"> · {followee.current_streak}d</span>
+                      </span>
+                      <button onClick={() => handleUnfollow(followee.user_id)} disabled={isSaving} className="text-xs text-gray-400 hover:text-red-400">
+                        Unfollow
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default FollowingFeed;
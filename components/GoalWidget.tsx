@@ -0,0 +1,47 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { describeGoal, GoalProgress } from '../services/goals';
+
+interface GoalWidgetProps {
+  progress: GoalProgress;
+}
+
+const PERIOD_NAMES = { day: 'Today', week: 'This week', month: 'This month' };
+
+const GoalWidget: React.FC<GoalWidgetProps> = ({ progress }) => {
+  const { goal, value, daysLeft, history } = progress;
+  const percent = Math.min(100, Math.round((value / goal.target) * 100));
+  const isHit = value >= goal.target;
+  const hitCount = history.filter(period => period.hit).length;
+
+  return (
+    <div className={`bg-gray-800/50 backdrop-blur-sm p-5 rounded-xl border ${isHit ? 'border-teal-600' : 'border-gray-700'}`}>
+      <p className="text-sm font-semibold text-gray-200">{describeGoal(goal)}</p>
+      <div className="flex justify-between items-baseline mt-2">
+        <span className="text-2xl font-bold text-white">{value}<span className="text-base text-gray-500"> / {goal.target}</span></span>
+        <span className="text-xs text-gray-400">
+          {isHit ? 'Goal hit!' : goal.period === 'day' ? PERIOD_NAMES.day : `${PERIOD_NAMES[goal.period]} · ${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+        </span>
+      </div>
+      <div className="w-full bg-gray-700 rounded-full h-2 mt-2" role="progressbar" aria-valuenow={value} aria-valuemin={0} aria-valuemax={goal.target}>
+        <div className={`h-2 rounded-full transition-all duration-500 ${isHit ? 'bg-teal-400' : 'bg-teal-600'}`} style={{ width: `${percent}%` }}></div>
+      </div>
+      {history.length > 0 && (
+        <div className="flex items-center gap-2 mt-3">
+          <div className="flex gap-1">
+            {history.map(period => (
+              <span
+                key={period.startKey}
+                title={`${format(parseISO(period.startKey), 'MMM d')}: ${period.value} / ${period.target}`}
+                className={`w-3 h-3 rounded-sm ${period.hit ? 'bg-teal-500' : 'bg-red-500/60'}`}
+              ></span>
+            ))}
+          </div>
+          <span className="text-xs text-gray-500">{hitCount} of {history.length} hit</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalWidget;
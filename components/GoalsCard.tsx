@@ -0,0 +1,137 @@
+import React, { useState, FormEvent } from 'react';
+import { Goal } from '../types';
+import { createGoal, deleteGoal, describeGoal, GOAL_METRICS, GOAL_PERIODS, GoalMetric, GoalPeriod, updateGoalTarget } from '../services/goals';
+
+interface GoalsCardProps {
+    userId: string;
+    goals: Goal[];
+    className: string;
+    onDataRefresh: () => void;
+}
+
+const inputStyles = "bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500";
+
+const GoalsCard: React.FC<GoalsCardProps> = ({ userId, goals, className, onDataRefresh }) => {
+    const [metric, setMetric] = useState<GoalMetric>('solves');
+    const [period, setPeriod] = useState<GoalPeriod>('week');
+    const [target, setTarget] = useState(5);
+    const [tag, setTag] = useState('');
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [editTarget, setEditTarget] = useState(1);
+    const [isUpdating, setIsUpdating] = useState(false);
+    const [message, setMessage] = useState('');
+
+    const flash = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    // Runs a goal change and refreshes the app's data on success.
+    const runUpdate = async (update: () => Promise<void>, successMessage: string) => {
+        setIsUpdating(true);
+        try {
+            await update();
+            flash(successMessage);
+            onDataRefresh();
+        } catch (err: any) {
+            console.error("Error updating goals:", err);
+            flash(`Error: ${err.message}`);
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleCreate = (e: FormEvent) => {
+        e.preventDefault();
+        if (target < 1 || (metric === 'topic' && !tag.trim())) return;
+        runUpdate(async () => {
+            await createGoal(userId, { metric, period, target, tag: metric === 'topic' ? tag : null });
+            setTag('');
+        }, 'Goal added!');
+    };
+
+    const handleSaveTarget = (goal: Goal) => {
+        if (editTarget < 1 || editTarget === goal.target) {
+            setEditingId(null);
+            return;
+        }
+        runUpdate(async () => {
+            await updateGoalTarget(goal.id, editTarget);
+            setEditingId(null);
+        }, 'Goal updated!');
+    };
+
+    const handleDelete = (goal: Goal) => {
+        if (!window.confirm(`Delete the goal "${describeGoal(goal)}"?`)) return;
+        runUpdate(() => deleteGoal(goal.id), 'Goal deleted.');
+    };
+
+    return (
+        <div className={className}>
+            <h3 className="text-lg font-bold mb-1 text-gray-200">Goals</h3>
+            <p className="text-sm text-gray-400 mb-4">Each goal gets its own widget on the Dashboard. Weeks start on Monday.</p>
+
+            {goals.length > 0 && (
+                <ul className="divide-y divide-gray-700 mb-6">
+                    {goals.map(goal => (
+                        <li key={goal.id} className="py-2 flex flex-wrap justify-between items-center gap-3 text-sm">
+                            {editingId === goal.id ? (
+                                <>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        aria-label="Target"
+                                        value={editTarget}
+                                        onChange={(e) => setEditTarget(Number(e.target.value))}
+                                        className={`${inputStyles} w-24`}
+                                    />
+                                    <span className="flex-1 text-gray-400">{describeGoal({ ...goal, target: Math.max(1, editTarget) })}</span>
+                                    <span className="space-x-3">
+                                        <button onClick={() => handleSaveTarget(goal)} disabled={isUpdating || editTarget < 1} className="text-teal-400 hover:text-teal-300 font-medium">Save</button>
+                                        <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-white">Cancel</button>
+                                    </span>
+                                </>
+                            ) : (
+                                <>
+                                    <span className="text-gray-200">{describeGoal(goal)}</span>
+                                    <span className="space-x-3">
+                                        <button onClick={() => { setEditingId(goal.id); setEditTarget(goal.target); }} className="text-teal-400 hover:text-teal-300">Edit</button>
+                                        <button onClick={() => handleDelete(goal)} disabled={isUpdating} className="text-red-400 hover:text-red-300">Delete</button>
+                                    </span>
+                                </>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <form onSubmit={handleCreate} className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <select aria-label="Goal type" value={metric} onChange={(e) => setMetric(e.target.value as GoalMetric)} className={inputStyles}>
+                        {GOAL_METRICS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    <select aria-label="Goal period" value={period} onChange={(e) => setPeriod(e.target.value as GoalPeriod)} className={inputStyles}>
+                        {GOAL_PERIODS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    <input type="number" min="1" aria-label="Target" value={target} onChange={(e) => setTarget(Number(e.target.value))} className={inputStyles} />
+                </div>
+                {metric === 'topic' && (
+                    <input type="text" aria-label="Topic" placeholder="Topic, e.g., Graphs" value={tag} onChange={(e) => setTag(e.target.value)} className={`${inputStyles} w-full`} />
+                )}
+                {metric === 'minutes' && (
+                    <p className="text-xs text-gray-500">Minutes come from the "Time spent" field when logging a problem.</p>
+                )}
+                <button
+                    type="submit"
+                    disabled={isUpdating || target < 1 || (metric === 'topic' && !tag.trim())}
+                    className="px-6 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-400 focus:ring-offset-gray-800 disabled:bg-teal-800 disabled:cursor-not-allowed"
+                >
+                    Add Goal
+                </button>
+                {message && <p className={`text-sm ${message.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{message}</p>}
+            </form>
+        </div>
+    );
+};
+
+export default GoalsCard;
@@ -0,0 +1,321 @@
+import React, { useCallback, useEffect, useMemo, useState, FormEvent } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { GroupLeaderboardEntry } from '../types';
+import Link from './Link';
+import { paths } from '../services/routes';
+import { getDayKey } from '../services/streaks';
+import {
+    createGroup,
+    fetchGroupDetails,
+    fetchMyGroups,
+    GroupDetails,
+    GroupMembership,
+    joinGroup,
+    LEADERBOARD_COLUMNS,
+    LeaderboardSortKey,
+    leaveGroup,
+    rankLeaderboard,
+    regenerateInviteCode,
+    removeMember,
+    setMemberRole,
+} from '../services/groups';
+
+interface GroupsPageProps {
+    selectedGroupId: number | null;
+    timeZone: string;
+}
+
+const cardStyles = "bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700";
+const inputStyles = "w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500";
+const buttonStyles = "px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed";
+
+const GroupsPage: React.FC<GroupsPageProps> = ({ selectedGroupId, timeZone }) => {
+    const { user } = useAuth();
+    const { navigate } = useRouter();
+    const [memberships, setMemberships] = useState<GroupMembership[]>([]);
+    const [details, setDetails] = useState<GroupDetails | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState('');
+    const [newGroupName, setNewGroupName] = useState('');
+    const [inviteCode, setInviteCode] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [sortKey, setSortKey] = useState<LeaderboardSortKey>('current_streak');
+
+    const selected = memberships.find(m => m.group.id === selectedGroupId) ?? null;
+    const isAdmin = selected?.role === 'admin';
+
+    const loadGroups = useCallback(async () => {
+        if (!user) return;
+        try {
+            setMemberships(await fetchMyGroups(user.id));
+        } catch (err: any) {
+            console.error("Error loading groups:", err);
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    const loadDetails = useCallback(async () => {
+        if (selectedGroupId === null) {
+            setDetails(null);
+            return;
+        }
+        try {
+            setDetails(await fetchGroupDetails(selectedGroupId, timeZone));
+        } catch (err: any) {
+            console.error("Error loading group:", err);
+            setError(err.message);
+        }
+    }, [selectedGroupId, timeZone]);
+
+    useEffect(() => {
+        loadGroups();
+    }, [loadGroups]);
+
+    useEffect(() => {
+        setDetails(null);
+        loadDetails();
+    }, [loadDetails]);
+
+    const leaderboard = useMemo(() => rankLeaderboard(details?.leaderboard ?? [], sortKey), [details, sortKey]);
+
+    const flash = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    // Runs a group action, then reloads the list and the open group.
+    const runAction = async (action: () => Promise<unknown>, successMessage?: string) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await action();
+            await Promise.all([loadGroups(), loadDetails()]);
+            if (successMessage) flash(successMessage);
+        } catch (err: any) {
+            console.error("Group action failed:", err);
+            flash(`Error: ${err.message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCreate = (e: FormEvent) => {
+        e.preventDefault();
+        if (!newGroupName.trim()) return;
+        runAction(async () => {
+            const group = await createGroup(newGroupName);
+            setNewGroupName('');
+            navigate(paths.group(group.id));
+        }, 'Group created!');
+    };
+
+    const handleJoin = (e: FormEvent) => {
+        e.preventDefault();
+        if (!inviteCode.trim()) return;
+        runAction(async () => {
+            const group = await joinGroup(inviteCode);
+            setInviteCode('');
+            navigate(paths.group(group.id));
+        }, 'Joined group!');
+    };
+
+    const handleLeave = () => {
+        if (!selected || !window.confirm(`Leave ${selected.group.name}?`)) return;
+        runAction(async () => {
+            await leaveGroup(selected.group.id);
+            navigate(paths.groups());
+        }, 'You left the group.');
+    };
+
+    const handleCopyCode = async () => {
+        if (!selected) return;
+        try {
+            await navigator.clipboard.writeText(selected.group.invite_code);
+            flash('Invite code copied!');
+        } catch (err: any) {
+            console.error("Error copying invite code:", err);
+            flash(`Error: ${err.message}`);
+        }
+    };
+
+    const handleRoleChange = (entry: GroupLeaderboardEntry) => {
+        if (!selected) return;
+        const role = entry.role === 'admin' ? 'member' : 'admin';
+        runAction(() => setMemberRole(selected.group.id, entry.user_id, role));
+    };
+
+    const handleRemove = (entry: GroupLeaderboardEntry) => {
+        if (!selected || !window.confirm(`Remove ${entry.username ?? 'this member'} from the group?`)) return;
+        runAction(() => removeMember(selected.group.id, entry.user_id));
+    };
+
+    if (loading) {
+        return <div className="flex justify-center items-center h-full"><div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-teal-500"></div></div>;
+    }
+
+    return (
+        <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 font-sans">
+            <header className="mb-8">
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-100">Study Groups</h1>
+                <p className="text-gray-400 mt-1">Keep each other accountable.</p>
+            </header>
+
+            {error && <div className="bg-red-900 border border-red-600 text-red-100 px-4 py-3 rounded-md mb-6" role="alert">{error}</div>}
+            {message && <p className={`text-sm mb-4 ${message.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{message}</p>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-1 space-y-6">
+                    <div className={cardStyles}>
+                        <h2 className="text-lg font-bold mb-4 text-gray-200">My Groups</h2>
+                        {memberships.length === 0 ? (
+                            <p className="text-sm text-gray-500">You're not in any groups yet.</p>
+                        ) : (
+                            <ul className="space-y-1">
+                                {memberships.map(({ group, role }) => (
+                                    <li key={group.id}>
+                                        <Link
+                                            to={paths.group(group.id)}
+                                            className={`flex justify-between items-center px-3 py-2 rounded-md text-sm transition-colors ${group.id === selectedGroupId ? 'bg-teal-600/30 text-teal-200' : 'text-gray-300 hover:bg-gray-700'}`}
+                                        >
+                                            <span className="truncate">{group.name}</span>
+                                            {role === 'admin' && <span className="text-xs text-gray-400 ml-2">Admin</span>}
+                                        </Link>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <div className={cardStyles}>
+                        <h2 className="text-lg font-bold mb-4 text-gray-200">Create a Group</h2>
+                        <form onSubmit={handleCreate} className="flex gap-3">
+                            <input type="text" aria-label="Group name" placeholder="Group name" maxLength={60} value={newGroupName} onChange={(e) => setNewGroupName(e.target.value)} className={inputStyles} />
+                            <button type="submit" disabled={isSaving || !newGroupName.trim()} className={buttonStyles}>Create</button>
+                        </form>
+                    </div>
+                    <div className={cardStyles}>
+                        <h2 className="text-lg font-bold mb-4 text-gray-200">Join with a Code</h2>
+                        <form onSubmit={handleJoin} className="flex gap-3">
+                            <input type="text" aria-label="Invite code" placeholder="e.g., 3F9A1C2B" value={inviteCode} onChange={(e) => setInviteCode(e.target.value)} className={`${inputStyles} uppercase`} />
+                            <button type="submit" disabled={isSaving || !inviteCode.trim()} className={buttonStyles}>Join</button>
+                        </form>
+                    </div>
+                </div>
+
+                <div className="lg:col-span-2 space-y-6">
+                    {selectedGroupId !== null && !selected && (
+                        <div className={cardStyles}><p className="text-gray-400">This group doesn't exist or you're not a member.</p></div>
+                    )}
+                    {selectedGroupId === null && (
+                        <div className={cardStyles}><p className="text-gray-400">Pick a group to see its leaderboard and activity.</p></div>
+                    )}
+                    {selected && (
+                        <>
+                            <div className={cardStyles}>
+                                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                                    <div>
+                                        <h2 className="text-xl font-bold text-gray-100">{selected.group.name}</h2>
+                                        <p className="text-sm text-gray-400 mt-1">
+                                            Invite code <code className="text-teal-300 font-mono">{selected.group.invite_code}</code>
+                                            <button onClick={handleCopyCode} className="ml-3 text-gray-300 hover:text-white font-medium">Copy</button>
+                                            {isAdmin && (
+                                                <button onClick={() => runAction(() => regenerateInviteCode(selected.group.id), 'Invite code changed.')} disabled={isSaving} className="ml-3 text-gray-300 hover:text-white font-medium">New code</button>
+                                            )}
+                                        </p>
+                                    </div>
+                                    <button onClick={handleLeave} disabled={isSaving} className="text-sm font-medium text-red-300 hover:text-red-200 bg-red-600/20 px-4 py-2 rounded-lg transition-colors border border-red-500/50 hover:border-red-500/80">
+                                        Leave Group
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className={cardStyles}>
+                                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 mb-4">
+                                    <h2 className="text-xl font-bold">Leaderboard</h2>
+                                    <div className="inline-flex rounded-md border border-gray-700 text-xs overflow-hidden">
+                                        {LEADERBOARD_COLUMNS.map(({ key, label }) => (
+                                            <button
+                                                key={key}
+                                                onClick={() => setSortKey(key)}
+                                                className={`px-3 py-1 transition-colors ${sortKey === key ? 'bg-teal-600 text-white' : 'bg-gray-900/70 text-gray-400 hover:text-gray-200'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {!details ? (
+                                    <div className="flex justify-center py-4"><div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-teal-500"></div></div>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="min-w-full divide-y divide-gray-700 text-sm">
+                                            <thead>
+                                                <tr>
+                                                    <th className="px-3 py-2 text-left font-semibold text-gray-300">#</th>
+                                                    <th className="px-3 py-2 text-left font-semibold text-gray-300">Member</th>
+                                                    {LEADERBOARD_COLUMNS.map(({ key, label }) => (
+                                                        <th key={key} className={`px-3 py-2 text-right font-semibold ${sortKey === key ? 'text-teal-300' : 'text-gray-300'}`}>{label}</th>
+                                                    ))}
+                                                    {isAdmin && <th className="px-3 py-2"><span className="sr-only">Actions</span></th>}
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-800">
+                                                {leaderboard.map((entry, index) => (
+                                                    <tr key={entry.user_id} className={entry.user_id === user?.id ? 'bg-teal-900/20' : ''}>
+                                                        <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                                                        <td className="px-3 py-2 text-gray-200">
+                                                            {entry.username ?? 'Anonymous'}
+                                                            {entry.role === 'admin' && <span className="ml-2 text-xs text-gray-500">Admin</span>}
+                                                        </td>
+                                                        {LEADERBOARD_COLUMNS.map(({ key }) => (
+                                                            <td key={key} className="px-3 py-2 text-right font-mono text-gray-300">{entry[key]}</td>
+                                                        ))}
+                                                        {isAdmin && (
+                                                            <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                                                                {entry.user_id !== user?.id && (
+                                                                    <>
+                                                                        <button onClick={() => handleRoleChange(entry)} disabled={isSaving} className="text-teal-400 hover:text-teal-300">
+                                                                            {entry.role === 'admin' ? 'Make member' : 'Make admin'}
+                                                                        </button>
+                                                                        <button onClick={() => handleRemove(entry)} disabled={isSaving} className="text-red-400 hover:text-red-300">Remove</button>
+                                                                    </>
+                                                                )}
+                                                            </td>
+                                                        )}
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        <p className="text-xs text-gray-500 mt-3">Weeks start on Monday. Weekly score counts Easy as 1, Medium as 2 and Hard as 3.</p>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className={cardStyles}>
+                                <h2 className="text-xl font-bold mb-4">Activity</h2>
+                                {details && details.feed.length === 0 && <p className="text-center text-gray-400 py-4">No solves yet. Be the first!</p>}
+                                <ul className="divide-y divide-gray-700">
+                                    {details?.feed.map(item => (
+                                        <li key={item.submission_id} className="py-2 flex justify-between gap-4 text-sm">
+                                            <span className="text-gray-300 truncate">
+                                                <span className="font-medium text-gray-100">{item.username ?? 'Anonymous'}</span> solved {item.problem_name}
+                                                <span className="text-gray-500"> ({item.difficulty})</span>
+                                            </span>
+                                            <span className="text-gray-500 whitespace-nowrap">{format(parseISO(getDayKey(item.date, timeZone)), 'MMM d')}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GroupsPage;
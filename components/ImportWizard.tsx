@@ -0,0 +1,300 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Submission } from '../types';
+import {
+  ColumnMapping,
+  csvToRecords,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportReport,
+  ImportSource,
+  insertImportRows,
+  jsonToRecords,
+  parseCsv,
+  RawImportRecord,
+  validateRecords,
+} from '../services/importer';
+import { getDayKey } from '../services/streaks';
+import { submissionsRepo } from '../services/submissionsRepo';
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  timeZone: string;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const PREVIEW_LIMIT = 200;
+
+const inputStyles = "bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500";
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onImported, timeZone }) => {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [source, setSource] = useState<ImportSource>('csv');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [records, setRecords] = useState<RawImportRecord[]>([]);
+  const [fallbackDifficulty, setFallbackDifficulty] = useState<Submission['difficulty']>('Medium');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  // The app only keeps recent submissions, so the whole history is fetched to
+  // spot duplicates. Null until it has loaded; importing before then would
+  // bring every existing solve in again, so it waits, or, if loading failed,
+  // needs the user to accept that nothing is flagged.
+  const [existingSubmissions, setExistingSubmissions] = useState<Submission[] | null>(null);
+  const [existingError, setExistingError] = useState<string | null>(null);
+  const [importUnchecked, setImportUnchecked] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setCsvRows([]);
+      setMapping({});
+      setRecords([]);
+      setError(null);
+      setReport(null);
+      setProgress(0);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    let cancelled = false;
+    setExistingSubmissions(null);
+    setExistingError(null);
+    setImportUnchecked(false);
+    submissionsRepo.listAll(user.id)
+      .then(rows => {
+        if (!cancelled) setExistingSubmissions(rows);
+      })
+      .catch((err: any) => {
+        console.error("Error loading submissions for the duplicate check:", err);
+        if (!cancelled) setExistingError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user]);
+
+  const rows = useMemo(
+    () => validateRecords(records, existingSubmissions ?? [], timeZone, fallbackDifficulty),
+    [records, existingSubmissions, timeZone, fallbackDifficulty]
+  );
+
+  const rowsToImport = rows.filter(row => row.submission && !(skipDuplicates && row.duplicate));
+  const invalidCount = rows.filter(row => !row.submission).length;
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+  const canImport = existingSubmissions !== null || (existingError !== null && importUnchecked);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith('.json') || text.trim().startsWith('{')) {
+        const parsed = jsonToRecords(JSON.parse(text));
+        setSource(parsed.source);
+        setRecords(parsed.records);
+        setStep('preview');
+      } else {
+        const parsedRows = parseCsv(text);
+        if (parsedRows.length < 2) {
+          throw new Error('The CSV needs a header row and at least one data row.');
+        }
+        setSource('csv');
+        setCsvRows(parsedRows);
+        setMapping(guessColumnMapping(parsedRows[0]));
+        setStep('mapping');
+      }
+    } catch (err: any) {
+      console.error("Error reading import file:", err);
+      setError(err.message);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleImport = async () => {
+    if (!user || !canImport || rowsToImport.length === 0) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await insertImportRows(user.id, rowsToImport, setProgress);
+      setReport(result);
+      setStep('done');
+      onImported();
+    } catch (err: any) {
+      console.error("Import failed:", err);
+      setError(`An error occurred: ${err.message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex justify-center items-center z-50 p-4">
+      <div className="bg-gray-800/80 border border-gray-700 rounded-xl shadow-2xl p-8 w-full max-w-4xl max-h-[90vh] overflow-y-auto relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors text-2xl leading-none">&times;</button>
+        <h2 className="text-2xl font-bold mb-6 text-center text-teal-400">Import Submissions</h2>
+
+        {step === 'upload' && (
+          <div className="space-y-4 text-sm text-gray-300">
+            <p>Upload a CSV with one solve per row, a LeetCode submissions dump (JSON) or a Codeforces <code className="text-teal-300">user.status</code> response (JSON).</p>
+            <p className="text-gray-400">Imported solves from before your backfill window are added to your history but don't count toward your streak.</p>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-teal-600 file:text-white hover:file:bg-teal-700" />
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-400">Match your CSV columns to submission fields.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label htmlFor={`map_${field}`} className="block text-sm font-medium text-gray-300">{label}{required && ' *'}</label>
+                  <select id={`map_${field}`} value={mapping[field] ?? ''} onChange={(e) => handleMappingChange(field, e.target.value)} className={`mt-1 w-full ${inputStyles}`}>
+                    <option value="">Not mapped</option>
+                    {csvRows[0].map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end pt-4 space-x-3">
+              <button type="button" onClick={() => setStep('upload')} className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700/80 rounded-md hover:bg-gray-600">Back</button>
+              <button
+                type="button"
+                disabled={missingRequired.length > 0}
+                onClick={() => { setRecords(csvToRecords(csvRows, mapping)); setStep('preview'); }}
+                className="px-6 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-teal-800 disabled:cursor-not-allowed"
+              >
+                Preview
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 items-center text-sm text-gray-300">
+              <span className="capitalize">Source: {source === 'csv' ? 'CSV' : source}</span>
+              <span>{rows.length} rows</span>
+              <span className="text-red-300">{invalidCount} invalid</span>
+              {existingSubmissions === null && !existingError
+                ? <span className="text-gray-400">Checking for duplicates...</span>
+                : <span className="text-amber-300">{duplicateCount} duplicates</span>}
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500" />
+                Skip duplicates
+              </label>
+              <label className="flex items-center gap-2">
+                Missing difficulty:
+                <select value={fallbackDifficulty} onChange={(e) => setFallbackDifficulty(e.target.value as Submission['difficulty'])} className={`py-1 ${inputStyles}`}>
+                  <option>Easy</option>
+                  <option>Medium</option>
+                  <option>Hard</option>
+                </select>
+              </label>
+            </div>
+            <div className="overflow-x-auto max-h-80 border border-gray-700 rounded-md">
+              <table className="min-w-full divide-y divide-gray-700 text-sm">
+                <thead className="bg-gray-800/60 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-300">Row</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-300">Problem</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-300">Date</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-300">Difficulty</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-300">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800 bg-gray-900/50">
+                  {rows.slice(0, PREVIEW_LIMIT).map(row => (
+                    <tr key={row.rowNumber}>
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2 text-gray-200">{row.problemName}</td>
+                      <td className="px-3 py-2 text-gray-400 whitespace-nowrap">{row.submission && getDayKey(row.submission.date, timeZone)}</td>
+                      <td className="px-3 py-2 text-gray-400">{row.submission?.difficulty}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0
+                          ? <span className="text-red-300">{row.errors.join('; ')}</span>
+                          : row.duplicate
+                            ? <span className="text-amber-300">Duplicate</span>
+                            : <span className="text-emerald-300">Ready</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_LIMIT && <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} rows.</p>}
+            {existingError && (
+              <div className="bg-gray-900/50 p-3 rounded-md border border-amber-500/30 text-sm text-amber-200 space-y-2">
+                <p>Couldn't load your existing submissions, so solves you've already logged can't be flagged as duplicates: {existingError}</p>
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input type="checkbox" checked={importUnchecked} onChange={(e) => setImportUnchecked(e.target.checked)} className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500" />
+                  Import anyway, without checking against my history
+                </label>
+              </div>
+            )}
+            {importing && <p className="text-sm text-gray-300">Imported {progress} of {rowsToImport.length}...</p>}
+            <div className="flex justify-end pt-4 space-x-3">
+              <button type="button" onClick={() => setStep(source === 'csv' ? 'mapping' : 'upload')} disabled={importing} className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700/80 rounded-md hover:bg-gray-600">Back</button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={importing || !canImport || rowsToImport.length === 0}
+                className="px-6 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-teal-800 disabled:cursor-not-allowed"
+              >
+                {importing ? <span className="w-5 h-5 border-2 border-dashed rounded-full animate-spin inline-block"></span> : `Import ${rowsToImport.length} rows`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && report && (
+          <div className="space-y-4 text-sm">
+            <p className="text-emerald-400 font-semibold">Imported {report.inserted} submissions.</p>
+            {report.failed.length > 0 && (
+              <div className="bg-gray-900/50 p-4 rounded-md border border-red-500/30">
+                <p className="text-red-300 font-medium mb-2">{report.failed.length} rows could not be imported:</p>
+                <ul className="space-y-1 text-gray-300 max-h-48 overflow-y-auto">
+                  {report.failed.map((failure, i) => (
+                    <li key={i}>{failure.rowNumber > 0 ? `Row ${failure.rowNumber}: ` : ''}{failure.error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end pt-4">
+              <button type="button" onClick={onClose} className="px-6 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700">Done</button>
+            </div>
+          </div>
+        )}
+
+        {error && <div className="text-red-400 text-sm text-center font-semibold mt-4">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
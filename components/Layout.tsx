@@ -1,73 +1,32 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { supabase } from '../services/supabase';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Profile, Submission } from '../types';
-import { startOfDay, parseISO, differenceInDays, format } from 'date-fns';
+import { useRouter } from '../contexts/RouterContext';
+import { Goal, Profile, ReviewSchedule, ReviewTime, Submission, Tag, UserAchievement } from '../types';
+import { fetchTagData } from '../services/tags';
+import { fetchReviewData, getStreakActivityDates } from '../services/reviews';
+import { fetchGoals } from '../services/goals';
+import { aggregateByDay, DayActivity, getRecentActivityStart, sumActivity } from '../services/activity';
+import { Achievement, ACHIEVEMENTS_BY_ID, fetchAchievements, unlockAchievements } from '../services/achievements';
+import { calculateStreaks, DEFAULT_BACKFILL_WINDOW_DAYS, getBrowserTimeZone, getStreakOptions, resolveTimeZone } from '../services/streaks';
+import { paths } from '../services/routes';
+import { clearSnapshot, loadSnapshot, saveSnapshot } from '../services/offlineStore';
+import { applyQueuedWrites, getQueuedEntries, isNetworkError, OutboxEntry, replayOutbox } from '../services/outbox';
+import { profilesRepo } from '../services/profilesRepo';
+import { submissionsRepo } from '../services/submissionsRepo';
+import { clearCache, subscribeToCache } from '../services/cache';
+import { subscribeToRealtimeSync } from '../services/realtime';
 
 import Dashboard from './Dashboard';
 import SubmissionsPage from './SubmissionsPage';
 import ProfilePage from './ProfilePage';
-
-type View = 'dashboard' | 'submissions' | 'profile';
-
-/**
- * Calculates the current and longest streaks based on a list of submission dates.
- * This function is robust and recalculates from scratch.
- */
-const calculateStreaks = (submissionDates: string[]): { currentStreak: number; longestStreak: number } => {
-    if (!submissionDates || submissionDates.length === 0) {
-        return { currentStreak: 0, longestStreak: 0 };
-    }
-
-    // 1. Get unique, sorted dates. Parsing them ensures they are treated consistently.
-    const dates = [
-        ...new Set(submissionDates.map(d => format(parseISO(d), 'yyyy-MM-dd')))
-    ]
-    .map(d => parseISO(d))
-    .sort((a, b) => a.getTime() - b.getTime()); // Sort ascending
-
-    if (dates.length === 0) {
-        return { currentStreak: 0, longestStreak: 0 };
-    }
-
-    // 2. Calculate longest streak
-    let longestStreak = 0;
-    if (dates.length > 0) {
-        longestStreak = 1;
-        let currentRun = 1;
-        for (let i = 1; i < dates.length; i++) {
-            // Check if the current date is exactly one day after the previous one
-            if (differenceInDays(dates[i], dates[i - 1]) === 1) {
-                currentRun++;
-            } else {
-                longestStreak = Math.max(longestStreak, currentRun);
-                currentRun = 1; // Reset for the new run
-            }
-        }
-        longestStreak = Math.max(longestStreak, currentRun); // Check the last run
-    }
-
-    // 3. Calculate current streak
-    let currentStreak = 0;
-    const today = startOfDay(new Date());
-    const lastSubmissionDate = dates[dates.length - 1];
-    
-    // Streak is only "current" if the last submission was today or yesterday.
-    if (differenceInDays(today, lastSubmissionDate) <= 1) {
-        currentStreak = 1;
-        // Go backwards from the most recent submission
-        for (let i = dates.length - 2; i >= 0; i--) {
-            if (differenceInDays(dates[i + 1], dates[i]) === 1) {
-                currentStreak++;
-            } else {
-                break; // Streak is broken
-            }
-        }
-    }
-    
-    return { currentStreak, longestStreak };
-};
-
+import NotFoundPage from './NotFoundPage';
+import PublicProfilePage from './PublicProfilePage';
+import GroupsPage from './GroupsPage';
+import FollowingFeed from './FollowingFeed';
+import AchievementToast from './AchievementToast';
+import ReminderScheduler from './ReminderScheduler';
+import SyncStatus from './SyncStatus';
+import Link from './Link';
 
 interface NavIconProps {
     children: React.ReactNode;
@@ -80,124 +39,391 @@ const NavIcon: React.FC<NavIconProps> = ({ children, isActive }) => (
     </div>
 );
 
+/**
+ * Only submissions from `since` on are loaded in full; `days` holds the
+ * server's per-day totals for everything before.
+ */
+interface OlderActivity {
+    since: string | null;
+    days: Map<string, DayActivity>;
+}
+
+const buildActivity = (submissions: Submission[], tagsBySubmission: Map<number, string[]>, older: OlderActivity, timeZone: string) =>
+    aggregateByDay(
+        older.since ? submissions.filter(s => Date.parse(s.date) >= Date.parse(older.since!)) : submissions,
+        timeZone,
+        tagsBySubmission,
+        older.days
+    );
+
+const computeStreaks = (profile: Profile, activityByDay: Map<string, DayActivity>, reviewEvents: ReviewTime[]) => {
+    const timeZone = resolveTimeZone(profile.timezone);
+    return calculateStreaks(getStreakActivityDates(profile, activityByDay, reviewEvents, timeZone), timeZone, getStreakOptions(profile));
+};
+
 const Layout: React.FC = () => {
     const { user, signOut } = useAuth();
-    const [activeView, setActiveView] = useState<View>('dashboard');
-    const [profile, setProfile] = useState<Profile | null>(null);
-    const [submissions, setSubmissions] = useState<Submission[]>([]);
+    const { route, navigate } = useRouter();
+    const [cacheVersion, setCacheVersion] = useState(0);
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [syncedTagsBySubmission, setSyncedTagsBySubmission] = useState<Map<number, string[]>>(new Map());
+    const [reviewSchedules, setReviewSchedules] = useState<ReviewSchedule[]>([]);
+    const [reviewEvents, setReviewEvents] = useState<ReviewTime[]>([]);
+    const [olderActivity, setOlderActivity] = useState<OlderActivity>({ since: null, days: new Map() });
+    const olderActivityRef = useRef(olderActivity);
+    olderActivityRef.current = olderActivity;
+    const [goals, setGoals] = useState<Goal[]>([]);
+    const [achievements, setAchievements] = useState<UserAchievement[]>([]);
+    const achievementsRef = useRef(achievements);
+    achievementsRef.current = achievements;
+    const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
+    const [queuedEntries, setQueuedEntries] = useState<OutboxEntry[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [isLive, setIsLive] = useState(true);
+    const [syncConflicts, setSyncConflicts] = useState<string[]>([]);
+
+    // The profile and submissions live in the repositories' cache, so edits
+    // made anywhere (optimistic ones included) show up here without a refetch.
+    useEffect(() => subscribeToCache(() => setCacheVersion(v => v + 1)), []);
+
+    const { submissions, tagsBySubmission } = useMemo(
+        () => applyQueuedWrites((user && submissionsRepo.getCachedList(user.id)) ?? [], syncedTagsBySubmission, queuedEntries),
+        [user, cacheVersion, syncedTagsBySubmission, queuedEntries]
+    );
 
-    const fetchData = useCallback(async () => {
+    const timeZone = resolveTimeZone((user && profilesRepo.getCached(user.id))?.timezone);
+
+    const activityByDay = useMemo(
+        () => buildActivity(submissions, tagsBySubmission, olderActivity, timeZone),
+        [submissions, tagsBySubmission, olderActivity, timeZone]
+    );
+
+    // Streaks are calculated by the database whenever activity changes (see
+    // calculate_streaks). Until a fresh copy of the profile is back, e.g.
+    // with writes still queued offline or just after an edit, show the
+    // effect locally instead.
+    const profile = useMemo((): Profile | null => {
+        const cached = user ? profilesRepo.getCached(user.id) : null;
+        if (!cached || (queuedEntries.length === 0 && profilesRepo.isFresh(cached.id))) return cached;
+        const { currentStreak, longestStreak } = computeStreaks(cached, activityByDay, reviewEvents);
+        return { ...cached, current_streak: currentStreak, longest_streak: longestStreak };
+    }, [user, cacheVersion, queuedEntries, activityByDay, reviewEvents]);
+
+    // Submissions in the review queue may be older than the rows loaded in
+    // full, so they are loaded by id (see submissionsRepo.load).
+    const reviewSubmissions = useMemo(() => {
+        const byId = new Map<number, Submission>(submissions.map(s => [s.id, s]));
+        return reviewSchedules
+            .map(schedule => byId.get(schedule.submission_id) ?? submissionsRepo.getCached(schedule.submission_id))
+            .filter((s): s is Submission => !!s);
+    }, [submissions, reviewSchedules, cacheVersion]);
+
+    const totalSolves = useMemo(() => sumActivity(activityByDay).count, [activityByDay]);
+
+    const saveOfflineCopy = (profileData: Profile, tagData: Map<number, string[]>, events: ReviewTime[], older: OlderActivity) => {
         if (!user) return;
+        saveSnapshot(user.id, {
+            profile: profileData,
+            submissions: submissionsRepo.getCachedList(user.id) ?? [],
+            olderActivity: older.days,
+            activitySince: older.since ?? undefined,
+            tagsBySubmission: tagData,
+            reviewEvents: events,
+        }).catch((err: any) => console.error("Failed to save offline copy:", err));
+    };
+
+    // Checks the (possibly just changed) data against the achievement rules.
+    const unlockNewAchievements = async (profileData: Profile, entries: OutboxEntry[], tagData: Map<number, string[]>, events: ReviewTime[], older: OlderActivity, existing: UserAchievement[]): Promise<UserAchievement[]> => {
+        if (!user) return [];
+        const merged = applyQueuedWrites(submissionsRepo.getCachedList(user.id) ?? [], tagData, entries);
+        const activity = buildActivity(merged.submissions, merged.tagsBySubmission, older, resolveTimeZone(profileData.timezone));
+        const streaks = entries.length > 0 ? computeStreaks(profileData, activity, events) : null;
+        try {
+            return await unlockAchievements(user.id, {
+                profile: streaks ? { ...profileData, current_streak: streaks.currentStreak, longest_streak: streaks.longestStreak } : profileData,
+                activityByDay: activity,
+            }, existing);
+        } catch (err: any) {
+            console.error("Failed to unlock achievements:", err.message);
+            return [];
+        }
+    };
+
+    // Shows the last mirrored data with queued writes on top. Tags, reviews and
+    // goals loaded earlier in this session stay as they are.
+    const loadOfflineData = useCallback(async (): Promise<boolean> => {
+        if (!user) return false;
+        const snapshot = await loadSnapshot(user.id);
+        if (!snapshot) return false;
+        profilesRepo.prime(snapshot.profile);
+        submissionsRepo.prime(user.id, snapshot.submissions, snapshot.activitySince);
+        setOlderActivity({ since: snapshot.activitySince ?? null, days: snapshot.olderActivity ?? new Map() });
+        setSyncedTagsBySubmission(snapshot.tagsBySubmission);
+        setReviewEvents(snapshot.reviewEvents);
+        setQueuedEntries(await getQueuedEntries(user.id));
+        return true;
+    }, [user]);
+
+    // Loads everything from scratch. Resolves with any achievements unlocked by this load.
+    const fetchData = useCallback(async (): Promise<UserAchievement[]> => {
+        if (!user) return [];
         setLoading(true);
         setError(null);
         try {
-            let profileData: Profile | null = null;
-    
-            const { data: existingProfile, error: profileError } = await supabase
-                .from('profiles')
-                .select('*')
-                .eq('id', user.id)
-                .single();
-    
-            if (profileError && profileError.code === 'PGRST116') {
-                // Profile does not exist, create it. This is expected for new users.
-                const { data: newProfile, error: insertError } = await supabase
-                    .from('profiles')
-                    .insert({
-                        id: user.id,
-                        username: user.email?.split('@')[0] || `user_${user.id.substring(0, 8)}`,
-                        current_streak: 0,
-                        longest_streak: 0,
-                        streak_goal: 30,
-                    })
-                    .select()
-                    .single();
-    
-                if (insertError) {
-                    console.error("Error creating profile:", insertError);
-                    throw insertError;
-                }
-                profileData = newProfile;
-            } else if (profileError) {
-                // A different error occurred while fetching profile
-                throw profileError;
-            } else {
-                // Profile found successfully
-                profileData = existingProfile;
-            }
-    
-            const { data: submissionData, error: submissionError } = await supabase
-                .from('submissions')
-                .select('*')
-                .eq('user_id', user.id)
-                .order('created_at', { ascending: false });
-            if (submissionError) throw submissionError;
-    
-            // --- Robust Streak Calculation ---
-            if (profileData && submissionData) {
-                const submissionDates = submissionData.map(s => s.created_at);
-                const { currentStreak, longestStreak } = calculateStreaks(submissionDates);
-    
-                // If calculated streaks differ from DB, update the DB.
-                if (profileData.current_streak !== currentStreak || profileData.longest_streak !== longestStreak) {
-                    const { data: updatedProfile, error: updateError } = await supabase
-                        .from('profiles')
-                        .update({ current_streak: currentStreak, longest_streak: longestStreak })
-                        .eq('id', user.id)
-                        .select()
-                        .single();
-    
-                    if (updateError) {
-                        console.error("Failed to update streaks:", updateError.message);
-                    } else {
-                        // Mutate profileData for immediate UI update
-                        profileData = updatedProfile;
-                    }
-                }
-            }
-            // --- End of Streak Logic ---
-    
-            setProfile(profileData);
-            setSubmissions(submissionData || []);
+            // Creating the profile on first sign-in is expected for new users.
+            const profileData = await profilesRepo.getOrCreate({
+                id: user.id,
+                username: user.email?.split('@')[0] || `user_${user.id.substring(0, 8)}`,
+                streak_goal: 30,
+                timezone: getBrowserTimeZone(),
+                rest_days: [],
+                backfill_window_days: DEFAULT_BACKFILL_WINDOW_DAYS,
+                reviews_count_toward_streak: false,
+                is_public: false,
+                public_show_notes: false,
+                public_show_links: false,
+                reminder_times: [],
+                quiet_hours_start: null,
+                quiet_hours_end: null,
+            });
+            // Full rows for the last few weeks only; older days come as totals.
+            const profileTimeZone = resolveTimeZone(profileData.timezone);
+            const since = getRecentActivityStart(profileTimeZone);
+            const [, olderDays] = await Promise.all([
+                submissionsRepo.list(user.id, { refresh: true, since }),
+                submissionsRepo.summarize(user.id, since, profileTimeZone),
+            ]);
+            const older: OlderActivity = { since, days: olderDays };
+
+            const [tagData, reviewData, goalData, achievementData, entries] = await Promise.all([
+                fetchTagData(user.id),
+                fetchReviewData(user.id, since, profileTimeZone),
+                fetchGoals(user.id),
+                fetchAchievements(user.id),
+                getQueuedEntries(user.id),
+            ]);
+            await submissionsRepo.load(reviewData.schedules.map(schedule => schedule.submission_id));
+
+            saveOfflineCopy(profileData, tagData.tagsBySubmission, reviewData.events, older);
+            const unlocked = await unlockNewAchievements(profileData, entries, tagData.tagsBySubmission, reviewData.events, older, achievementData);
+
+            setOlderActivity(older);
+            setTags(tagData.tags);
+            setSyncedTagsBySubmission(tagData.tagsBySubmission);
+            setReviewSchedules(reviewData.schedules);
+            setReviewEvents(reviewData.events);
+            setGoals(goalData);
+            setAchievements([...achievementData, ...unlocked]);
+            setQueuedEntries(entries);
+            return unlocked;
     
         } catch (err: any) {
+            if (isNetworkError(err) && await loadOfflineData().catch(() => false)) {
+                return [];
+            }
             console.error("Error fetching data:", err);
             setError(err.message);
+            return [];
         } finally {
             setLoading(false);
         }
+    }, [user, loadOfflineData]);
+
+    // After submissions change. The repository has already updated the cached
+    // rows, so only what depends on them is reloaded: the profile (if the
+    // change invalidated its streak), the totals for older days, tags, review
+    // schedules and the outbox.
+    const refreshActivity = useCallback(async (): Promise<UserAchievement[]> => {
+        if (!user) return [];
+        try {
+            const { since } = olderActivityRef.current;
+            const profileTimeZone = resolveTimeZone(profilesRepo.getCached(user.id)?.timezone);
+            const [profileData, olderDays, tagData, reviewData, entries] = await Promise.all([
+                profilesRepo.get(user.id),
+                since ? submissionsRepo.summarize(user.id, since, profileTimeZone) : olderActivityRef.current.days,
+                fetchTagData(user.id),
+                fetchReviewData(user.id, since, profileTimeZone),
+                getQueuedEntries(user.id),
+            ]);
+            await submissionsRepo.load(reviewData.schedules.map(schedule => schedule.submission_id));
+            const older: OlderActivity = { since, days: olderDays };
+            setOlderActivity(older);
+            setTags(tagData.tags);
+            setSyncedTagsBySubmission(tagData.tagsBySubmission);
+            setReviewSchedules(reviewData.schedules);
+            setReviewEvents(reviewData.events);
+            setQueuedEntries(entries);
+            if (!profileData) return [];
+
+            saveOfflineCopy(profileData, tagData.tagsBySubmission, reviewData.events, older);
+            const unlocked = await unlockNewAchievements(profileData, entries, tagData.tagsBySubmission, reviewData.events, older, achievementsRef.current);
+            if (unlocked.length > 0) {
+                setAchievements(prev => [...prev, ...unlocked]);
+            }
+            return unlocked;
+        } catch (err: any) {
+            // Offline: the change was queued, so the outbox is all there is to reload.
+            if (isNetworkError(err)) {
+                getQueuedEntries(user.id).then(setQueuedEntries, (outboxErr: any) => console.error("Failed to read queued changes:", outboxErr));
+                return [];
+            }
+            console.error("Error refreshing data:", err);
+            setError(err.message);
+            return [];
+        }
+    }, [user]);
+
+    // Reviews can count toward the streak, which the database recalculates.
+    const handleReviewed = useCallback(() => {
+        if (!user) return;
+        profilesRepo.invalidate(user.id);
+        refreshActivity();
+    }, [user, refreshActivity]);
+
+    const refreshGoals = useCallback(async () => {
+        if (!user) return;
+        try {
+            setGoals(await fetchGoals(user.id));
+        } catch (err: any) {
+            console.error("Error fetching goals:", err);
+        }
     }, [user]);
 
+    // Sends anything logged offline, then reloads what it touched.
+    const syncOutbox = useCallback(async () => {
+        if (!user || !navigator.onLine) return;
+        try {
+            const { applied, conflicts } = await replayOutbox(user.id);
+            if (conflicts.length > 0) {
+                setSyncConflicts(prev => [...prev, ...conflicts]);
+            }
+            if (applied > 0 || conflicts.length > 0) {
+                await refreshActivity();
+            }
+        } catch (err: any) {
+            console.error("Error syncing offline changes:", err);
+        }
+    }, [user, refreshActivity]);
+
+    useEffect(() => {
+        fetchData().then(() => syncOutbox());
+    }, [fetchData, syncOutbox]);
+
+    // Changes made on other devices arrive through the cache like local ones.
+    // After a reconnect, reload what may have been missed in between.
+    useEffect(() => {
+        if (!user) return;
+        return subscribeToRealtimeSync(user.id, {
+            onStatusChange: setIsLive,
+            onResync: () => {
+                profilesRepo.invalidate(user.id);
+                refreshActivity();
+            },
+        });
+    }, [user, refreshActivity]);
+
     useEffect(() => {
-        fetchData();
-    }, [fetchData]);
+        const handleOnline = () => {
+            setIsOnline(true);
+            syncOutbox();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [syncOutbox]);
+
+    // Unlocks from the first load or other refreshes land on the badge wall quietly;
+    // only logging a solve announces them.
+    const handleSubmissionSaved = async () => {
+        const unlocked = await refreshActivity();
+        const unlockedAchievements = unlocked
+            .map(u => ACHIEVEMENTS_BY_ID.get(u.achievement_id))
+            .filter((a): a is Achievement => !!a);
+        if (unlockedAchievements.length > 0) {
+            setNewAchievements(unlockedAchievements);
+        }
+    };
+
+    const handleToastDismiss = useCallback(() => setNewAchievements([]), []);
+
+    const handleSignOut = async () => {
+        if (user) {
+            await clearSnapshot(user.id).catch((err: any) => console.error("Failed to clear offline copy:", err));
+        }
+        clearCache();
+        await signOut();
+        navigate(paths.home());
+    };
+
 
     const renderView = () => {
-        if (loading) {
+        // Only block the view on the first load; refreshes keep the current page (and its state) mounted.
+        if (loading && !profile) {
             return <div className="flex justify-center items-center h-full"><div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-teal-500"></div></div>;
         }
         if (error) {
             return <div className="bg-red-900 border border-red-600 text-red-100 px-4 py-3 rounded-md m-4" role="alert">{error}</div>;
         }
-        switch (activeView) {
+        switch (route.name) {
+            case 'home':
             case 'dashboard':
-                return <Dashboard profile={profile} submissions={submissions} />;
+                return (
+                    <Dashboard
+                        profile={profile}
+                        submissions={submissions}
+                        activityByDay={activityByDay}
+                        activitySince={olderActivity.since}
+                        reviewSubmissions={reviewSubmissions}
+                        tagsBySubmission={tagsBySubmission}
+                        reviewSchedules={reviewSchedules}
+                        reviewEvents={reviewEvents}
+                        goals={goals}
+                        timeZone={timeZone}
+                        onDataRefresh={handleReviewed}
+                    />
+                );
             case 'submissions':
-                return <SubmissionsPage submissions={submissions} onDataRefresh={fetchData} />;
+            case 'submission':
+                return (
+                    <SubmissionsPage
+                        submissions={submissions}
+                        activityByDay={activityByDay}
+                        timeZone={timeZone}
+                        backfillWindowDays={profile?.backfill_window_days ?? DEFAULT_BACKFILL_WINDOW_DAYS}
+                        tags={tags}
+                        tagsBySubmission={tagsBySubmission}
+                        reviewSchedules={reviewSchedules}
+                        openSubmissionId={route.name === 'submission' ? route.id : null}
+                        hasQueuedWrites={queuedEntries.length > 0}
+                        onDataRefresh={refreshActivity}
+                        onSubmissionSaved={handleSubmissionSaved}
+                    />
+                );
             case 'profile':
                 return (
                     <ProfilePage 
                         profile={profile} 
                         user={user}
-                        totalSubmissions={submissions.length}
-                        onDataRefresh={fetchData} 
-                        onSignOut={signOut} 
+                        activityByDay={activityByDay}
+                        goals={goals}
+                        achievements={achievements}
+                        onDataRefresh={refreshGoals}
+                        onSignOut={handleSignOut} 
                     />
                 );
+            case 'groups':
+            case 'group':
+                return <GroupsPage selectedGroupId={route.name === 'group' ? route.id : null} timeZone={timeZone} />;
+            case 'publicProfile':
+                return <PublicProfilePage username={route.username} />;
             default:
-                return null;
+                return <NotFoundPage />;
         }
     };
 
@@ -206,31 +432,38 @@ const Layout: React.FC = () => {
             <aside className="w-20 bg-gray-800/50 border-r border-gray-700 p-2 flex flex-col items-center space-y-4">
                  <h1 className="text-xl font-bold text-teal-400 mt-2">DSA</h1>
                  <div className="flex flex-col space-y-2 mt-8">
-                    <button onClick={() => setActiveView('dashboard')} className="p-2 rounded-lg group transition-colors">
-                        <NavIcon isActive={activeView === 'dashboard'}>
+                    <Link to={paths.dashboard()} aria-label="Dashboard" className="p-2 rounded-lg group transition-colors">
+                        <NavIcon isActive={route.name === 'home' || route.name === 'dashboard'}>
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg>
                         </NavIcon>
-                    </button>
+                    </Link>
                     <div className="relative">
-                        <button onClick={() => setActiveView('submissions')} className="p-2 rounded-lg group transition-colors">
-                             <NavIcon isActive={activeView === 'submissions'}>
+                        <Link to={paths.submissions()} aria-label="Submissions" className="block p-2 rounded-lg group transition-colors">
+                             <NavIcon isActive={route.name === 'submissions' || route.name === 'submission'}>
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" /></svg>
                             </NavIcon>
-                        </button>
-                        {!loading && submissions.length > 0 && (
+                        </Link>
+                        {!loading && totalSolves > 0 && (
                             <span className="absolute top-1 right-1 flex items-center justify-center min-w-[1.25rem] h-5 px-1 text-xs font-bold text-white bg-teal-600 rounded-full border-2 border-gray-800">
-                                {submissions.length}
+                                {totalSolves}
                             </span>
                         )}
                     </div>
-                    <button onClick={() => setActiveView('profile')} className="p-2 rounded-lg group transition-colors">
-                        <NavIcon isActive={activeView === 'profile'}>
+                    <Link to={paths.groups()} aria-label="Groups" className="p-2 rounded-lg group transition-colors">
+                        <NavIcon isActive={route.name === 'groups' || route.name === 'group'}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" /></svg>
+                        </NavIcon>
+                    </Link>
+                    <Link to={paths.profile()} aria-label="Profile" className="p-2 rounded-lg group transition-colors">
+                        <NavIcon isActive={route.name === 'profile'}>
                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>
                         </NavIcon>
-                    </button>
+                    </Link>
+                    <FollowingFeed />
                  </div>
             </aside>
             <div className="flex-1 flex flex-col overflow-hidden">
+                <SyncStatus isOnline={isOnline} isLive={isLive} pendingCount={queuedEntries.length} conflicts={syncConflicts} onDismissConflicts={() => setSyncConflicts([])} />
                 <main className="flex-1 overflow-y-auto">
                     {renderView()}
                 </main>
@@ -238,6 +471,10 @@ const Layout: React.FC = () => {
                     Every problem solved is another star in your constellation of knowledge.
                 </footer>
             </div>
+            <ReminderScheduler profile={profile} activityByDay={activityByDay} reviewEvents={reviewEvents} timeZone={timeZone} />
+            {newAchievements.length > 0 && (
+                <AchievementToast achievements={newAchievements} durationMs={6000} onDismiss={handleToastDismiss} />
+            )}
         </div>
     );
 };
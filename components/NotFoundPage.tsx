@@ -0,0 +1,22 @@
+import React from 'react';
+import Link from './Link';
+import { paths } from '../services/routes';
+
+interface NotFoundPageProps {
+  message?: string;
+}
+
+const NotFoundPage: React.FC<NotFoundPageProps> = ({ message = "The page you're looking for doesn't exist." }) => {
+  return (
+    <div className="flex flex-col items-center justify-center h-full min-h-[60vh] p-8 text-center">
+      <p className="text-6xl font-extrabold text-teal-400">404</p>
+      <h1 className="text-2xl font-bold text-gray-100 mt-4">Lost among the stars</h1>
+      <p className="text-gray-400 mt-2">{message}</p>
+      <Link to={paths.home()} className="mt-6 text-sm font-medium text-white bg-teal-600 rounded-lg px-6 py-3 hover:bg-teal-700">
+        Back to safety
+      </Link>
+    </div>
+  );
+};
+
+export default NotFoundPage;
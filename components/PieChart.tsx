@@ -0,0 +1,48 @@
+import React from 'react';
+
+const PieChart = ({ data }: { data: { name: string; value: number; color: string }[] }) => {
+    const total = data.reduce((sum, item) => sum + item.value, 0);
+    if (total === 0) {
+        return <div className="flex items-center justify-center h-full text-gray-500">No submission data yet.</div>;
+    }
+    
+    let cumulative = 0;
+    const radius = 40;
+    const circumference = 2 * Math.PI * radius;
+
+    return (
+        <div className="flex items-center justify-center space-x-6">
+            <svg width="120" height="120" viewBox="0 0 100 100" className="-rotate-90">
+                {data.map((item, index) => {
+                    const dasharray = (item.value / total) * circumference;
+                    const dashoffset = (cumulative / total) * circumference;
+                    cumulative += item.value;
+                    return (
+                        <circle
+                            key={index}
+                            r={radius}
+                            cx="50"
+                            cy="50"
+                            fill="transparent"
+                            stroke={item.color}
+                            strokeWidth="20"
+                            strokeDasharray={`${dasharray} ${circumference}`}
+                            strokeDashoffset={-dashoffset}
+                        />
+                    );
+                })}
+            </svg>
+            <div className="text-sm space-y-2">
+                {data.map((item, index) => (
+                    <div key={index} className="flex items-center">
+                        <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: item.color }}></span>
+                        <span className="text-gray-300">{item.name}</span>
+                        <span className="ml-auto text-gray-400 font-mono">({item.value})</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PieChart;
@@ -1,14 +1,26 @@
-import React, { useState, useEffect, FormEvent } from 'react';
-import { supabase } from '../services/supabase';
+import React, { useState, useEffect, useMemo, FormEvent } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Profile } from '../types';
+import { Goal, Profile, UserAchievement } from '../types';
+import { profilesRepo } from '../services/profilesRepo';
 import { User } from '@supabase/supabase-js';
 import { format } from 'date-fns';
+import ExportCard from './ExportCard';
+import BadgeCard from './BadgeCard';
+import AchievementWall from './AchievementWall';
+import GoalsCard from './GoalsCard';
+import RemindersCard from './RemindersCard';
+import Link from './Link';
+import { DEFAULT_BACKFILL_WINDOW_DAYS, getBrowserTimeZone, resolveTimeZone, WEEKDAY_NAMES } from '../services/streaks';
+import { getPublicProfileUrl } from '../services/publicProfile';
+import { paths } from '../services/routes';
+import { DayActivity, sumActivity } from '../services/activity';
 
 interface ProfilePageProps {
     profile: Profile | null;
     user: User | null;
-    totalSubmissions: number;
+    activityByDay: Map<string, DayActivity>;
+    goals: Goal[];
+    achievements: UserAchievement[];
     onDataRefresh: () => void;
     onSignOut: () => void;
 }
@@ -27,8 +39,21 @@ const getInitials = (name?: string | null, email?: string | null): string => {
     return 'U';
 };
 
+const MAX_BACKFILL_WINDOW_DAYS = 30;
 
-const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissions, onDataRefresh, onSignOut }) => {
+const getTimeZoneOptions = (current: string): string[] => {
+    let zones: string[] = [];
+    try {
+        zones = Intl.supportedValuesOf('timeZone');
+    } catch {
+        zones = [];
+    }
+    return zones.includes(current) ? zones : [current, ...zones];
+};
+
+
+const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, activityByDay, goals, achievements, onDataRefresh, onSignOut }) => {
+    const totalSolves = useMemo(() => sumActivity(activityByDay).count, [activityByDay]);
     const [newUsername, setNewUsername] = useState('');
     const [isUpdating, setIsUpdating] = useState(false);
     const [updateMessage, setUpdateMessage] = useState('');
@@ -37,11 +62,40 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissio
     const [isGoalUpdating, setIsGoalUpdating] = useState(false);
     const [goalUpdateMessage, setGoalUpdateMessage] = useState('');
 
+    const [timeZone, setTimeZone] = useState<string>(getBrowserTimeZone());
+    const [isTimeZoneUpdating, setIsTimeZoneUpdating] = useState(false);
+    const [timeZoneUpdateMessage, setTimeZoneUpdateMessage] = useState('');
+
+    const [restDays, setRestDays] = useState<number[]>([]);
+    const [isRestDaysUpdating, setIsRestDaysUpdating] = useState(false);
+    const [restDaysUpdateMessage, setRestDaysUpdateMessage] = useState('');
+
+    const [backfillWindow, setBackfillWindow] = useState<number>(DEFAULT_BACKFILL_WINDOW_DAYS);
+    const [isBackfillUpdating, setIsBackfillUpdating] = useState(false);
+    const [backfillUpdateMessage, setBackfillUpdateMessage] = useState('');
+
+    const [reviewsCountTowardStreak, setReviewsCountTowardStreak] = useState(false);
+    const [isReviewSettingUpdating, setIsReviewSettingUpdating] = useState(false);
+    const [reviewSettingUpdateMessage, setReviewSettingUpdateMessage] = useState('');
+
+    const [visibility, setVisibility] = useState({ is_public: false, public_show_notes: false, public_show_links: false });
+    const [isVisibilityUpdating, setIsVisibilityUpdating] = useState(false);
+    const [visibilityUpdateMessage, setVisibilityUpdateMessage] = useState('');
+
 
     useEffect(() => {
         if (profile) {
             setNewUsername(profile.username || '');
             setStreakGoal(profile.streak_goal || 30);
+            setTimeZone(resolveTimeZone(profile.timezone));
+            setRestDays(profile.rest_days ?? []);
+            setBackfillWindow(profile.backfill_window_days ?? DEFAULT_BACKFILL_WINDOW_DAYS);
+            setReviewsCountTowardStreak(profile.reviews_count_toward_streak ?? false);
+            setVisibility({
+                is_public: profile.is_public ?? false,
+                public_show_notes: profile.public_show_notes ?? false,
+                public_show_links: profile.public_show_links ?? false,
+            });
         }
     }, [profile]);
 
@@ -55,15 +109,8 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissio
         setUpdateMessage('');
 
         try {
-            const { error: updateError } = await supabase
-                .from('profiles')
-                .update({ username: newUsername.trim() })
-                .eq('id', user.id);
-
-            if (updateError) throw updateError;
-
+            await profilesRepo.update(user.id, { username: newUsername.trim() });
             setUpdateMessage('Username updated successfully!');
-            onDataRefresh();
         } catch (err: any) {
             console.error("Error updating username:", err);
             setUpdateMessage(`Error: ${err.message}`);
@@ -83,15 +130,8 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissio
         setGoalUpdateMessage('');
 
         try {
-            const { error: updateError } = await supabase
-                .from('profiles')
-                .update({ streak_goal: streakGoal })
-                .eq('id', user.id);
-
-            if (updateError) throw updateError;
-
+            await profilesRepo.update(user.id, { streak_goal: streakGoal });
             setGoalUpdateMessage('Streak goal updated!');
-            onDataRefresh();
         } catch (err: any) {
             console.error("Error updating streak goal:", err);
             setGoalUpdateMessage(`Error: ${err.message}`);
@@ -101,6 +141,137 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissio
         }
     }
 
+    const handleTimeZoneUpdate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user || timeZone === profile?.timezone) {
+            return;
+        }
+
+        setIsTimeZoneUpdating(true);
+        setTimeZoneUpdateMessage('');
+
+        try {
+            await profilesRepo.update(user.id, { timezone: timeZone });
+            setTimeZoneUpdateMessage('Timezone updated! Streaks will be recalculated.');
+        } catch (err: any) {
+            console.error("Error updating timezone:", err);
+            setTimeZoneUpdateMessage(`Error: ${err.message}`);
+        } finally {
+            setIsTimeZoneUpdating(false);
+            setTimeout(() => setTimeZoneUpdateMessage(''), 3000);
+        }
+    };
+
+    const toggleRestDay = (weekday: number) => {
+        setRestDays(prev => prev.includes(weekday)
+            ? prev.filter(d => d !== weekday)
+            : [...prev, weekday].sort((a, b) => a - b));
+    };
+
+    const savedRestDays = [...(profile?.rest_days ?? [])].sort((a, b) => a - b);
+    const restDaysChanged = restDays.join(',') !== savedRestDays.join(',');
+
+    const handleRestDaysUpdate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user || !restDaysChanged) {
+            return;
+        }
+
+        setIsRestDaysUpdating(true);
+        setRestDaysUpdateMessage('');
+
+        try {
+            await profilesRepo.update(user.id, { rest_days: restDays });
+            setRestDaysUpdateMessage('Rest days updated!');
+        } catch (err: any) {
+            console.error("Error updating rest days:", err);
+            setRestDaysUpdateMessage(`Error: ${err.message}`);
+        } finally {
+            setIsRestDaysUpdating(false);
+            setTimeout(() => setRestDaysUpdateMessage(''), 3000);
+        }
+    };
+
+    const handleBackfillUpdate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user || backfillWindow < 0 || backfillWindow > MAX_BACKFILL_WINDOW_DAYS || backfillWindow === profile?.backfill_window_days) {
+            return;
+        }
+
+        setIsBackfillUpdating(true);
+        setBackfillUpdateMessage('');
+
+        try {
+            await profilesRepo.update(user.id, { backfill_window_days: backfillWindow });
+            setBackfillUpdateMessage('Backfill window updated!');
+        } catch (err: any) {
+            console.error("Error updating backfill window:", err);
+            setBackfillUpdateMessage(`Error: ${err.message}`);
+        } finally {
+            setIsBackfillUpdating(false);
+            setTimeout(() => setBackfillUpdateMessage(''), 3000);
+        }
+    };
+
+    const handleReviewSettingUpdate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user || reviewsCountTowardStreak === (profile?.reviews_count_toward_streak ?? false)) {
+            return;
+        }
+
+        setIsReviewSettingUpdating(true);
+        setReviewSettingUpdateMessage('');
+
+        try {
+            await profilesRepo.update(user.id, { reviews_count_toward_streak: reviewsCountTowardStreak });
+            setReviewSettingUpdateMessage('Review setting updated! Streaks will be recalculated.');
+        } catch (err: any) {
+            console.error("Error updating review setting:", err);
+            setReviewSettingUpdateMessage(`Error: ${err.message}`);
+        } finally {
+            setIsReviewSettingUpdating(false);
+            setTimeout(() => setReviewSettingUpdateMessage(''), 3000);
+        }
+    };
+
+    const visibilityChanged = (Object.keys(visibility) as (keyof typeof visibility)[])
+        .some(key => visibility[key] !== (profile?.[key] ?? false));
+
+    const handleVisibilityUpdate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user || !visibilityChanged) {
+            return;
+        }
+
+        setIsVisibilityUpdating(true);
+        setVisibilityUpdateMessage('');
+
+        try {
+            await profilesRepo.update(user.id, visibility);
+            setVisibilityUpdateMessage(visibility.is_public ? 'Your profile is now public!' : 'Public profile settings updated!');
+        } catch (err: any) {
+            console.error("Error updating profile visibility:", err);
+            setVisibilityUpdateMessage(`Error: ${err.message}`);
+        } finally {
+            setIsVisibilityUpdating(false);
+            setTimeout(() => setVisibilityUpdateMessage(''), 3000);
+        }
+    };
+
+    const handleCopyPublicUrl = async () => {
+        if (!profile?.username) return;
+        try {
+            await navigator.clipboard.writeText(getPublicProfileUrl(profile.username));
+            setVisibilityUpdateMessage('Link copied!');
+        } catch (err: any) {
+            console.error("Error copying link:", err);
+            setVisibilityUpdateMessage(`Error: ${err.message}`);
+        }
+        setTimeout(() => setVisibilityUpdateMessage(''), 3000);
+    };
+
+    const timeZoneOptions = getTimeZoneOptions(timeZone);
+
     const cardStyles = "bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700";
     
     const currentStreak = profile?.current_streak ?? 0;
@@ -143,7 +314,7 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissio
                             </div>
                              <div className="flex justify-between items-center">
                                 <span className="text-gray-400">Total Submissions</span>
-                                <span className="font-bold text-white text-lg">{totalSubmissions}</span>
+                                <span className="font-bold text-white text-lg">{totalSolves}</span>
                             </div>
                          </div>
                     </div>
@@ -213,7 +384,164 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile, user, totalSubmissio
                             {goalUpdateMessage && <p className={`text-sm mt-2 ${goalUpdateMessage.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{goalUpdateMessage}</p>}
                         </form>
                     </div>
+
+                    {user && <GoalsCard userId={user.id} goals={goals} className={cardStyles} onDataRefresh={onDataRefresh} />}
+
+                    {user && <RemindersCard userId={user.id} profile={profile} className={cardStyles} />}
                     
+                    <div className={cardStyles}>
+                        <h3 className="text-lg font-bold mb-1 text-gray-200">Rest Days</h3>
+                        <p className="text-sm text-gray-400 mb-4">Scheduled rest days never break your streak. Other missed days use a streak freeze if you have one.</p>
+                        <form onSubmit={handleRestDaysUpdate}>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {WEEKDAY_NAMES.map((name, weekday) => (
+                                    <button
+                                        key={name}
+                                        type="button"
+                                        onClick={() => toggleRestDay(weekday)}
+                                        className={`px-3 py-1.5 text-sm font-medium rounded-md border transition-colors ${restDays.includes(weekday) ? 'bg-teal-600/30 border-teal-500 text-teal-200' : 'bg-gray-900/70 border-gray-600 text-gray-400 hover:text-gray-200'}`}
+                                    >
+                                        {name}
+                                    </button>
+                                ))}
+                                <button
+                                    type="submit"
+                                    disabled={isRestDaysUpdating || !restDaysChanged}
+                                    className="w-full sm:w-auto sm:ml-auto px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                                >
+                                    {isRestDaysUpdating ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                            {restDaysUpdateMessage && <p className={`text-sm mt-2 ${restDaysUpdateMessage.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{restDaysUpdateMessage}</p>}
+                        </form>
+                    </div>
+
+                    <div className={cardStyles}>
+                        <h3 className="text-lg font-bold mb-1 text-gray-200">Backfill Window</h3>
+                        <p className="text-sm text-gray-400 mb-4">How many days back you can log a forgotten solve. Backdated entries are marked in your history.</p>
+                        <form onSubmit={handleBackfillUpdate}>
+                            <label htmlFor="backfill_window" className="block text-sm font-medium text-gray-400 mb-1">Days</label>
+                            <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+                                <input
+                                    id="backfill_window"
+                                    type="number"
+                                    min="0"
+                                    max={MAX_BACKFILL_WINDOW_DAYS}
+                                    value={backfillWindow}
+                                    onChange={(e) => setBackfillWindow(Number(e.target.value))}
+                                    className="w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={isBackfillUpdating || backfillWindow === (profile?.backfill_window_days ?? DEFAULT_BACKFILL_WINDOW_DAYS) || backfillWindow < 0 || backfillWindow > MAX_BACKFILL_WINDOW_DAYS}
+                                    className="w-full sm:w-auto px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                                >
+                                    {isBackfillUpdating ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                            {backfillUpdateMessage && <p className={`text-sm mt-2 ${backfillUpdateMessage.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{backfillUpdateMessage}</p>}
+                        </form>
+                    </div>
+
+                    <div className={cardStyles}>
+                        <h3 className="text-lg font-bold mb-1 text-gray-200">Public Profile</h3>
+                        <p className="text-sm text-gray-400 mb-4">Share your heatmap, streaks, difficulty breakdown and recent solves at a public link. Notes and links stay hidden unless you choose to show them.</p>
+                        <form onSubmit={handleVisibilityUpdate}>
+                            <div className="flex flex-col sm:flex-row items-start sm:items-end gap-3">
+                                <div className="w-full space-y-2">
+                                    {([
+                                        ['is_public', 'Make my profile public'],
+                                        ['public_show_links', 'Show problem links'],
+                                        ['public_show_notes', 'Show my notes'],
+                                    ] as const).map(([key, label]) => (
+                                        <label key={key} className={`flex items-center gap-2 text-sm ${key !== 'is_public' && !visibility.is_public ? 'text-gray-500' : 'text-gray-300'}`}>
+                                            <input
+                                                type="checkbox"
+                                                checked={visibility[key]}
+                                                disabled={key !== 'is_public' && !visibility.is_public}
+                                                onChange={(e) => setVisibility(prev => ({ ...prev, [key]: e.target.checked }))}
+                                                className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500"
+                                            />
+                                            {label}
+                                        </label>
+                                    ))}
+                                </div>
+                                <button
+                                    type="submit"
+                                    disabled={isVisibilityUpdating || !visibilityChanged}
+                                    className="w-full sm:w-auto px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                                >
+                                    {isVisibilityUpdating ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                            {profile?.is_public && profile.username && (
+                                <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-4 text-sm">
+                                    <Link to={paths.publicProfile(profile.username)} className="text-teal-400 hover:text-teal-300 truncate">{getPublicProfileUrl(profile.username)}</Link>
+                                    <button type="button" onClick={handleCopyPublicUrl} className="sm:ml-auto text-gray-300 hover:text-white font-medium">Copy link</button>
+                                </div>
+                            )}
+                            {visibilityUpdateMessage && <p className={`text-sm mt-2 ${visibilityUpdateMessage.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{visibilityUpdateMessage}</p>}
+                        </form>
+                    </div>
+
+                    <div className={cardStyles}>
+                        <h3 className="text-lg font-bold mb-1 text-gray-200">Review Queue</h3>
+                        <p className="text-sm text-gray-400 mb-4">Revisiting a problem from your review queue can keep your streak alive on days you don't solve anything new.</p>
+                        <form onSubmit={handleReviewSettingUpdate}>
+                            <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+                                <label className="flex items-center gap-2 text-sm text-gray-300 w-full">
+                                    <input
+                                        type="checkbox"
+                                        checked={reviewsCountTowardStreak}
+                                        onChange={(e) => setReviewsCountTowardStreak(e.target.checked)}
+                                        className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500"
+                                    />
+                                    Count reviews toward my daily streak
+                                </label>
+                                <button
+                                    type="submit"
+                                    disabled={isReviewSettingUpdating || reviewsCountTowardStreak === (profile?.reviews_count_toward_streak ?? false)}
+                                    className="w-full sm:w-auto px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                                >
+                                    {isReviewSettingUpdating ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                            {reviewSettingUpdateMessage && <p className={`text-sm mt-2 ${reviewSettingUpdateMessage.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{reviewSettingUpdateMessage}</p>}
+                        </form>
+                    </div>
+
+                    <div className={cardStyles}>
+                        <h3 className="text-lg font-bold mb-1 text-gray-200">Timezone</h3>
+                        <p className="text-sm text-gray-400 mb-4">Your streak days roll over at midnight in this timezone.</p>
+                        <form onSubmit={handleTimeZoneUpdate}>
+                            <label htmlFor="timezone" className="block text-sm font-medium text-gray-400 mb-1">Timezone</label>
+                            <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+                                <select
+                                    id="timezone"
+                                    value={timeZone}
+                                    onChange={(e) => setTimeZone(e.target.value)}
+                                    className="w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+                                >
+                                    {timeZoneOptions.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                                </select>
+                                <button
+                                    type="submit"
+                                    disabled={isTimeZoneUpdating || timeZone === profile?.timezone}
+                                    className="w-full sm:w-auto px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                                >
+                                    {isTimeZoneUpdating ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                            {timeZoneUpdateMessage && <p className={`text-sm mt-2 ${timeZoneUpdateMessage.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{timeZoneUpdateMessage}</p>}
+                        </form>
+                    </div>
+
+                    <AchievementWall achievements={achievements} className={cardStyles} />
+
+                    <BadgeCard profile={profile} activityByDay={activityByDay} className={cardStyles} />
+
+                    {user && <ExportCard userId={user.id} profile={profile} className={cardStyles} />}
+
                     <div className={cardStyles}>
                          <h3 className="text-lg font-bold mb-4 text-gray-200">Account Actions</h3>
                          <button 
@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import CalendarHeatmap from './CalendarHeatmap';
+import PieChart from './PieChart';
+import NotFoundPage from './NotFoundPage';
+import Link from './Link';
+import { useAuth } from '../contexts/AuthContext';
+import { aggregateByDay, countByDifficulty, DIFFICULTY_COLORS } from '../services/activity';
+import { fetchPublicProfile, PUBLIC_RECENT_LIMIT, PublicProfileData } from '../services/publicProfile';
+import { paths } from '../services/routes';
+import { getDayKey, resolveTimeZone } from '../services/streaks';
+
+interface PublicProfilePageProps {
+    username: string;
+}
+
+const cardStyles = "bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700";
+
+const PublicProfilePage: React.FC<PublicProfilePageProps> = ({ username }) => {
+    const { session } = useAuth();
+    const [data, setData] = useState<PublicProfileData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        fetchPublicProfile(username)
+            .then(result => {
+                if (!cancelled) setData(result);
+            })
+            .catch((err: any) => {
+                console.error("Error loading public profile:", err);
+                if (!cancelled) setError(err.message);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [username]);
+
+    const timeZone = resolveTimeZone(data?.profile.timezone);
+    const activityByDay = useMemo(() => aggregateByDay(data?.submissions ?? [], timeZone), [data, timeZone]);
+
+    const difficultyCounts = useMemo(() => {
+        const counts = countByDifficulty(data?.submissions ?? []);
+        return (['Easy', 'Medium', 'Hard'] as const).map(name => ({ name, value: counts[name], color: DIFFICULTY_COLORS[name] }));
+    }, [data]);
+
+    if (loading) {
+        return <div className="flex justify-center items-center h-full min-h-screen w-full"><div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-teal-500"></div></div>;
+    }
+    if (error) {
+        return <div className="bg-red-900 border border-red-600 text-red-100 px-4 py-3 rounded-md m-4" role="alert">{error}</div>;
+    }
+    if (!data) {
+        return <NotFoundPage message="This profile is private or doesn't exist." />;
+    }
+
+    const { profile, submissions } = data;
+    const recent = submissions.slice(0, PUBLIC_RECENT_LIMIT);
+
+    return (
+        <div className="max-w-5xl mx-auto p-4 sm:p-6 lg:p-8 font-sans w-full">
+            <header className="mb-8 flex flex-col sm:flex-row justify-between sm:items-end gap-4">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-100">{profile.username}</h1>
+                    <p className="text-gray-400 mt-1">{submissions.length} problems solved</p>
+                </div>
+                {!session && (
+                    <Link to={paths.home()} className="text-sm font-medium text-white bg-teal-600 rounded-lg px-4 py-2 hover:bg-teal-700 self-start sm:self-auto">
+                        Start your own streak
+                    </Link>
+                )}
+            </header>
+
+            <div className="grid grid-cols-2 gap-6 mb-8">
+                <div className={cardStyles}>
+                    <p className="text-gray-400 text-sm">Current Streak</p>
+                    <p className="text-4xl font-bold text-white">{profile.current_streak} days</p>
+                </div>
+                <div className={cardStyles}>
+                    <p className="text-gray-400 text-sm">Longest Streak</p>
+                    <p className="text-4xl font-bold text-white">{profile.longest_streak} days</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 mb-8">
+                <div className={`lg:col-span-3 ${cardStyles}`}>
+                    <h2 className="text-xl font-bold mb-4">Contribution Heatmap</h2>
+                    <CalendarHeatmap activityByDay={activityByDay} timeZone={timeZone} restDays={profile.rest_days} />
+                </div>
+                <div className={`lg:col-span-2 ${cardStyles}`}>
+                    <h2 className="text-xl font-bold mb-4">Difficulty Breakdown</h2>
+                    <PieChart data={difficultyCounts} />
+                </div>
+            </div>
+
+            <div className={cardStyles}>
+                <h2 className="text-xl font-bold mb-4">Recent Solves</h2>
+                {recent.length === 0 ? (
+                    <p className="text-center text-gray-400 py-4">No solves yet.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {recent.map(submission => (
+                            <li key={submission.id} className="py-3">
+                                <div className="flex justify-between items-center gap-4">
+                                    {submission.link
+                                        ? <a href={submission.link} target="_blank" rel="noopener noreferrer" className="font-medium text-teal-300 hover:text-teal-200 truncate">{submission.problem_name}</a>
+                                        : <span className="font-medium text-gray-200 truncate">{submission.problem_name}</span>}
+                                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                                        {submission.difficulty}{submission.platform ? ` · ${submission.platform}` : ''} · {format(parseISO(getDayKey(submission.date, timeZone)), 'MMM d, yyyy')}
+                                    </span>
+                                </div>
+                                {submission.description && <p className="text-sm text-gray-400 mt-1 whitespace-pre-wrap">{submission.description}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PublicProfilePage;
@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Profile, ReviewTime } from '../types';
+import { DayActivity } from '../services/activity';
+import { getStreakActivityDates } from '../services/reviews';
+import { dayKeyToDayNumber, getDayKey, getTodayKey, getWeekday } from '../services/streaks';
+import { buildReminder, getUpcomingReminderDelays, hasActivePushSubscription, showSystemReminder } from '../services/reminders';
+import { paths } from '../services/routes';
+import Link from './Link';
+
+interface ReminderSchedulerProps {
+  profile: Profile | null;
+  activityByDay: Map<string, DayActivity>;
+  reviewEvents: ReviewTime[];
+  timeZone: string;
+}
+
+/**
+ * In-app fallback for streak reminders: while the app is open, fires at each
+ * reminder time that today is still unlogged. Raises a system notification
+ * when allowed and this browser isn't already subscribed to server pushes,
+ * and always shows a banner.
+ */
+const ReminderScheduler: React.FC<ReminderSchedulerProps> = ({ profile, activityByDay, reviewEvents, timeZone }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const [todayKey, setTodayKey] = useState(() => getTodayKey(timeZone));
+
+  const needsReminder = useMemo(() => {
+    if (!profile || profile.reminder_times.length === 0) return false;
+    if (profile.rest_days.includes(getWeekday(dayKeyToDayNumber(todayKey)))) return false;
+    return !getStreakActivityDates(profile, activityByDay, reviewEvents, timeZone).some(date => getDayKey(date, timeZone) === todayKey);
+  }, [profile, activityByDay, reviewEvents, timeZone, todayKey]);
+
+  useEffect(() => {
+    if (!needsReminder) {
+      setMessage(null);
+    }
+  }, [needsReminder]);
+
+  // Re-evaluate after midnight so a tab left open schedules the next day's reminders.
+  useEffect(() => {
+    const timer = setInterval(() => setTodayKey(getTodayKey(timeZone)), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [timeZone]);
+
+  useEffect(() => {
+    if (!profile || !needsReminder) return;
+    const reminder = buildReminder(profile.current_streak);
+    const timers = getUpcomingReminderDelays(profile, timeZone).map(delay => setTimeout(async () => {
+      setMessage(reminder.body);
+      try {
+        if (!(await hasActivePushSubscription())) {
+          await showSystemReminder(reminder);
+        }
+      } catch (err: any) {
+        console.error("Error showing reminder:", err);
+      }
+    }, delay));
+    return () => timers.forEach(clearTimeout);
+  }, [profile, needsReminder, timeZone, todayKey]);
+
+  if (!message) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800 border border-amber-500/50 rounded-lg shadow-2xl px-5 py-3 text-sm" role="alert">
+      <span className="text-gray-200">{message}</span>
+      <Link to={paths.submissions()} onClick={() => setMessage(null)} className="font-bold text-teal-400 hover:text-teal-300 whitespace-nowrap">Log now</Link>
+      <button onClick={() => setMessage(null)} aria-label="Dismiss" className="text-gray-500 hover:text-white text-lg leading-none">&times;</button>
+    </div>
+  );
+};
+
+export default ReminderScheduler;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState, FormEvent } from 'react';
+import { profilesRepo } from '../services/profilesRepo';
+import { Profile } from '../types';
+import {
+    buildReminder,
+    DEFAULT_REMINDER_TIME,
+    disablePush,
+    enablePush,
+    getPushStatus,
+    PushStatus,
+    simulatePush,
+} from '../services/reminders';
+
+interface RemindersCardProps {
+    userId: string;
+    profile: Profile | null;
+    className: string;
+}
+
+const MAX_REMINDER_TIMES = 4;
+
+const inputStyles = "bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500 [color-scheme:dark]";
+
+const PUSH_STATUS_TEXT: Record<PushStatus, string> = {
+    unsupported: "This browser doesn't support push notifications. Reminders show while the app is open.",
+    unconfigured: 'Push is not set up for this deployment. Reminders show while the app is open.',
+    denied: 'Notifications are blocked for this site. Allow them in your browser settings to get push reminders.',
+    off: 'Push is off on this device. Reminders show only while the app is open.',
+    on: 'Push is on. This device gets reminders even when the app is closed.',
+};
+
+const RemindersCard: React.FC<RemindersCardProps> = ({ userId, profile, className }) => {
+    const [reminderTimes, setReminderTimes] = useState<string[]>([]);
+    const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+    const [quietStart, setQuietStart] = useState('22:30');
+    const [quietEnd, setQuietEnd] = useState('07:00');
+    const [pushStatus, setPushStatus] = useState<PushStatus>('off');
+    const [isUpdating, setIsUpdating] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        if (profile) {
+            setReminderTimes(profile.reminder_times);
+            setQuietHoursEnabled(!!profile.quiet_hours_start);
+            setQuietStart(profile.quiet_hours_start ?? '22:30');
+            setQuietEnd(profile.quiet_hours_end ?? '07:00');
+        }
+    }, [profile]);
+
+    useEffect(() => {
+        getPushStatus().then(setPushStatus).catch((err: any) => console.error("Error checking push status:", err));
+    }, []);
+
+    const flash = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const handleSave = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsUpdating(true);
+        try {
+            await profilesRepo.update(userId, {
+                reminder_times: Array.from(new Set<string>(reminderTimes.filter(Boolean))).sort(),
+                quiet_hours_start: quietHoursEnabled ? quietStart : null,
+                quiet_hours_end: quietHoursEnabled ? quietEnd : null,
+            });
+            flash('Reminders saved!');
+        } catch (err: any) {
+            console.error("Error updating reminders:", err);
+            flash(`Error: ${err.message}`);
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleTogglePush = async () => {
+        setIsUpdating(true);
+        try {
+            if (pushStatus === 'on') {
+                await disablePush();
+            } else {
+                await enablePush(userId);
+            }
+            setPushStatus(await getPushStatus());
+        } catch (err: any) {
+            console.error("Error changing push subscription:", err);
+            flash(`Error: ${err.message}`);
+            setPushStatus(await getPushStatus());
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleTest = async () => {
+        try {
+            await simulatePush(buildReminder(profile?.current_streak ?? 0));
+        } catch (err: any) {
+            console.error("Error sending test notification:", err);
+            flash(`Error: ${err.message}`);
+        }
+    };
+
+    const isUnchanged = !!profile
+        && JSON.stringify(reminderTimes) === JSON.stringify(profile.reminder_times)
+        && (quietHoursEnabled ? quietStart : null) === profile.quiet_hours_start
+        && (quietHoursEnabled ? quietEnd : null) === profile.quiet_hours_end;
+
+    return (
+        <div className={className}>
+            <h3 className="text-lg font-bold mb-1 text-gray-200">Reminders</h3>
+            <p className="text-sm text-gray-400 mb-4">Get a nudge when today isn't logged yet. Times use your timezone.</p>
+            <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                    {reminderTimes.map((time, index) => (
+                        <div key={index} className="flex items-center gap-3">
+                            <input
+                                type="time"
+                                aria-label={`Reminder ${index + 1}`}
+                                value={time}
+                                onChange={(e) => setReminderTimes(prev => prev.map((t, i) => i === index ? e.target.value : t))}
+                                className={inputStyles}
+                            />
+                            <button type="button" onClick={() => setReminderTimes(prev => prev.filter((_, i) => i !== index))} className="text-sm text-gray-400 hover:text-red-400">Remove</button>
+                        </div>
+                    ))}
+                    {reminderTimes.length === 0 && <p className="text-sm text-gray-500">No reminders set.</p>}
+                    {reminderTimes.length < MAX_REMINDER_TIMES && (
+                        <button type="button" onClick={() => setReminderTimes(prev => [...prev, DEFAULT_REMINDER_TIME])} className="text-sm text-teal-400 hover:text-teal-300 font-medium">
+                            + Add reminder
+                        </button>
+                    )}
+                </div>
+
+                <div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={quietHoursEnabled} onChange={(e) => setQuietHoursEnabled(e.target.checked)} className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500" />
+                        Quiet hours
+                    </label>
+                    {quietHoursEnabled && (
+                        <div className="flex items-center gap-3 mt-2 text-sm text-gray-400">
+                            <input type="time" aria-label="Quiet hours start" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} className={inputStyles} />
+                            <span>to</span>
+                            <input type="time" aria-label="Quiet hours end" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} className={inputStyles} />
+                        </div>
+                    )}
+                </div>
+
+                <button
+                    type="submit"
+                    disabled={isUpdating || isUnchanged || (quietHoursEnabled && (!quietStart || !quietEnd))}
+                    className="px-6 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                >
+                    {isUpdating ? 'Saving...' : 'Save'}
+                </button>
+            </form>
+
+            <div className="mt-6 pt-4 border-t border-gray-700">
+                <p className="text-sm text-gray-400">{PUSH_STATUS_TEXT[pushStatus]}</p>
+                <div className="flex flex-wrap gap-3 mt-3">
+                    {(pushStatus === 'on' || pushStatus === 'off') && (
+                        <button onClick={handleTogglePush} disabled={isUpdating} className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                            {pushStatus === 'on' ? 'Turn Off Push' : 'Turn On Push'}
+                        </button>
+                    )}
+                    {pushStatus !== 'unsupported' && (
+                        <button onClick={handleTest} className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700/80 rounded-md hover:bg-gray-600">
+                            Send Test Notification
+                        </button>
+                    )}
+                </div>
+            </div>
+            {message && <p className={`text-sm mt-2 ${message.startsWith('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{message}</p>}
+        </div>
+    );
+};
+
+export default RemindersCard;
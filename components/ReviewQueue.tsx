@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { ReviewSchedule, Submission } from '../types';
+import { dayKeyToDayNumber, getTodayKey } from '../services/streaks';
+import { getDueReviews, recordReview, REVIEW_GRADES } from '../services/reviews';
+
+interface ReviewQueueProps {
+  schedules: ReviewSchedule[];
+  submissions: Submission[];
+  timeZone: string;
+  onReviewed: () => void;
+}
+
+const MAX_VISIBLE_REVIEWS = 10;
+
+const DIFFICULTY_CLASSES: Record<Submission['difficulty'], string> = {
+  Easy: 'text-green-300',
+  Medium: 'text-yellow-300',
+  Hard: 'text-red-300',
+};
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ schedules, submissions, timeZone, onReviewed }) => {
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const todayKey = getTodayKey(timeZone);
+  const submissionsById = useMemo(() => new Map(submissions.map(s => [s.id, s])), [submissions]);
+  const due = useMemo(
+    () => getDueReviews(schedules, todayKey).filter(schedule => submissionsById.has(schedule.submission_id)),
+    [schedules, todayKey, submissionsById]
+  );
+
+  const handleGrade = async (schedule: ReviewSchedule, quality: number) => {
+    setPendingId(schedule.submission_id);
+    setError(null);
+    try {
+      await recordReview(schedule, quality, timeZone);
+      onReviewed();
+    } catch (err: any) {
+      console.error("Error recording review:", err);
+      setError(`Error: ${err.message}`);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (due.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-4">
+        {schedules.length === 0
+          ? 'Tick "Add to review queue" when logging a problem to revisit it later.'
+          : 'Nothing due. Come back tomorrow!'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {due.slice(0, MAX_VISIBLE_REVIEWS).map(schedule => {
+        const submission = submissionsById.get(schedule.submission_id)!;
+        const overdueDays = dayKeyToDayNumber(todayKey) - dayKeyToDayNumber(schedule.due_on);
+        return (
+          <div key={schedule.submission_id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-gray-900/50 border border-gray-700 rounded-lg px-4 py-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                {submission.link
+                  ? <a href={submission.link} target="_blank" rel="noopener noreferrer" className="font-medium text-teal-300 hover:text-teal-200 truncate">{submission.problem_name}</a>
+                  : <span className="font-medium text-gray-200 truncate">{submission.problem_name}</span>}
+                <span className={`text-xs font-semibold ${DIFFICULTY_CLASSES[submission.difficulty]}`}>{submission.difficulty}</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {overdueDays > 0 ? `Overdue by ${overdueDays} day${overdueDays === 1 ? '' : 's'}` : 'Due today'}
+                {schedule.repetitions > 0 && ` · reviewed ${schedule.repetitions} time${schedule.repetitions === 1 ? '' : 's'} in a row`}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {REVIEW_GRADES.map(({ quality, label }) => (
+                <button
+                  key={quality}
+                  onClick={() => handleGrade(schedule, quality)}
+                  disabled={pendingId !== null}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${quality < 3 ? 'border-red-500/40 text-red-300 hover:bg-red-600/20' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      {due.length > MAX_VISIBLE_REVIEWS && <p className="text-xs text-gray-500">And {due.length - MAX_VISIBLE_REVIEWS} more.</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ReviewQueue;
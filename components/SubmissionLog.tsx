@@ -1,12 +1,42 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { format, parseISO } from 'date-fns';
+import { getDayKey } from '../services/streaks';
 import { Submission } from '../types';
+import { SortOrder, SubmissionSortKey } from '../services/submissionQueries';
 
 interface SubmissionLogProps {
   submissions: Submission[];
-  onEdit: (submission: Submission) => void;
+  timeZone: string;
+  tagsBySubmission?: Map<number, string[]>;
+  /** Times each submission's problem has been solved in total, by submission id (see countSolvesByProblem). */
+  solveCounts?: Map<number, number>;
+  onEdit?: (submission: Submission) => void;
+  onDelete?: (ids: number[]) => void;
+  sort?: { key: SubmissionSortKey; order: SortOrder };
+  onSortChange?: (key: SubmissionSortKey) => void;
+  emptyMessage?: string;
 }
 
+interface SortableHeaderProps {
+  label: string;
+  sortKey: SubmissionSortKey;
+  sort?: { key: SubmissionSortKey; order: SortOrder };
+  onSortChange?: (key: SubmissionSortKey) => void;
+}
+
+const SortableHeader: React.FC<SortableHeaderProps> = ({ label, sortKey, sort, onSortChange }) => {
+  if (!onSortChange) {
+    return <>{label}</>;
+  }
+  const isActive = sort?.key === sortKey;
+  return (
+    <button onClick={() => onSortChange(sortKey)} className={`inline-flex items-center gap-1 hover:text-white ${isActive ? 'text-teal-300' : ''}`}>
+      {label}
+      <span className="text-xs">{isActive ? (sort?.order === 'asc' ? '▲' : '▼') : ''}</span>
+    </button>
+  );
+};
+
 const DifficultyBadge: React.FC<{ difficulty: 'Easy' | 'Medium' | 'Hard' }> = ({ difficulty }) => {
   const colorClasses = {
     Easy: 'bg-green-600/20 text-green-300 border-green-500/30',
@@ -21,32 +51,114 @@ const DifficultyBadge: React.FC<{ difficulty: 'Easy' | 'Medium' | 'Hard' }> = ({
 };
 
 
-const SubmissionLog: React.FC<SubmissionLogProps> = ({ submissions, onEdit }) => {
+const SubmissionLog: React.FC<SubmissionLogProps> = ({ submissions, timeZone, tagsBySubmission, solveCounts, onEdit, onDelete, sort, onSortChange, emptyMessage }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  // Drop selections for rows that are no longer in the list (e.g. after a delete).
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(submissions.map(s => s.id));
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [submissions]);
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = submissions.length > 0 && selectedIds.size === submissions.length;
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(submissions.map(s => s.id)));
+  };
+
+  const hasActions = !!(onEdit || onDelete);
+
   if (submissions.length === 0) {
-    return <p className="text-center text-gray-400 py-8">You haven't logged any submissions yet. Add one to get started!</p>;
+    return <p className="text-center text-gray-400 py-8">{emptyMessage ?? "You haven't logged any submissions yet. Add one to get started!"}</p>;
   }
 
   return (
     <div className="overflow-x-auto">
+      {onDelete && selectedIds.size > 0 && (
+        <div className="flex items-center justify-between mb-3 px-4 py-2 rounded-md bg-gray-800/80 border border-gray-700 text-sm">
+          <span className="text-gray-300">{selectedIds.size} selected</span>
+          <button onClick={() => onDelete([...selectedIds])} className="text-red-400 hover:text-red-300 font-medium">Delete selected</button>
+        </div>
+      )}
       <table className="min-w-full divide-y divide-gray-700">
         <thead className="bg-gray-800/60">
           <tr>
-            <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-300 sm:pl-6">Date</th>
-            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Problem</th>
+            {onDelete && (
+              <th scope="col" className="py-3.5 pl-4 pr-1 w-8">
+                <input type="checkbox" aria-label="Select all" checked={allSelected} onChange={toggleAll} className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500" />
+              </th>
+            )}
+            <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-300 sm:pl-6">
+              <SortableHeader label="Date" sortKey="date" sort={sort} onSortChange={onSortChange} />
+            </th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">
+              <SortableHeader label="Problem" sortKey="problem_name" sort={sort} onSortChange={onSortChange} />
+            </th>
             <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Difficulty</th>
-            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300 hidden md:table-cell">Platform</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300 hidden md:table-cell">
+              <SortableHeader label="Platform" sortKey="platform" sort={sort} onSortChange={onSortChange} />
+            </th>
             <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300 hidden lg:table-cell">Link</th>
-            <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
+            {hasActions && <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>}
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-800 bg-gray-900/50">
           {submissions.map((submission) => (
-            <tr key={submission.id}>
+            <tr key={submission.id} className={selectedIds.has(submission.id) ? 'bg-teal-900/10' : undefined}>
+              {onDelete && (
+                <td className="py-4 pl-4 pr-1 w-8">
+                  <input type="checkbox" aria-label={`Select ${submission.problem_name}`} checked={selectedIds.has(submission.id)} onChange={() => toggleSelected(submission.id)} className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500" />
+                </td>
+              )}
               <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-400 sm:pl-6">
-                {format(parseISO(submission.created_at), 'MMM d, yyyy')}
+                {format(parseISO(getDayKey(submission.date, timeZone)), 'MMM d, yyyy')}
+                {submission.is_backdated && (
+                  <span
+                    className="ml-2 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-amber-600/20 text-amber-300 border border-amber-500/30"
+                    title={`Logged on ${format(parseISO(submission.created_at), 'MMM d, yyyy')}`}
+                  >
+                    Backdated
+                  </span>
+                )}
+                {submission.id < 0 && (
+                  <span
+                    className="ml-2 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-sky-600/20 text-sky-300 border border-sky-500/30"
+                    title="Saved on this device; syncs when you're back online"
+                  >
+                    Pending sync
+                  </span>
+                )}
               </td>
               <td className="px-3 py-4 text-sm text-gray-200">
-                <div className="whitespace-pre-wrap font-medium">{submission.problem_name}</div>
+                <div className="whitespace-pre-wrap font-medium">
+                  {submission.problem_name}
+                  {(solveCounts?.get(submission.id) ?? 0) > 1 && (
+                    <span className="ml-2 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-teal-600/20 text-teal-300 border border-teal-500/30 whitespace-nowrap">
+                      Solved {solveCounts!.get(submission.id)} times
+                    </span>
+                  )}
+                </div>
+                {(tagsBySubmission?.get(submission.id)?.length ?? 0) > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {tagsBySubmission!.get(submission.id)!.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-indigo-600/20 text-indigo-200 border border-indigo-500/30">{tag}</span>
+                    ))}
+                  </div>
+                )}
                 {submission.description && (
                   <div className="text-gray-400 mt-1 text-xs whitespace-pre-wrap hidden sm:block">
                      {submission.description.substring(0, 100)}{submission.description.length > 100 && '...'}
@@ -66,9 +178,12 @@ const SubmissionLog: React.FC<SubmissionLogProps> = ({ submissions, onEdit }) =>
                   '-'
                 )}
               </td>
-              <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-3">
-                <button onClick={() => onEdit(submission)} className="text-indigo-400 hover:text-indigo-300">Edit</button>
-              </td>
+              {hasActions && (
+                <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-3">
+                  {onEdit && <button onClick={() => onEdit(submission)} className="text-indigo-400 hover:text-indigo-300">Edit</button>}
+                  {onDelete && <button onClick={() => onDelete([submission.id])} className="text-red-400 hover:text-red-300">Delete</button>}
+                </td>
+              )}
             </tr>
           ))}
         </tbody>
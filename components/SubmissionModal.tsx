@@ -1,7 +1,10 @@
-import React, { useState, FormEvent, useEffect } from 'react';
-import { supabase } from '../services/supabase';
+import React, { useState, FormEvent, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { Database, Submission } from '../types';
+import { addDaysToKey, dayKeyToInstant, getDayKey, getTodayKey } from '../services/streaks';
+import { isNetworkError, queueSubmissionWrite, SubmissionWrite, writeSubmission } from '../services/outbox';
+import { fetchProblem, parseProblemUrl, problemNameFromSlug, ProblemReference } from '../services/problems';
+import TagInput from './TagInput';
 
 type SubmissionInsert = Database['public']['Tables']['submissions']['Insert'];
 type SubmissionUpdate = Database['public']['Tables']['submissions']['Update'];
@@ -11,6 +14,11 @@ interface SubmissionModalProps {
   onClose: () => void;
   onSuccess: () => void;
   submissionToEdit?: Submission | null;
+  timeZone: string;
+  backfillWindowDays: number;
+  tagSuggestions: string[];
+  initialTags?: string[];
+  isInReviewQueue?: boolean;
 }
 
 const INITIAL_FORM_STATE: Partial<SubmissionInsert> = {
@@ -21,16 +29,29 @@ const INITIAL_FORM_STATE: Partial<SubmissionInsert> = {
     description: '',
 };
 
-const SubmissionModal: React.FC<SubmissionModalProps> = ({ isOpen, onClose, onSuccess, submissionToEdit }) => {
+const SubmissionModal: React.FC<SubmissionModalProps> = ({ isOpen, onClose, onSuccess, submissionToEdit, timeZone, backfillWindowDays, tagSuggestions, initialTags = [], isInReviewQueue = false }) => {
   const { user } = useAuth();
   const [formData, setFormData] = useState<Partial<SubmissionInsert | SubmissionUpdate>>(INITIAL_FORM_STATE);
+  const [solveDay, setSolveDay] = useState<string>(getTodayKey(timeZone));
+  const [tags, setTags] = useState<string[]>([]);
+  const [timeSpent, setTimeSpent] = useState('');
+  const [reviewQueued, setReviewQueued] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [errorDetails, setErrorDetails] = useState<React.ReactNode | null>(null);
-
+  const [recognizedProblem, setRecognizedProblem] = useState<ProblemReference | null>(null);
+  // Values last filled in from a recognized link. A field still holding one
+  // is replaced when the link changes; anything typed by hand is kept.
+  const autoFilledRef = useRef<Partial<Record<'problem_name' | 'platform' | 'difficulty', string>>>({});
+  const lookupIdRef = useRef(0);
 
   const isEditMode = !!submissionToEdit;
 
+  const todayKey = getTodayKey(timeZone);
+  const originalDay = submissionToEdit ? getDayKey(submissionToEdit.date, timeZone) : null;
+  // An entry that was already logged further back keeps its date editable without widening the window for others.
+  const windowStart = addDaysToKey(todayKey, -Math.max(0, backfillWindowDays));
+  const minDay = originalDay && originalDay < windowStart ? originalDay : windowStart;
+
   useEffect(() => {
     if (isOpen) {
         if (isEditMode) {
@@ -41,80 +62,147 @@ const SubmissionModal: React.FC<SubmissionModalProps> = ({ isOpen, onClose, onSu
                 platform: submissionToEdit.platform,
                 description: submissionToEdit.description,
             });
+            setSolveDay(getDayKey(submissionToEdit.date, timeZone));
+            setTags(initialTags);
+            setTimeSpent(submissionToEdit.time_spent_minutes?.toString() ?? '');
+            setReviewQueued(isInReviewQueue);
+            setRecognizedProblem(submissionToEdit.link ? parseProblemUrl(submissionToEdit.link) : null);
+            autoFilledRef.current = {};
         } else {
             setFormData(INITIAL_FORM_STATE);
+            setSolveDay(getTodayKey(timeZone));
+            setTags([]);
+            setTimeSpent('');
+            setReviewQueued(false);
+            setRecognizedProblem(null);
+            autoFilledRef.current = { difficulty: INITIAL_FORM_STATE.difficulty };
         }
+        lookupIdRef.current++;
         setError(null); // Reset error on open
-        setErrorDetails(null);
     }
-  }, [isOpen, isEditMode, submissionToEdit]);
+  }, [isOpen, isEditMode, submissionToEdit, timeZone]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const fillFromProblem = (details: { problem_name: string; platform: string; difficulty?: string }) => {
+    setFormData(prev => {
+      const fill = (field: 'problem_name' | 'platform' | 'difficulty', value: string | undefined) => {
+        const current = prev[field];
+        if (!value || (current && current !== autoFilledRef.current[field])) return current;
+        autoFilledRef.current[field] = value;
+        return value;
+      };
+      return {
+        ...prev,
+        problem_name: fill('problem_name', details.problem_name),
+        platform: fill('platform', details.platform),
+        difficulty: fill('difficulty', details.difficulty) as 'Easy' | 'Medium' | 'Hard',
+      };
+    });
+  };
+
+  // Recognized links fill in the platform and a name straight away, then the
+  // catalog's name and, once verified, its difficulty.
+  const handleLinkChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const link = e.target.value;
+    setFormData(prev => ({ ...prev, link }));
+    const reference = parseProblemUrl(link);
+    setRecognizedProblem(reference);
+    const lookupId = ++lookupIdRef.current;
+    if (!reference) return;
+    fillFromProblem({ problem_name: problemNameFromSlug(reference), platform: reference.platform });
+    if (!navigator.onLine) return;
+    fetchProblem(reference)
+      .then(problem => {
+        if (problem && lookupId === lookupIdRef.current) {
+          fillFromProblem({ problem_name: problem.name, platform: problem.platform, difficulty: problem.difficulty });
+        }
+      })
+      .catch((err: any) => console.error("Failed to look up problem:", err.message));
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!user || !formData.problem_name || !formData.difficulty) {
       setError('Problem Name and Difficulty are required.');
       return;
     }
+    if (!solveDay || solveDay > todayKey || solveDay < minDay) {
+      setError(`Solve date must be between ${minDay} and ${todayKey}.`);
+      return;
+    }
+    const timeSpentMinutes = timeSpent.trim() ? Number(timeSpent) : null;
+    if (timeSpentMinutes !== null && !(Number.isInteger(timeSpentMinutes) && timeSpentMinutes >= 1 && timeSpentMinutes <= 1440)) {
+      setError('Time spent must be a whole number of minutes between 1 and 1440.');
+      return;
+    }
     setLoading(true);
     setError(null);
-    setErrorDetails(null);
 
-    try {
-      if (isEditMode) {
-        // Update existing submission
-        const submissionUpdateData: SubmissionUpdate = {
-            problem_name: formData.problem_name,
+    let write: SubmissionWrite;
+    if (isEditMode) {
+      const changes: SubmissionUpdate = {
+          problem_name: formData.problem_name,
+          difficulty: formData.difficulty as 'Easy' | 'Medium' | 'Hard',
+          link: formData.link || null,
+          platform: formData.platform || null,
+          description: formData.description || null,
+          time_spent_minutes: timeSpentMinutes,
+      };
+      if (solveDay !== originalDay) {
+          changes.date = dayKeyToInstant(solveDay, timeZone).toISOString();
+          changes.is_backdated = solveDay < getDayKey(submissionToEdit.created_at, timeZone);
+      }
+      write = {
+          kind: 'update',
+          base: submissionToEdit,
+          changes,
+          tags,
+          review: reviewQueued === isInReviewQueue ? null : reviewQueued ? 'schedule' : 'remove',
+          solveDay,
+      };
+    } else {
+      // Solves logged for an earlier day are flagged for auditing.
+      const isBackdated = solveDay !== todayKey;
+      write = {
+          kind: 'insert',
+          submission: {
+            user_id: user.id,
+            client_id: crypto.randomUUID(),
+            date: isBackdated ? dayKeyToInstant(solveDay, timeZone).toISOString() : new Date().toISOString(),
+            is_backdated: isBackdated,
+            problem_name: formData.problem_name!,
             difficulty: formData.difficulty as 'Easy' | 'Medium' | 'Hard',
             link: formData.link || null,
             platform: formData.platform || null,
             description: formData.description || null,
-        };
-        const { error: updateError } = await supabase
-            .from('submissions')
-            .update(submissionUpdateData)
-            .eq('id', submissionToEdit.id);
-        if (updateError) throw updateError;
+            time_spent_minutes: timeSpentMinutes,
+          },
+          tags,
+          reviewQueued,
+          solveDay,
+      };
+    }
 
+    try {
+      // Offline, or editing something that hasn't synced yet: keep it locally until the connection is back.
+      if (!navigator.onLine || (isEditMode && submissionToEdit.id < 0)) {
+        await queueSubmissionWrite(user.id, write);
       } else {
-        // Create new submission.
-        const submissionInsertData: SubmissionInsert = {
-          user_id: user.id,
-          date: new Date().toISOString(),
-          problem_name: formData.problem_name!,
-          difficulty: formData.difficulty as 'Easy' | 'Medium' | 'Hard',
-          link: formData.link || null,
-          platform: formData.platform || null,
-          description: formData.description || null,
-        };
-
-        const { error: insertError } = await supabase.from('submissions').insert([submissionInsertData]);
-        
-        if (insertError) {
-            throw insertError;
+        try {
+          await writeSubmission(user.id, write);
+        } catch (err: any) {
+          if (!isNetworkError(err)) throw err;
+          await queueSubmissionWrite(user.id, write);
         }
       }
       onSuccess();
     } catch (err: any) {
       console.error("Submission failed:", err);
-      if (err.code === '23505') { // Unique constraint violation
-        setError("Multiple Submissions Blocked by Database Rule");
-        setErrorDetails(
-            <div className="mt-2 text-left bg-gray-900/50 p-4 rounded-md border border-red-500/30">
-                <p className="text-gray-300 text-sm">Your Supabase table has a unique constraint that prevents more than one submission per day.</p>
-                <p className="text-gray-300 text-sm mt-2 font-medium">To fix this permanently, please run this SQL command in your Supabase SQL Editor:</p>
-                <pre className="bg-gray-950 text-emerald-300 p-2 rounded-md mt-2 text-xs overflow-x-auto">
-                    <code>ALTER TABLE public.submissions DROP CONSTRAINT submissions_user_id_date_key;</code>
-                </pre>
-            </div>
-        );
-      } else {
-        setError(`An error occurred: ${err.message}`);
-      }
+      setError(`An error occurred: ${err.message}`);
     } finally {
       setLoading(false);
     }
@@ -132,6 +220,17 @@ const SubmissionModal: React.FC<SubmissionModalProps> = ({ isOpen, onClose, onSu
             <label htmlFor="problem_name" className="block text-sm font-medium text-gray-300">Problem Name</label>
             <input type="text" name="problem_name" id="problem_name" required value={formData.problem_name || ''} onChange={handleChange} className="mt-1 block w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"/>
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="solve_date" className="block text-sm font-medium text-gray-300">Solve Date</label>
+              <input type="date" name="solve_date" id="solve_date" required min={minDay} max={todayKey} value={solveDay} onChange={(e) => setSolveDay(e.target.value)} className="mt-1 block w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500 [color-scheme:dark]"/>
+            </div>
+            <div>
+              <label htmlFor="time_spent" className="block text-sm font-medium text-gray-300">Time Spent (minutes)</label>
+              <input type="number" name="time_spent" id="time_spent" min="1" max="1440" step="1" placeholder="Optional" value={timeSpent} onChange={(e) => setTimeSpent(e.target.value)} className="mt-1 block w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"/>
+            </div>
+          </div>
+          {!isEditMode && solveDay !== todayKey && <p className="-mt-2 text-xs text-amber-300">This entry will be marked as backdated.</p>}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
                 <label htmlFor="difficulty" className="block text-sm font-medium text-gray-300">Difficulty</label>
@@ -148,15 +247,24 @@ const SubmissionModal: React.FC<SubmissionModalProps> = ({ isOpen, onClose, onSu
           </div>
           <div>
             <label htmlFor="link" className="block text-sm font-medium text-gray-300">Link</label>
-            <input type="url" name="link" id="link" placeholder="https://..." value={formData.link || ''} onChange={handleChange} className="mt-1 block w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"/>
+            <input type="url" name="link" id="link" placeholder="https://..." value={formData.link || ''} onChange={handleLinkChange} className="mt-1 block w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"/>
+            {recognizedProblem && <p className="mt-1 text-xs text-teal-300">Recognized {recognizedProblem.platform} problem {recognizedProblem.slug}.</p>}
+          </div>
+          <div>
+            <label htmlFor="tags" className="block text-sm font-medium text-gray-300">Topics</label>
+            <TagInput id="tags" value={tags} suggestions={tagSuggestions} onChange={setTags} />
           </div>
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-gray-300">Notes / Description</label>
             <textarea name="description" id="description" rows={3} value={formData.description || ''} onChange={handleChange} className="mt-1 block w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"></textarea>
           </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={reviewQueued} onChange={(e) => setReviewQueued(e.target.checked)} className="rounded border-gray-600 bg-gray-900 text-teal-500 focus:ring-teal-500" />
+            Add to review queue
+            <span className="text-xs text-gray-500">(spaced repetition, first review the next day)</span>
+          </label>
           
           {error && <div className="text-red-400 text-sm text-center font-semibold">{error}</div>}
-          {errorDetails}
           
           <div className="flex justify-end pt-4 space-x-3">
             <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700/80 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 focus:ring-offset-gray-800">Cancel</button>
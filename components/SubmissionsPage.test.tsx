@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import React, { useEffect, useMemo, useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { Submission } from '../types';
+import { RouterProvider } from '../contexts/RouterContext';
+import { DataBackend, setDataBackend } from '../services/backend';
+import { clearCache, subscribeToCache } from '../services/cache';
+import { createMemoryBackend } from '../services/memoryBackend';
+import { submissionsRepo } from '../services/submissionsRepo';
+import { aggregateByDay } from '../services/activity';
+import SubmissionsPage from './SubmissionsPage';
+
+const USER_ID = 'user-1';
+
+vi.mock('../services/supabase', () => ({ supabase: {} }));
+// Mocks are hoisted above USER_ID, hence the literal. Like the real hook,
+// this hands out the same user every render.
+vi.mock('../contexts/AuthContext', () => {
+    const auth = { user: { id: 'user-1' } };
+    return { useAuth: () => auth };
+});
+
+const submission = (overrides: Partial<Submission> & Pick<Submission, 'id' | 'date' | 'problem_name'>): Submission => ({
+    user_id: USER_ID,
+    created_at: overrides.date,
+    difficulty: 'Medium',
+    link: null,
+    platform: 'LeetCode',
+    description: null,
+    is_backdated: false,
+    counts_toward_streak: true,
+    time_spent_minutes: null,
+    client_id: null,
+    problem_id: null,
+    ...overrides,
+});
+
+/**
+ * Feeds the page from the cache the way Layout does, so changes made through
+ * the repository show up without a refetch.
+ */
+const Harness: React.FC<{ onDataRefresh?: () => void }> = ({ onDataRefresh = () => {} }) => {
+    const [cacheVersion, setCacheVersion] = useState(0);
+    useEffect(() => subscribeToCache(() => setCacheVersion(v => v + 1)), []);
+    const submissions = useMemo(() => submissionsRepo.getCachedList(USER_ID) ?? [], [cacheVersion]);
+    const activityByDay = useMemo(() => aggregateByDay(submissions, 'UTC'), [submissions]);
+    return (
+        <SubmissionsPage
+            submissions={submissions}
+            activityByDay={activityByDay}
+            timeZone="UTC"
+            backfillWindowDays={3}
+            tags={[]}
+            tagsBySubmission={new Map()}
+            reviewSchedules={[]}
+            openSubmissionId={null}
+            hasQueuedWrites={false}
+            onDataRefresh={onDataRefresh}
+            onSubmissionSaved={() => {}}
+        />
+    );
+};
+
+const renderPage = (onDataRefresh?: () => void) => render(
+    <RouterProvider>
+        <Harness onDataRefresh={onDataRefresh} />
+    </RouterProvider>
+);
+
+const rowNames = () => screen.queryAllByRole('row').slice(1).map(row => within(row).queryByText(/Sum|Anagram|Parentheses/)?.textContent);
+
+describe('SubmissionsPage', () => {
+    let backend: DataBackend;
+
+    beforeEach(async () => {
+        window.history.replaceState(null, '', '/submissions');
+        vi.stubGlobal('IntersectionObserver', class {
+            observe() {}
+            disconnect() {}
+        });
+        clearCache();
+        backend = createMemoryBackend({
+            submissions: [
+                submission({ id: 1, date: '2026-10-01T12:00:00Z', problem_name: 'Two Sum', difficulty: 'Easy' }),
+                submission({ id: 2, date: '2026-10-03T12:00:00Z', problem_name: 'Valid Anagram', difficulty: 'Easy' }),
+                submission({ id: 3, date: '2026-10-05T12:00:00Z', problem_name: 'Valid Parentheses', difficulty: 'Hard', platform: 'Codeforces' }),
+            ],
+        });
+        setDataBackend(backend);
+        await submissionsRepo.list(USER_ID, { refresh: true, since: '2026-09-01T00:00:00Z' });
+    });
+
+    afterEach(() => {
+        cleanup();
+        vi.unstubAllGlobals();
+    });
+
+    it('lists the history newest first and filters it', async () => {
+        renderPage();
+
+        await waitFor(() => expect(rowNames()).toEqual(['Valid Parentheses', 'Valid Anagram', 'Two Sum']));
+        expect(screen.getByText('Showing 3 of 3')).toBeTruthy();
+
+        fireEvent.change(screen.getByLabelText('Difficulty'), { target: { value: 'Easy' } });
+        await waitFor(() => expect(rowNames()).toEqual(['Valid Anagram', 'Two Sum']));
+
+        fireEvent.change(screen.getByLabelText('Platform'), { target: { value: 'Codeforces' } });
+        await waitFor(() => expect(screen.getByText('No submissions match these filters.')).toBeTruthy());
+    });
+
+    it('loads the first page once when nothing changes', async () => {
+        const page = vi.spyOn(backend.submissions, 'page');
+        renderPage();
+
+        await waitFor(() => expect(rowNames()).toHaveLength(3));
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(page).toHaveBeenCalledTimes(1);
+    });
+
+    it('hides a deleted submission at once and brings it back on undo', async () => {
+        const onDataRefresh = vi.fn();
+        renderPage(onDataRefresh);
+        await waitFor(() => expect(rowNames()).toHaveLength(3));
+
+        const row = screen.getByText('Valid Anagram').closest('tr')!;
+        fireEvent.click(within(row).getByText('Delete'));
+
+        await waitFor(() => expect(rowNames()).toEqual(['Valid Parentheses', 'Two Sum']));
+        expect(await backend.submissions.getById(2)).toBeNull();
+        expect(onDataRefresh).toHaveBeenCalled();
+
+        fireEvent.click(screen.getByText('Undo'));
+
+        await waitFor(() => expect(rowNames()).toEqual(['Valid Parentheses', 'Valid Anagram', 'Two Sum']));
+        expect(await backend.submissions.getById(2)).toMatchObject({ problem_name: 'Valid Anagram' });
+    });
+
+    it('keeps a submission listed when the server refuses to delete it', async () => {
+        setDataBackend({
+            ...backend,
+            submissions: {
+                ...backend.submissions,
+                remove: async () => {
+                    throw { code: '42501', message: 'permission denied' };
+                },
+            },
+        });
+        renderPage();
+        await waitFor(() => expect(rowNames()).toHaveLength(3));
+
+        fireEvent.click(within(screen.getByText('Two Sum').closest('tr')!).getByText('Delete'));
+
+        expect(await screen.findByText('Failed to delete: permission denied')).toBeTruthy();
+        expect(rowNames()).toEqual(['Valid Parentheses', 'Valid Anagram', 'Two Sum']);
+    });
+});
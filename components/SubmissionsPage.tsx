@@ -1,49 +1,307 @@
-import React, { useState, useMemo } from 'react';
-import { Submission } from '../types';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { ReviewSchedule, Submission, Tag } from '../types';
 import SubmissionModal from './SubmissionModal';
 import SubmissionLog from './SubmissionLog';
-import { format, parseISO } from 'date-fns';
+import UndoToast from './UndoToast';
+import ImportWizard from './ImportWizard';
+import { getTodayKey } from '../services/streaks';
+import {
+    DEFAULT_FILTERS,
+    filtersFromSearchParams,
+    filtersToSearchParams,
+    queryLocalSubmissions,
+    SubmissionFilters,
+    SubmissionPage,
+    SubmissionSortKey,
+} from '../services/submissionQueries';
+import { getTagSuggestions, saveSubmissionTags } from '../services/tags';
+import { restoreReviewSchedules } from '../services/reviews';
+import { discardQueuedSubmissions, isNetworkError, isQueuedSubmissionId } from '../services/outbox';
+import { paths } from '../services/routes';
+import { submissionsRepo } from '../services/submissionsRepo';
+import { fetchSolveCounts } from '../services/problems';
+import { DayActivity } from '../services/activity';
+
+const UNDO_TIMEOUT_MS = 6000;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const inputStyles = "bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-sm text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500";
 
 interface SubmissionsPageProps {
+    /** The submissions loaded in full, i.e. the last few weeks'. */
     submissions: Submission[];
+    activityByDay: Map<string, DayActivity>;
+    timeZone: string;
+    backfillWindowDays: number;
+    tags: Tag[];
+    tagsBySubmission: Map<number, string[]>;
+    reviewSchedules: ReviewSchedule[];
+    /** Submission whose edit modal is open, taken from the `/submissions/:id` route. */
+    openSubmissionId: number | null;
+    /** Offline changes are waiting to sync, so the server's copy is out of date. */
+    hasQueuedWrites: boolean;
     onDataRefresh: () => void;
+    /** Called after the submission modal saves, instead of `onDataRefresh`. */
+    onSubmissionSaved: () => void;
 }
 
-const SubmissionsPage: React.FC<SubmissionsPageProps> = ({ submissions, onDataRefresh }) => {
-    const [isModalOpen, setIsModalOpen] = useState(false);
-    const [submissionToEdit, setSubmissionToEdit] = useState<Submission | null>(null);
+const SubmissionsPage: React.FC<SubmissionsPageProps> = ({ submissions, activityByDay, timeZone, backfillWindowDays, tags, tagsBySubmission, reviewSchedules, openSubmissionId, hasQueuedWrites, onDataRefresh, onSubmissionSaved }) => {
+    const [isNewModalOpen, setIsNewModalOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [error, setError] = useState<React.ReactNode | null>(null);
+    const [deletedSubmissions, setDeletedSubmissions] = useState<Submission[] | null>(null);
+    // Keys the undo toast, so every delete gets a fresh one with its own timer.
+    const [deletionId, setDeletionId] = useState(0);
+    // Tag links and review schedules are removed along with their submission, so remember them in case of an undo.
+    const [deletedTags, setDeletedTags] = useState<Map<number, string[]>>(new Map());
+    const [deletedSchedules, setDeletedSchedules] = useState<ReviewSchedule[]>([]);
+
+    const { user } = useAuth();
+    const { pathname, search, navigate } = useRouter();
+    const [filters, setFilters] = useState<SubmissionFilters>(() => filtersFromSearchParams(new URLSearchParams(search)));
+    const [searchInput, setSearchInput] = useState(filters.search);
+    const [rows, setRows] = useState<Submission[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [isLoadingPage, setIsLoadingPage] = useState(false);
+    const requestIdRef = useRef(0);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    const [solveCounts, setSolveCounts] = useState<Map<number, number>>(new Map());
+
+    const platforms = useMemo(
+        // Exact values, since the filter matches platforms exactly.
+        () => Array.from(new Set<string>([...activityByDay.values()].flatMap(day => day.platforms))).sort((a, b) => a.localeCompare(b)),
+        [activityByDay]
+    );
+
+    const loadPage = useCallback(async (pageToLoad: number) => {
+        if (!user) return;
+        const requestId = ++requestIdRef.current;
+        setIsLoadingPage(true);
+        try {
+            let result: SubmissionPage;
+            if (!navigator.onLine || hasQueuedWrites) {
+                result = queryLocalSubmissions(submissions, filters, pageToLoad, timeZone);
+            } else {
+                try {
+                    result = await submissionsRepo.page(user.id, filters, pageToLoad, timeZone);
+                } catch (err: any) {
+                    if (!isNetworkError(err)) throw err;
+                    result = queryLocalSubmissions(submissions, filters, pageToLoad, timeZone);
+                }
+            }
+            // A newer request (e.g. the filters changed again) supersedes this one.
+            if (requestId !== requestIdRef.current) return;
+            setRows(prev => pageToLoad === 0 ? result.rows : [...prev, ...result.rows]);
+            setTotal(result.total);
+            setPage(pageToLoad);
+        } catch (err: any) {
+            if (requestId !== requestIdRef.current) return;
+            console.error("Error loading submissions:", err);
+            setError(`Failed to load submissions: ${err.message}`);
+        } finally {
+            if (requestId === requestIdRef.current) {
+                setIsLoadingPage(false);
+            }
+        }
+    }, [user, filters, timeZone, submissions, hasQueuedWrites]);
+
+    // Start over whenever the filters change or the parent refreshes its data (after an add, edit or delete).
+    useEffect(() => {
+        loadPage(0);
+    }, [loadPage, submissions]);
+
+    useEffect(() => {
+        const query = filtersToSearchParams(filters).toString();
+        navigate(`${pathname}${query ? `?${query}` : ''}`, { replace: true });
+    }, [filters]);
+
+    // Back/forward can land on a different query string while this page stays mounted.
+    useEffect(() => {
+        const fromUrl = filtersFromSearchParams(new URLSearchParams(search));
+        const query = filtersToSearchParams(fromUrl).toString();
+        setFilters(prev => filtersToSearchParams(prev).toString() === query ? prev : fromUrl);
+        setSearchInput(prev => prev === fromUrl.search ? prev : fromUrl.search);
+    }, [search]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setFilters(prev => prev.search === searchInput ? prev : { ...prev, search: searchInput });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    // Shown rows can be older than the loaded ones, so the database counts their solves.
+    useEffect(() => {
+        if (!user || rows.length === 0) return;
+        let cancelled = false;
+        fetchSolveCounts(user.id, rows, submissions)
+            .then(counts => {
+                if (!cancelled) setSolveCounts(counts);
+            })
+            .catch((err: any) => console.error("Error counting solves:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [user, rows, submissions]);
+
+    const hasMore = rows.length < total;
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || isLoadingPage) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting) {
+                loadPage(page + 1);
+            }
+        });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, isLoadingPage, loadPage, page]);
+
+    const updateFilter = <K extends keyof SubmissionFilters>(key: K, value: SubmissionFilters[K]) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleSortChange = (key: SubmissionSortKey) => {
+        setFilters(prev => ({
+            ...prev,
+            sort: key,
+            order: prev.sort === key && prev.order === 'desc' ? 'asc' : 'desc',
+        }));
+    };
+
+    const handleClearFilters = () => {
+        setSearchInput('');
+        setFilters(DEFAULT_FILTERS);
+    };
+
+    const hasActiveFilters = !!(filters.search || filters.difficulty || filters.platform || filters.from || filters.to);
+
+    const tagSuggestions = useMemo(() => getTagSuggestions(tags), [tags]);
+
+    const scheduledIds = useMemo(() => new Set(reviewSchedules.map(schedule => schedule.submission_id)), [reviewSchedules]);
+
+    const hasLoggedToday = useMemo(() => activityByDay.has(getTodayKey(timeZone)), [activityByDay, timeZone]);
 
-    const hasLoggedToday = useMemo(() => {
-        const todayUTC = format(new Date(), 'yyyy-MM-dd');
-        return submissions.some(s => format(parseISO(s.created_at), 'yyyy-MM-dd') === todayUTC);
-    }, [submissions]);
+    // Rows outside the loaded window are looked up in the cache (pages put
+    // theirs there), then fetched.
+    const submissionToEdit = useMemo(
+        () => openSubmissionId === null ? null : submissions.find(s => s.id === openSubmissionId) ?? submissionsRepo.getCached(openSubmissionId) ?? null,
+        [submissions, rows, openSubmissionId]
+    );
+
+    useEffect(() => {
+        if (openSubmissionId === null || submissionToEdit) return;
+        let cancelled = false;
+        submissionsRepo.get(openSubmissionId)
+            .then(row => {
+                if (!cancelled && !row) setError(`Submission #${openSubmissionId} was not found.`);
+            })
+            .catch((err: any) => {
+                if (!cancelled) setError(`Failed to load submission #${openSubmissionId}: ${err.message}`);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [openSubmissionId, submissionToEdit]);
 
     const handleOpenEditModal = (submission: Submission) => {
-        setSubmissionToEdit(submission);
-        setIsModalOpen(true);
+        navigate(`${paths.submission(submission.id)}${search}`);
     };
 
     const handleOpenNewModal = () => {
-        setSubmissionToEdit(null);
-        setIsModalOpen(true);
+        setIsNewModalOpen(true);
     };
 
     const handleCloseModal = () => {
-        setIsModalOpen(false);
-        setSubmissionToEdit(null);
+        setIsNewModalOpen(false);
+        if (openSubmissionId !== null) {
+            navigate(`${paths.submissions()}${search}`);
+        }
     };
 
+    const handleDelete = async (ids: number[]) => {
+        setError(null);
+        const queuedIds = ids.filter(isQueuedSubmissionId);
+        const syncedIds = ids.filter(id => !isQueuedSubmissionId(id));
+        if (syncedIds.length > 0 && !navigator.onLine) {
+            setError("You're offline. Submissions that have already synced can be deleted once you reconnect.");
+            return;
+        }
+        if (queuedIds.length > 0) {
+            try {
+                await discardQueuedSubmissions(queuedIds);
+            } catch (err: any) {
+                console.error("Error discarding queued submissions:", err);
+                setError(`Failed to delete: ${err.message}`);
+                return;
+            }
+            if (syncedIds.length === 0) {
+                onDataRefresh();
+                return;
+            }
+        }
+        let deleted: Submission[];
+        try {
+            deleted = await submissionsRepo.remove(syncedIds);
+        } catch (err: any) {
+            console.error("Error deleting submissions:", err);
+            setError(`Failed to delete: ${err.message}`);
+            return;
+        }
+        setDeletedTags(new Map(syncedIds.filter(id => tagsBySubmission.has(id)).map(id => [id, tagsBySubmission.get(id)!])));
+        setDeletedSchedules(reviewSchedules.filter(schedule => syncedIds.includes(schedule.submission_id)));
+        setDeletedSubmissions(deleted);
+        setDeletionId(id => id + 1);
+        // Refreshing picks up the recalculated streak so the profile never keeps credit for deleted days.
+        onDataRefresh();
+    };
+
+    const handleUndoDelete = async () => {
+        if (!deletedSubmissions) return;
+        const rows = deletedSubmissions;
+        setDeletedSubmissions(null);
+
+        try {
+            await submissionsRepo.restore(rows);
+            if (user) {
+                await Promise.all([...deletedTags.entries()].map(([id, names]) => saveSubmissionTags(user.id, id, names)));
+            }
+            await restoreReviewSchedules(deletedSchedules);
+        } catch (err: any) {
+            console.error("Error restoring submissions:", err);
+            setError(`Failed to restore: ${err.message}`);
+        }
+        onDataRefresh();
+    };
+
+    const handleUndoExpire = useCallback(() => setDeletedSubmissions(null), []);
+
     return (
         <>
             <SubmissionModal
-                isOpen={isModalOpen}
+                isOpen={isNewModalOpen || submissionToEdit !== null}
                 onClose={handleCloseModal}
                 onSuccess={() => {
                     handleCloseModal();
-                    onDataRefresh();
+                    onSubmissionSaved();
                 }}
-                submissionToEdit={submissionToEdit}
+                submissionToEdit={isNewModalOpen ? null : submissionToEdit}
+                timeZone={timeZone}
+                backfillWindowDays={backfillWindowDays}
+                tagSuggestions={tagSuggestions}
+                initialTags={submissionToEdit ? tagsBySubmission.get(submissionToEdit.id) : undefined}
+                isInReviewQueue={submissionToEdit ? scheduledIds.has(submissionToEdit.id) : false}
+            />
+            <ImportWizard
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+                onImported={onDataRefresh}
+                timeZone={timeZone}
             />
             <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 font-sans">
                 <header className="flex flex-col sm:flex-row justify-between sm:items-center mb-8 gap-4">
@@ -51,20 +309,93 @@ const SubmissionsPage: React.FC<SubmissionsPageProps> = ({ submissions, onDataRe
                         <h1 className="text-2xl sm:text-3xl font-bold text-gray-100">Submission History</h1>
                         <p className="text-gray-400 mt-1">Review and manage your logged problems.</p>
                     </div>
-                    <button
-                        onClick={handleOpenNewModal}
-                        className="text-lg font-bold bg-teal-600 text-white rounded-lg px-6 py-3 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 focus:ring-offset-gray-800"
-                    >
-                        {hasLoggedToday ? 'Log Another Submission' : 'Log New Submission'}
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => setIsImportOpen(true)}
+                            className="text-sm font-medium text-gray-300 bg-gray-700/80 rounded-lg px-4 py-3 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 focus:ring-offset-gray-800"
+                        >
+                            Import
+                        </button>
+                        <button
+                            onClick={handleOpenNewModal}
+                            className="text-lg font-bold bg-teal-600 text-white rounded-lg px-6 py-3 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 focus:ring-offset-gray-800"
+                        >
+                            {hasLoggedToday ? 'Log Another Submission' : 'Log New Submission'}
+                        </button>
+                    </div>
                 </header>
 
                 {error && <div className="bg-red-900 border border-red-600 text-red-100 px-4 py-3 rounded-md mb-6" role="alert">{error}</div>}
 
+                <div className="bg-gray-800/50 backdrop-blur-sm p-4 rounded-xl border border-gray-700 mb-6">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 items-end">
+                        <div className="lg:col-span-2">
+                            <label htmlFor="search" className="block text-xs font-medium text-gray-400 mb-1">Search</label>
+                            <input id="search" type="search" placeholder="Problem name or notes" value={searchInput} onChange={(e) => setSearchInput(e.target.value)} className={`w-full ${inputStyles}`} />
+                        </div>
+                        <div>
+                            <label htmlFor="filter_difficulty" className="block text-xs font-medium text-gray-400 mb-1">Difficulty</label>
+                            <select id="filter_difficulty" value={filters.difficulty} onChange={(e) => updateFilter('difficulty', e.target.value as SubmissionFilters['difficulty'])} className={`w-full ${inputStyles}`}>
+                                <option value="">All</option>
+                                <option>Easy</option>
+                                <option>Medium</option>
+                                <option>Hard</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="filter_platform" className="block text-xs font-medium text-gray-400 mb-1">Platform</label>
+                            <select id="filter_platform" value={filters.platform} onChange={(e) => updateFilter('platform', e.target.value)} className={`w-full ${inputStyles}`}>
+                                <option value="">All</option>
+                                {platforms.map(platform => <option key={platform} value={platform}>{platform}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="filter_from" className="block text-xs font-medium text-gray-400 mb-1">From</label>
+                            <input id="filter_from" type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => updateFilter('from', e.target.value)} className={`w-full ${inputStyles} [color-scheme:dark]`} />
+                        </div>
+                        <div>
+                            <label htmlFor="filter_to" className="block text-xs font-medium text-gray-400 mb-1">To</label>
+                            <input id="filter_to" type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateFilter('to', e.target.value)} className={`w-full ${inputStyles} [color-scheme:dark]`} />
+                        </div>
+                    </div>
+                    <div className="flex justify-between items-center mt-3 text-xs text-gray-400">
+                        <span>Showing {rows.length} of {total}</span>
+                        {hasActiveFilters && <button onClick={handleClearFilters} className="text-teal-400 hover:text-teal-300">Clear filters</button>}
+                    </div>
+                </div>
+
                 <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-xl border border-gray-700">
-                    <SubmissionLog submissions={submissions} onEdit={handleOpenEditModal} />
+                    <SubmissionLog
+                        submissions={rows}
+                        timeZone={timeZone}
+                        tagsBySubmission={tagsBySubmission}
+                        solveCounts={solveCounts}
+                        onEdit={handleOpenEditModal}
+                        onDelete={handleDelete}
+                        sort={{ key: filters.sort, order: filters.order }}
+                        onSortChange={handleSortChange}
+                        emptyMessage={hasActiveFilters ? 'No submissions match these filters.' : undefined}
+                    />
+                    <div ref={sentinelRef} className="h-1" />
+                    {isLoadingPage && (
+                        <div className="flex justify-center py-4"><div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-teal-500"></div></div>
+                    )}
+                    {hasMore && !isLoadingPage && (
+                        <div className="flex justify-center pt-4">
+                            <button onClick={() => loadPage(page + 1)} className="text-sm font-medium text-teal-400 hover:text-teal-300">Load more</button>
+                        </div>
+                    )}
                 </div>
             </div>
+            {deletedSubmissions && deletedSubmissions.length > 0 && (
+                <UndoToast
+                    key={deletionId}
+                    message={deletedSubmissions.length === 1 ? 'Submission deleted.' : `${deletedSubmissions.length} submissions deleted.`}
+                    durationMs={UNDO_TIMEOUT_MS}
+                    onUndo={handleUndoDelete}
+                    onExpire={handleUndoExpire}
+                />
+            )}
         </>
     );
 };
@@ -0,0 +1,48 @@
+import React from 'react';
+
+interface SyncStatusProps {
+  isOnline: boolean;
+  /** The realtime connection that brings in changes from other devices is up. */
+  isLive: boolean;
+  pendingCount: number;
+  conflicts: string[];
+  onDismissConflicts: () => void;
+}
+
+const plural = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+
+/**
+ * Bar above the page while offline, while queued changes are waiting to
+ * sync, while live updates are reconnecting, or after a sync had to drop or
+ * override something.
+ */
+const SyncStatus: React.FC<SyncStatusProps> = ({ isOnline, isLive, pendingCount, conflicts, onDismissConflicts }) => {
+  if (isOnline && isLive && pendingCount === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="border-b border-gray-700 bg-gray-800/80 px-4 py-2 text-sm" role="status">
+      {!isOnline && (
+        <p className="text-amber-300">
+          You're offline. New solves are saved on this device and sync when you reconnect.
+          {pendingCount > 0 && <span className="text-gray-400"> {plural(pendingCount)} waiting.</span>}
+        </p>
+      )}
+      {isOnline && !isLive && (
+        <p className="text-gray-400">Reconnecting live updates. Changes from your other devices will appear once it's back.</p>
+      )}
+      {isOnline && pendingCount > 0 && (
+        <p className="text-sky-300">Syncing {plural(pendingCount)} made offline...</p>
+      )}
+      {conflicts.length > 0 && (
+        <div className="flex justify-between items-start gap-4 mt-1 first:mt-0">
+          <ul className="text-gray-300 space-y-1">
+            {conflicts.map((conflict, index) => <li key={index}>{conflict}</li>)}
+          </ul>
+          <button onClick={onDismissConflicts} className="text-gray-400 hover:text-white text-xs font-medium whitespace-nowrap">Dismiss</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,86 @@
+import React, { useState, useMemo } from 'react';
+import { normalizeTagName } from '../services/tags';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const TagInput: React.FC<TagInputProps> = ({ id, value, suggestions, onChange }) => {
+  const [input, setInput] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const selectedKeys = useMemo(() => new Set(value.map(tag => tag.toLowerCase())), [value]);
+
+  const matches = useMemo(() => {
+    const query = input.trim().toLowerCase();
+    return suggestions
+      .filter(tag => !selectedKeys.has(tag.toLowerCase()) && (!query || tag.toLowerCase().includes(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [input, suggestions, selectedKeys]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTagName(raw);
+    if (tag && !selectedKeys.has(tag.toLowerCase())) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (input.trim()) {
+        addTag(input);
+      }
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="mt-1 flex flex-wrap items-center gap-1.5 w-full bg-gray-900/70 border border-gray-600 rounded-md shadow-sm py-1.5 px-2 focus-within:ring-1 focus-within:ring-teal-500 focus-within:border-teal-500">
+        {value.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-indigo-600/20 text-indigo-200 border border-indigo-500/30">
+            {tag}
+            <button type="button" onClick={() => removeTag(tag)} className="text-indigo-300 hover:text-white leading-none" aria-label={`Remove ${tag}`}>&times;</button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={value.length === 0 ? 'e.g., Graph / BFS' : ''}
+          className="flex-1 min-w-[8rem] bg-transparent py-0.5 text-white focus:outline-none"
+        />
+      </div>
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-gray-800 border border-gray-600 rounded-md shadow-lg text-sm">
+          {matches.map(tag => (
+            <li key={tag}>
+              {/* preventDefault keeps focus in the input so the list stays open until the click lands. */}
+              <button type="button" onMouseDown={(e) => e.preventDefault()} onClick={() => addTag(tag)} className="w-full text-left px-3 py-1.5 text-gray-200 hover:bg-gray-700">
+                {tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,29 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  durationMs: number;
+  onUndo: () => void;
+  onExpire: () => void;
+}
+
+/**
+ * Expires `durationMs` after it mounts. Give each undoable action its own
+ * `key`, so a second action replaces the toast and restarts the timer even
+ * when its message reads the same.
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ message, durationMs, onUndo, onExpire }) => {
+  useEffect(() => {
+    const timer = setTimeout(onExpire, durationMs);
+    return () => clearTimeout(timer);
+  }, [durationMs, onExpire]);
+
+  return (
+    <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800 border border-gray-600 rounded-lg shadow-2xl px-5 py-3 text-sm" role="status">
+      <span className="text-gray-200">{message}</span>
+      <button onClick={onUndo} className="font-bold text-teal-400 hover:text-teal-300 uppercase tracking-wide">Undo</button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,57 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
+import { matchRoute, Route } from '../services/routes';
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  route: Route;
+  pathname: string;
+  search: string;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+const readLocation = () => ({ pathname: window.location.pathname, search: window.location.search });
+
+export const RouterProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    // Back/forward buttons change the URL without telling React.
+    const handlePopState = () => setLocation(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    const current = `${window.location.pathname}${window.location.search}`;
+    if (to !== current) {
+      if (options.replace) {
+        window.history.replaceState(null, '', to);
+      } else {
+        window.history.pushState(null, '', to);
+      }
+    }
+    setLocation(readLocation());
+  }, []);
+
+  const value = {
+    route: matchRoute(location.pathname),
+    pathname: location.pathname,
+    search: location.search,
+    navigate,
+  };
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+};
+
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+};
@@ -0,0 +1,918 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      deleted_submissions: {
+        Row: {
+          deleted_at: string
+          id: number
+          submission: Json
+          user_id: string
+        }
+        Insert: {
+          deleted_at?: string
+          id: number
+          submission: Json
+          user_id: string
+        }
+        Update: {
+          deleted_at?: string
+          id?: number
+          submission?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      follows: {
+        Row: {
+          created_at: string
+          followee_id: string
+          follower_id: string
+        }
+        Insert: {
+          created_at?: string
+          followee_id: string
+          follower_id: string
+        }
+        Update: {
+          created_at?: string
+          followee_id?: string
+          follower_id?: string
+        }
+        Relationships: []
+      }
+      goal_targets: {
+        Row: {
+          goal_id: number
+          id: number
+          set_at: string
+          target: number
+          user_id: string
+        }
+        Insert: {
+          goal_id: number
+          id?: number
+          set_at?: string
+          target: number
+          user_id: string
+        }
+        Update: {
+          goal_id?: number
+          id?: number
+          set_at?: string
+          target?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_targets_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      goals: {
+        Row: {
+          created_at: string
+          id: number
+          metric: string
+          period: string
+          tag: string | null
+          target: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          metric: string
+          period: string
+          tag?: string | null
+          target: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          metric?: string
+          period?: string
+          tag?: string | null
+          target?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      group_members: {
+        Row: {
+          group_id: number
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          group_id: number
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          group_id?: number
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      groups: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: number
+          invite_code: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: number
+          invite_code: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: number
+          invite_code?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          actor_username: string | null
+          created_at: string
+          id: number
+          kind: string
+          read_at: string | null
+          streak: number | null
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_username?: string | null
+          created_at?: string
+          id?: number
+          kind: string
+          read_at?: string | null
+          streak?: number | null
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_username?: string | null
+          created_at?: string
+          id?: number
+          kind?: string
+          read_at?: string | null
+          streak?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      problems: {
+        Row: {
+          created_at: string
+          difficulty: string | null
+          id: number
+          name: string
+          platform: string
+          slug: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          difficulty?: string | null
+          id?: never
+          name: string
+          platform: string
+          slug: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          difficulty?: string | null
+          id?: never
+          name?: string
+          platform?: string
+          slug?: string
+          url?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          backfill_window_days: number
+          current_streak: number
+          id: string
+          is_public: boolean
+          longest_streak: number
+          public_show_links: boolean
+          public_show_notes: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          reminder_times: string[]
+          rest_days: number[]
+          reviews_count_toward_streak: boolean
+          streak_freezes: number
+          streak_goal: number
+          timezone: string | null
+          updated_at: string | null
+          username: string | null
+        }
+        Insert: {
+          backfill_window_days?: number
+          current_streak?: number
+          id: string
+          is_public?: boolean
+          longest_streak?: number
+          public_show_links?: boolean
+          public_show_notes?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          reminder_times?: string[]
+          rest_days?: number[]
+          reviews_count_toward_streak?: boolean
+          streak_freezes?: number
+          streak_goal?: number
+          timezone?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Update: {
+          backfill_window_days?: number
+          current_streak?: number
+          id?: string
+          is_public?: boolean
+          longest_streak?: number
+          public_show_links?: boolean
+          public_show_notes?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          reminder_times?: string[]
+          rest_days?: number[]
+          reviews_count_toward_streak?: boolean
+          streak_freezes?: number
+          streak_goal?: number
+          timezone?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: number
+          p256dh: string
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: number
+          p256dh: string
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: number
+          p256dh?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reminders_sent: {
+        Row: {
+          day_key: string
+          reminder_time: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          day_key: string
+          reminder_time: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          day_key?: string
+          reminder_time?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      review_events: {
+        Row: {
+          created_at: string
+          id: number
+          quality: number
+          reviewed_at: string
+          submission_id: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          quality: number
+          reviewed_at?: string
+          submission_id?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          quality?: number
+          reviewed_at?: string
+          submission_id?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_events_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      review_schedules: {
+        Row: {
+          created_at: string
+          due_on: string
+          ease_factor: number
+          interval_days: number
+          last_reviewed_at: string | null
+          repetitions: number
+          submission_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_on: string
+          ease_factor?: number
+          interval_days?: number
+          last_reviewed_at?: string | null
+          repetitions?: number
+          submission_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_on?: string
+          ease_factor?: number
+          interval_days?: number
+          last_reviewed_at?: string | null
+          repetitions?: number
+          submission_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_schedules_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: true
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      streak_milestones: {
+        Row: {
+          id: number
+          reached_at: string
+          streak: number
+          user_id: string
+        }
+        Insert: {
+          id?: number
+          reached_at?: string
+          streak: number
+          user_id: string
+        }
+        Update: {
+          id?: number
+          reached_at?: string
+          streak?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      submission_tags: {
+        Row: {
+          submission_id: number
+          tag_id: number
+          user_id: string
+        }
+        Insert: {
+          submission_id: number
+          tag_id: number
+          user_id: string
+        }
+        Update: {
+          submission_id?: number
+          tag_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_tags_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      submissions: {
+        Row: {
+          client_id: string | null
+          counts_toward_streak: boolean
+          created_at: string
+          date: string
+          description: string | null
+          difficulty: string
+          id: number
+          is_backdated: boolean
+          link: string | null
+          platform: string | null
+          problem_id: number | null
+          problem_name: string
+          search: unknown
+          time_spent_minutes: number | null
+          user_id: string
+        }
+        Insert: {
+          client_id?: string | null
+          counts_toward_streak?: boolean
+          created_at?: string
+          date: string
+          description?: string | null
+          difficulty: string
+          id?: number
+          is_backdated?: boolean
+          link?: string | null
+          platform?: string | null
+          problem_id?: number | null
+          problem_name: string
+          search?: never
+          time_spent_minutes?: number | null
+          user_id: string
+        }
+        Update: {
+          client_id?: string | null
+          counts_toward_streak?: boolean
+          created_at?: string
+          date?: string
+          description?: string | null
+          difficulty?: string
+          id?: number
+          is_backdated?: boolean
+          link?: string | null
+          platform?: string | null
+          problem_id?: number | null
+          problem_name?: string
+          search?: never
+          time_spent_minutes?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submissions_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: number
+          name: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          name: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          name?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      public_profiles: {
+        Row: {
+          current_streak: number | null
+          id: string | null
+          longest_streak: number | null
+          rest_days: number[] | null
+          timezone: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
+      public_submissions: {
+        Row: {
+          date: string | null
+          description: string | null
+          difficulty: string | null
+          id: number | null
+          link: string | null
+          platform: string | null
+          problem_name: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      calculate_streaks: {
+        Args: { p_now?: string; p_user_id: string }
+        Returns: {
+          current_streak: number
+          freezes_remaining: number
+          longest_streak: number
+        }[]
+      }
+      count_missed_days: {
+        Args: { p_from: string; p_rest_days: number[]; p_to: string }
+        Returns: number
+      }
+      create_group: {
+        Args: { p_name: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          id: number
+          invite_code: string
+          name: string
+        }
+      }
+      expire_stale_streaks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      follow_user: {
+        Args: { p_username: string }
+        Returns: string
+      }
+      get_activity_summary: {
+        Args: { p_before: string; p_time_zone: string }
+        Returns: {
+          counts_toward_streak: boolean
+          day: string
+          easy: number
+          hard: number
+          medium: number
+          minutes: number
+          platforms: string[]
+          problems: string[]
+          solves: number
+          topics: Json
+        }[]
+      }
+      get_following: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          current_streak: number
+          followed_at: string
+          longest_streak: number
+          user_id: string
+          username: string
+        }[]
+      }
+      get_following_feed: {
+        Args: { p_limit?: number }
+        Returns: {
+          description: string
+          difficulty: string
+          kind: string
+          link: string
+          occurred_at: string
+          problem_name: string
+          streak: number
+          submission_id: number
+          user_id: string
+          username: string
+        }[]
+      }
+      get_group_feed: {
+        Args: { p_group_id: number; p_limit?: number }
+        Returns: {
+          date: string
+          difficulty: string
+          problem_name: string
+          submission_id: number
+          user_id: string
+          username: string
+        }[]
+      }
+      get_group_leaderboard: {
+        Args: { p_group_id: number; p_since: string }
+        Returns: {
+          current_streak: number
+          longest_streak: number
+          role: string
+          user_id: string
+          username: string
+          weekly_score: number
+          weekly_solves: number
+        }[]
+      }
+      get_review_days: {
+        Args: { p_before: string; p_time_zone: string }
+        Returns: {
+          day: string
+        }[]
+      }
+      get_solve_counts: {
+        Args: { p_ids: number[] }
+        Returns: {
+          solves: number
+          submission_id: number
+        }[]
+      }
+      import_submissions: {
+        Args: { p_rows: Json }
+        Returns: {
+          client_id: string | null
+          counts_toward_streak: boolean
+          created_at: string
+          date: string
+          description: string | null
+          difficulty: string
+          id: number
+          is_backdated: boolean
+          link: string | null
+          platform: string | null
+          problem_id: number | null
+          problem_name: string
+          search: unknown
+          time_spent_minutes: number | null
+          user_id: string
+        }[]
+      }
+      is_group_admin: {
+        Args: { p_group_id: number }
+        Returns: boolean
+      }
+      is_group_member: {
+        Args: { p_group_id: number }
+        Returns: boolean
+      }
+      join_group_by_code: {
+        Args: { p_invite_code: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          id: number
+          invite_code: string
+          name: string
+        }
+      }
+      leave_group: {
+        Args: { p_group_id: number }
+        Returns: undefined
+      }
+      parse_problem_url: {
+        Args: { p_url: string }
+        Returns: {
+          platform: string
+          slug: string
+          url: string
+        }[]
+      }
+      problem_name_from_slug: {
+        Args: { p_platform: string; p_slug: string }
+        Returns: string
+      }
+      profile_time_zone: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      record_review: {
+        Args: {
+          p_due_on: string
+          p_ease_factor: number
+          p_interval_days: number
+          p_quality: number
+          p_repetitions: number
+          p_submission_id: number
+        }
+        Returns: undefined
+      }
+      refresh_streaks: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      regenerate_invite_code: {
+        Args: { p_group_id: number }
+        Returns: string
+      }
+      restore_submissions: {
+        Args: { p_ids: number[] }
+        Returns: {
+          client_id: string | null
+          counts_toward_streak: boolean
+          created_at: string
+          date: string
+          description: string | null
+          difficulty: string
+          id: number
+          is_backdated: boolean
+          link: string | null
+          platform: string | null
+          problem_id: number | null
+          problem_name: string
+          search: unknown
+          time_spent_minutes: number | null
+          user_id: string
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,151 @@
+// Service worker: caches the app shell so the app opens offline, and shows
+// streak reminders sent over Web Push.
+//
+// Vite's hashed build assets (/assets/*) never change under the same name,
+// so they're served from the cache and refreshed in the background. The ones
+// index.html references are precached on install: they load on the first
+// visit before this worker controls the page, so the fetch handler never
+// sees them, and without them the offline shell would have no script.
+// Everything else the app loads (pages, the manifest, CDN dependencies) goes
+// to the network first and falls back to the cached copy. Supabase requests
+// are never cached; offline data comes from IndexedDB
+// (services/offlineStore.ts).
+//
+// The page registers this file as /sw.js?build=<id>, with a new id for each
+// build, so a deploy installs a new worker whose cache replaces the last.
+//
+// Payloads are JSON: { title, body, url }. The app can also post
+// { type: 'simulate-push', payload } to run the exact same code path without
+// a push service, which is how "Send test notification" works when no VAPID
+// key is configured.
+
+const DEFAULT_REMINDER = {
+  title: "Don't break your streak!",
+  body: "You haven't logged a problem today.",
+  url: '/submissions',
+};
+
+const showReminder = (payload) => {
+  const reminder = { ...DEFAULT_REMINDER, ...payload };
+  return self.registration.showNotification(reminder.title, {
+    body: reminder.body,
+    tag: 'streak-reminder',
+    renotify: true,
+    data: { url: reminder.url },
+  });
+};
+
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') || 'dev';
+const CACHE_NAME = `dsa-streak-shell-${BUILD_ID}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_URLS);
+  const page = await cache.match('/index.html');
+  const html = page ? await page.text() : '';
+  const assets = new Set([...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]));
+  await cache.addAll([...assets]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch {
+    // Every route renders the same shell, so any cached copy will do.
+    return (await cache.match('/')) || (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    // Opaque responses (status 0) come from no-cors CDN requests and are fine to reuse.
+    if (response.ok || response.type === 'opaque') {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    return (await cache.match(request)) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then((response) => {
+    if (response.ok) {
+      cache.put(event.request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (url.origin === self.location.origin || CDN_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`))) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data.text() };
+  }
+  event.waitUntil(showReminder(payload));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'simulate-push') {
+    event.waitUntil(showReminder(event.data.payload || {}));
+  }
+});
+
+// Focus an open tab if there is one, otherwise open the app.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (open) {
+        return open.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,109 @@
+import { supabase } from './supabase';
+import { Profile, UserAchievement } from '../types';
+import { getWeekStartKey } from './streaks';
+import { Difficulty, DayActivity, sumActivity } from './activity';
+
+export interface AchievementContext {
+    profile: Profile;
+    /** Every day with a solve, keyed by day in the profile's time zone. */
+    activityByDay: Map<string, DayActivity>;
+}
+
+export interface Achievement {
+    id: string;
+    name: string;
+    description: string;
+    isEarned: (context: AchievementContext) => boolean;
+}
+
+const TOPIC_MASTERY_COUNT = 50;
+
+const streakAchievement = (days: number, name: string): Achievement => ({
+    id: `streak-${days}`,
+    name,
+    description: `Keep a ${days}-day streak.`,
+    isEarned: ({ profile }) => profile.longest_streak >= days,
+});
+
+const solvedAchievement = (count: number, name: string): Achievement => ({
+    id: `solved-${count}`,
+    name,
+    description: `Solve ${count} problems.`,
+    isEarned: ({ activityByDay }) => sumActivity(activityByDay).count >= count,
+});
+
+/**
+ * Every achievement, in the order the badge wall shows them. Ids are stored
+ * in `user_achievements`, so never rename one.
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first-solve',
+        name: 'First Steps',
+        description: 'Log your first problem.',
+        isEarned: ({ activityByDay }) => activityByDay.size > 0,
+    },
+    {
+        id: 'first-hard',
+        name: 'Hard Hitter',
+        description: 'Solve your first Hard problem.',
+        isEarned: ({ activityByDay }) => [...activityByDay.values()].some(day => day.difficulties.Hard > 0),
+    },
+    streakAchievement(7, 'Week Warrior'),
+    streakAchievement(30, 'Monthly Grind'),
+    streakAchievement(100, 'Centurion'),
+    streakAchievement(365, 'Year of Code'),
+    solvedAchievement(100, 'Triple Digits'),
+    solvedAchievement(500, 'Problem Machine'),
+    {
+        id: 'topic-mastery',
+        name: 'Topic Specialist',
+        description: `Solve ${TOPIC_MASTERY_COUNT} problems with the same tag.`,
+        isEarned: ({ activityByDay }) => [...sumActivity(activityByDay).topics.values()].some(count => count >= TOPIC_MASTERY_COUNT),
+    },
+    {
+        id: 'all-difficulty-week',
+        name: 'Well Rounded',
+        description: 'Solve an Easy, a Medium and a Hard problem in the same week.',
+        isEarned: ({ activityByDay }) => {
+            const difficultiesByWeek = new Map<string, Set<Difficulty>>();
+            for (const [dayKey, day] of activityByDay) {
+                const week = getWeekStartKey(dayKey);
+                const difficulties = difficultiesByWeek.get(week) ?? new Set<Difficulty>();
+                (Object.keys(day.difficulties) as Difficulty[]).filter(d => day.difficulties[d] > 0).forEach(d => difficulties.add(d));
+                if (difficulties.size === 3) return true;
+                difficultiesByWeek.set(week, difficulties);
+            }
+            return false;
+        },
+    },
+];
+
+export const ACHIEVEMENTS_BY_ID = new Map(ACHIEVEMENTS.map(a => [a.id, a]));
+
+export const fetchAchievements = async (userId: string): Promise<UserAchievement[]> => {
+    const { data, error } = await supabase
+        .from('user_achievements')
+        .select('*')
+        .eq('user_id', userId)
+        .order('unlocked_at');
+    if (error) throw error;
+    return data ?? [];
+};
+
+/**
+ * Evaluates every rule and records the ones earned but not yet unlocked.
+ * Returns only the new unlocks; earlier ones keep their original timestamp.
+ */
+export const unlockAchievements = async (userId: string, context: AchievementContext, unlocked: UserAchievement[]): Promise<UserAchievement[]> => {
+    const unlockedIds = new Set(unlocked.map(u => u.achievement_id));
+    const earned = ACHIEVEMENTS.filter(a => !unlockedIds.has(a.id) && a.isEarned(context));
+    if (earned.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('user_achievements')
+        .upsert(earned.map(a => ({ user_id: userId, achievement_id: a.id })), { onConflict: 'user_id,achievement_id', ignoreDuplicates: true })
+        .select();
+    if (error) throw error;
+    return data ?? [];
+};
@@ -0,0 +1,199 @@
+import { ActivitySummaryRow, Submission } from '../types';
+import { addDaysToKey, dayKeyToInstant, getDayKey } from './streaks';
+
+export type Difficulty = Submission['difficulty'];
+
+export type HeatmapMode = 'count' | 'weighted';
+
+/**
+ * How much a single solve of each difficulty contributes to a day's weighted score.
+ */
+export const DIFFICULTY_WEIGHTS: Record<Difficulty, number> = {
+    Easy: 1,
+    Medium: 2,
+    Hard: 3,
+};
+
+/**
+ * Chart colors per difficulty (Tailwind green-500, yellow-500 and red-500).
+ */
+export const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+    Easy: '#22c55e',
+    Medium: '#eab308',
+    Hard: '#ef4444',
+};
+
+/**
+ * Lower bounds of the three active legend shades, per heatmap mode.
+ */
+const INTENSITY_THRESHOLDS: Record<HeatmapMode, [number, number, number]> = {
+    count: [1, 2, 4],
+    weighted: [1, 3, 6],
+};
+
+/**
+ * How many days of full submissions the app loads. Older days only come as
+ * per-day totals (see `summarizeActivity`).
+ */
+export const RECENT_ACTIVITY_DAYS = 60;
+
+/**
+ * How many of a day's problem names are kept for the heatmap's tooltip.
+ */
+const MAX_DAY_PROBLEMS = 3;
+
+export interface DayActivity {
+    count: number;
+    score: number;
+    /** The names of the first few problems solved that day. */
+    problems: string[];
+    difficulties: Record<Difficulty, number>;
+    minutes: number;
+    platforms: string[];
+    /** Solves per tag. */
+    topics: Map<string, number>;
+    /** False when every solve that day is imported history that doesn't count toward the streak. */
+    countsTowardStreak: boolean;
+}
+
+export interface ActivityTotals {
+    count: number;
+    difficulties: Record<Difficulty, number>;
+    topics: Map<string, number>;
+}
+
+type ActivitySubmission = Pick<Submission, 'date' | 'difficulty' | 'problem_name'> &
+    Partial<Pick<Submission, 'id' | 'platform' | 'time_spent_minutes' | 'counts_toward_streak'>>;
+
+const emptyDay = (): DayActivity => ({
+    count: 0,
+    score: 0,
+    problems: [],
+    difficulties: { Easy: 0, Medium: 0, Hard: 0 },
+    minutes: 0,
+    platforms: [],
+    topics: new Map(),
+    countsTowardStreak: false,
+});
+
+const copyDay = (day: DayActivity): DayActivity => ({
+    ...day,
+    problems: [...day.problems],
+    difficulties: { ...day.difficulties },
+    platforms: [...day.platforms],
+    topics: new Map(day.topics),
+});
+
+/**
+ * Groups submissions by the calendar day they fall on in `timeZone`,
+ * summing the count and difficulty-weighted score for each day. Days in
+ * `base` (e.g. totals loaded by `summarizeActivity`) are added to, not
+ * replaced, and `base` itself is left as it was.
+ */
+export const aggregateByDay = (
+    submissions: ActivitySubmission[],
+    timeZone: string,
+    tagsBySubmission: Map<number, string[]> = new Map(),
+    base: Map<string, DayActivity> = new Map()
+): Map<string, DayActivity> => {
+    const days = new Map<string, DayActivity>(base);
+    // Days from `base` are copied before their first change.
+    const owned = new Set<string>();
+    submissions.forEach(s => {
+        const key = getDayKey(s.date, timeZone);
+        let day = days.get(key);
+        if (!day) {
+            day = emptyDay();
+            owned.add(key);
+        } else if (!owned.has(key)) {
+            day = copyDay(day);
+            owned.add(key);
+        }
+        day.count++;
+        day.score += DIFFICULTY_WEIGHTS[s.difficulty] ?? 0;
+        if (day.problems.length < MAX_DAY_PROBLEMS) {
+            day.problems.push(s.problem_name);
+        }
+        if (day.difficulties[s.difficulty] !== undefined) {
+            day.difficulties[s.difficulty]++;
+        }
+        day.minutes += s.time_spent_minutes ?? 0;
+        if (s.platform && !day.platforms.includes(s.platform)) {
+            day.platforms.push(s.platform);
+        }
+        for (const tag of (s.id !== undefined && tagsBySubmission.get(s.id)) || []) {
+            day.topics.set(tag, (day.topics.get(tag) ?? 0) + 1);
+        }
+        // Rows cached offline before the column existed count, as they do on the server.
+        day.countsTowardStreak ||= s.counts_toward_streak !== false;
+        days.set(key, day);
+    });
+    return days;
+};
+
+/**
+ * Turns the rows of the `get_activity_summary` database function into
+ * per-day totals, keyed like `aggregateByDay`'s.
+ */
+export const summaryRowsToActivity = (rows: ActivitySummaryRow[]): Map<string, DayActivity> =>
+    new Map<string, DayActivity>(rows.map(row => [row.day, {
+        count: row.solves,
+        score: row.easy * DIFFICULTY_WEIGHTS.Easy + row.medium * DIFFICULTY_WEIGHTS.Medium + row.hard * DIFFICULTY_WEIGHTS.Hard,
+        problems: row.problems.slice(0, MAX_DAY_PROBLEMS),
+        difficulties: { Easy: row.easy, Medium: row.medium, Hard: row.hard },
+        minutes: row.minutes,
+        platforms: row.platforms,
+        topics: new Map<string, number>(Object.entries(row.topics ?? {})),
+        countsTowardStreak: row.counts_toward_streak,
+    }]));
+
+/**
+ * Adds up every day: solves overall, per difficulty and per tag.
+ */
+export const sumActivity = (activityByDay: Map<string, DayActivity>): ActivityTotals => {
+    const totals: ActivityTotals = { count: 0, difficulties: { Easy: 0, Medium: 0, Hard: 0 }, topics: new Map() };
+    activityByDay.forEach(day => {
+        totals.count += day.count;
+        (Object.keys(totals.difficulties) as Difficulty[]).forEach(difficulty => {
+            totals.difficulties[difficulty] += day.difficulties[difficulty] ?? 0;
+        });
+        day.topics.forEach((count, tag) => totals.topics.set(tag, (totals.topics.get(tag) ?? 0) + count));
+    });
+    return totals;
+};
+
+/**
+ * Number of solves per difficulty.
+ */
+export const countByDifficulty = (submissions: Pick<Submission, 'difficulty'>[]): Record<Difficulty, number> => {
+    const counts: Record<Difficulty, number> = { Easy: 0, Medium: 0, Hard: 0 };
+    submissions.forEach(s => {
+        if (counts[s.difficulty] !== undefined) {
+            counts[s.difficulty]++;
+        }
+    });
+    return counts;
+};
+
+/**
+ * The instant the full rows loaded by the app start from: midnight in
+ * `timeZone`, `RECENT_ACTIVITY_DAYS` days ago.
+ */
+export const getRecentActivityStart = (timeZone: string, now = new Date()): string =>
+    dayKeyToInstant(addDaysToKey(getDayKey(now, timeZone), -(RECENT_ACTIVITY_DAYS - 1)), timeZone, 0).toISOString();
+
+/**
+ * Maps a day's activity onto a legend bucket: 0 for an empty day, 1-3 for the
+ * increasingly bright shades.
+ */
+export const getIntensityLevel = (activity: DayActivity | undefined, mode: HeatmapMode): number => {
+    if (!activity || activity.count === 0) {
+        return 0;
+    }
+    const value = mode === 'count' ? activity.count : activity.score;
+    const [low, medium, high] = INTENSITY_THRESHOLDS[mode];
+    if (value >= high) return 3;
+    if (value >= medium) return 2;
+    if (value >= low) return 1;
+    return 0;
+};
@@ -0,0 +1,145 @@
+import { supabase } from './supabase';
+import { Database, Profile, Submission } from '../types';
+import { fetchSubmissionPage, SubmissionFilters, SubmissionPage } from './submissionQueries';
+import { DayActivity, summaryRowsToActivity } from './activity';
+
+export type SubmissionInsert = Database['public']['Tables']['submissions']['Insert'];
+export type SubmissionUpdate = Database['public']['Tables']['submissions']['Update'];
+export type ProfileInsert = Database['public']['Tables']['profiles']['Insert'];
+export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+
+/**
+ * The storage the repositories read and write through. Errors are thrown in
+ * PostgREST's shape (`code`, `message`) whichever backend is in use, so
+ * callers can keep checking codes like 23505.
+ */
+export interface DataBackend {
+    submissions: {
+        /** A user's submissions dated `since` or later (all of them without it), newest first. */
+        listByUser(userId: string, since?: string): Promise<Submission[]>;
+        listByIds(ids: number[]): Promise<Submission[]>;
+        /** Per-day totals of a user's submissions dated before `before`, by day in `timeZone`. */
+        summarize(userId: string, before: string, timeZone: string): Promise<Map<string, DayActivity>>;
+        /**
+         * How many times the problem of each listed submission has been
+         * solved, across all of the user's submissions. Keyed by submission id.
+         */
+        countSolves(userId: string, ids: number[]): Promise<Map<number, number>>;
+        page(userId: string, filters: SubmissionFilters, page: number, timeZone: string): Promise<SubmissionPage>;
+        getById(id: number): Promise<Submission | null>;
+        getByClientId(clientId: string): Promise<Submission | null>;
+        insert(rows: SubmissionInsert[]): Promise<Submission[]>;
+        /**
+         * Inserts history from another tracker. Unlike `insert`, dates before
+         * the backfill window are accepted, but don't count toward the streak.
+         */
+        import(rows: SubmissionInsert[]): Promise<Submission[]>;
+        /** Puts back submissions deleted in the last few minutes, exactly as they were. */
+        restore(ids: number[]): Promise<Submission[]>;
+        update(id: number, changes: SubmissionUpdate): Promise<Submission>;
+        /** Resolves with the rows that were actually deleted. */
+        remove(ids: number[]): Promise<Submission[]>;
+    };
+    profiles: {
+        get(id: string): Promise<Profile | null>;
+        insert(row: ProfileInsert): Promise<Profile>;
+        update(id: string, changes: ProfileUpdate): Promise<void>;
+    };
+}
+
+export const supabaseBackend: DataBackend = {
+    submissions: {
+        listByUser: async (userId, since) => {
+            let query = supabase
+                .from('submissions')
+                .select('*')
+                .eq('user_id', userId);
+            if (since) {
+                query = query.gte('date', since);
+            }
+            const { data, error } = await query.order('date', { ascending: false });
+            if (error) throw error;
+            return data ?? [];
+        },
+        listByIds: async (ids) => {
+            const { data, error } = await supabase.from('submissions').select('*').in('id', ids);
+            if (error) throw error;
+            return data ?? [];
+        },
+        summarize: async (_userId, before, timeZone) => {
+            const { data, error } = await supabase.rpc('get_activity_summary', { p_before: before, p_time_zone: timeZone });
+            if (error) throw error;
+            return summaryRowsToActivity(data ?? []);
+        },
+        countSolves: async (_userId, ids) => {
+            const { data, error } = await supabase.rpc('get_solve_counts', { p_ids: ids });
+            if (error) throw error;
+            return new Map<number, number>((data ?? []).map(row => [row.submission_id, row.solves]));
+        },
+        page: fetchSubmissionPage,
+        getById: async (id) => {
+            const { data, error } = await supabase.from('submissions').select('*').eq('id', id).maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+        getByClientId: async (clientId) => {
+            const { data, error } = await supabase.from('submissions').select('*').eq('client_id', clientId).maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+        insert: async (rows) => {
+            const { data, error } = await supabase.from('submissions').insert(rows).select();
+            if (error) throw error;
+            return data ?? [];
+        },
+        import: async (rows) => {
+            const { data, error } = await supabase.rpc('import_submissions', { p_rows: rows });
+            if (error) throw error;
+            return data ?? [];
+        },
+        restore: async (ids) => {
+            const { data, error } = await supabase.rpc('restore_submissions', { p_ids: ids });
+            if (error) throw error;
+            return data ?? [];
+        },
+        update: async (id, changes) => {
+            const { data, error } = await supabase.from('submissions').update(changes).eq('id', id).select().single();
+            if (error) throw error;
+            return data;
+        },
+        remove: async (ids) => {
+            const { data, error } = await supabase.from('submissions').delete().in('id', ids).select();
+            if (error) throw error;
+            return data ?? [];
+        },
+    },
+    profiles: {
+        get: async (id) => {
+            const { data, error } = await supabase.from('profiles').select('*').eq('id', id).maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+        insert: async (row) => {
+            const { data, error } = await supabase.from('profiles').insert(row).select().single();
+            if (error) throw error;
+            return data;
+        },
+        update: async (id, changes) => {
+            const { error } = await supabase.from('profiles').update(changes).eq('id', id);
+            if (error) throw error;
+        },
+    },
+};
+
+let backend: DataBackend = supabaseBackend;
+
+export const getDataBackend = (): DataBackend => backend;
+
+/**
+ * Swaps the storage behind the repositories, e.g. for an in-memory backend
+ * (see memoryBackend.ts) when rendering components without Supabase. Clear
+ * the cache as well if it may hold rows from the previous backend.
+ */
+export const setDataBackend = (next: DataBackend): void => {
+    backend = next;
+};
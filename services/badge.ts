@@ -0,0 +1,162 @@
+import { DayActivity, getIntensityLevel } from './activity';
+import { dayKeyToDayNumber, dayNumberToDayKey, getTodayKey, getWeekday } from './streaks';
+
+export type BadgeTheme = 'dark' | 'light' | 'teal';
+
+interface BadgePalette {
+    background: string;
+    border: string;
+    title: string;
+    label: string;
+    value: string;
+    /** Heatmap shades, from an empty day to the busiest. */
+    cells: [string, string, string, string];
+}
+
+export const BADGE_THEMES: Record<BadgeTheme, BadgePalette> = {
+    dark: {
+        background: '#0d1117',
+        border: '#30363d',
+        title: '#2dd4bf',
+        label: '#8b949e',
+        value: '#f0f6fc',
+        cells: ['#1f2937', '#115e59', '#0d9488', '#2dd4bf'],
+    },
+    light: {
+        background: '#ffffff',
+        border: '#d0d7de',
+        title: '#0f766e',
+        label: '#57606a',
+        value: '#1f2328',
+        cells: ['#ebedf0', '#99f6e4', '#2dd4bf', '#0f766e'],
+    },
+    teal: {
+        background: '#042f2e',
+        border: '#115e59',
+        title: '#5eead4',
+        label: '#99f6e4',
+        value: '#f0fdfa',
+        cells: ['#134e4a', '#0f766e', '#14b8a6', '#5eead4'],
+    },
+};
+
+/**
+ * Weeks of history drawn in the badge's mini heatmap.
+ */
+export const BADGE_WEEKS = 20;
+
+const BADGE_WIDTH = 460;
+const BADGE_HEIGHT = 150;
+const CELL_SIZE = 10;
+const CELL_GAP = 2;
+const FONT_FAMILY = "'Segoe UI', Helvetica, Arial, sans-serif";
+
+export interface BadgeData {
+    username: string;
+    currentStreak: number;
+    longestStreak: number;
+    activityByDay: Map<string, DayActivity>;
+    timeZone: string;
+}
+
+const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const MAX_TITLE_NAME_LENGTH = 32;
+
+const pluralDays = (count: number): string => `${count} day${count === 1 ? '' : 's'}`;
+
+/**
+ * Renders the streak card as a self-contained SVG document: no external
+ * fonts, images or scripts, so it displays the same wherever it's embedded.
+ */
+export const buildBadgeSvg = (data: BadgeData, theme: BadgeTheme): string => {
+    const palette = BADGE_THEMES[theme];
+    const today = dayKeyToDayNumber(getTodayKey(data.timeZone));
+    // Sunday-first columns, ending with the week that contains today.
+    const firstDay = today - getWeekday(today) - (BADGE_WEEKS - 1) * 7;
+    const gridX = BADGE_WIDTH - 20 - BADGE_WEEKS * (CELL_SIZE + CELL_GAP) + CELL_GAP;
+    // The grid sits below the title row, which spans the full width.
+    const gridY = BADGE_HEIGHT - 20 - (7 * (CELL_SIZE + CELL_GAP) - CELL_GAP);
+
+    const cells: string[] = [];
+    for (let day = firstDay; day <= today; day++) {
+        const offset = day - firstDay;
+        const x = gridX + Math.floor(offset / 7) * (CELL_SIZE + CELL_GAP);
+        const y = gridY + (offset % 7) * (CELL_SIZE + CELL_GAP);
+        const level = getIntensityLevel(data.activityByDay.get(dayNumberToDayKey(day)), 'count');
+        cells.push(`<rect x="${x}" y="${y}" width="${CELL_SIZE}" height="${CELL_SIZE}" rx="2" fill="${palette.cells[level]}"/>`);
+    }
+
+    // Long names would run off the card.
+    const name = data.username.length > MAX_TITLE_NAME_LENGTH ? `${data.username.slice(0, MAX_TITLE_NAME_LENGTH - 1)}…` : data.username;
+    const title = escapeXml(`${name} · DSA Streak`);
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${BADGE_WIDTH}" height="${BADGE_HEIGHT}" viewBox="0 0 ${BADGE_WIDTH} ${BADGE_HEIGHT}" role="img" aria-label="${title}: current streak ${pluralDays(data.currentStreak)}, longest ${pluralDays(data.longestStreak)}">`,
+        `<title>${title}</title>`,
+        `<rect x="0.5" y="0.5" width="${BADGE_WIDTH - 1}" height="${BADGE_HEIGHT - 1}" rx="8" fill="${palette.background}" stroke="${palette.border}"/>`,
+        `<g font-family="${FONT_FAMILY}">`,
+        `<text x="20" y="32" font-size="15" font-weight="700" fill="${palette.title}">${title}</text>`,
+        `<text x="20" y="62" font-size="12" fill="${palette.label}">Current streak</text>`,
+        `<text x="20" y="86" font-size="22" font-weight="700" fill="${palette.value}">${pluralDays(data.currentStreak)}</text>`,
+        `<text x="20" y="112" font-size="12" fill="${palette.label}">Longest streak</text>`,
+        `<text x="20" y="136" font-size="22" font-weight="700" fill="${palette.value}">${pluralDays(data.longestStreak)}</text>`,
+        `</g>`,
+        ...cells,
+        `</svg>`,
+    ].join('\n');
+};
+
+export const svgToDataUrl = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/**
+ * Rasterizes a badge SVG for places that don't accept SVG images. `scale`
+ * renders at a higher resolution so the PNG stays sharp on dense screens.
+ */
+export const svgToPng = (svg: string, scale: number = 2): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = BADGE_WIDTH * scale;
+            canvas.height = BADGE_HEIGHT * scale;
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error('Canvas is not supported in this browser.'));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not create the PNG.')), 'image/png');
+        };
+        image.onerror = () => reject(new Error('Could not render the badge.'));
+        image.src = svgToDataUrl(svg);
+    });
+};
+
+/**
+ * Where the streak-badge Edge Function serves a public profile's badge. The
+ * function renders it from the profile on every request (give or take
+ * caching), so an embed of this URL never goes stale.
+ */
+export const getBadgeUrl = (username: string, theme: BadgeTheme): string =>
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/streak-badge?user=${encodeURIComponent(username)}&theme=${theme}`;
+
+export type EmbedFormat = 'markdown' | 'html';
+
+/**
+ * Snippet for embedding a badge image, linked to the public profile when
+ * there is one.
+ */
+export const buildEmbedSnippet = (imageUrl: string, embedFormat: EmbedFormat, linkUrl?: string): string => {
+    const alt = 'DSA streak';
+    if (embedFormat === 'html') {
+        const image = `<img src="${imageUrl}" alt="${alt}" width="${BADGE_WIDTH}" />`;
+        return linkUrl ? `<a href="${linkUrl}">${image}</a>` : image;
+    }
+    const image = `![${alt}](${imageUrl})`;
+    return linkUrl ? `[${image}](${linkUrl})` : image;
+};
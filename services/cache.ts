@@ -0,0 +1,136 @@
+/**
+ * A normalized client-side cache for the repositories. Each row is stored
+ * once per table under its primary key, and cached queries only hold the
+ * keys of their rows, so an optimistic change to a row shows up in every
+ * query that includes it.
+ *
+ * Queries are invalidated by key prefix: a stale query keeps serving its last
+ * rows until the owning repository refetches it.
+ */
+
+export type CacheKey = string | number;
+
+interface CachedQuery {
+    table: string;
+    keys: CacheKey[];
+    stale: boolean;
+}
+
+const tables = new Map<string, Map<CacheKey, unknown>>();
+const queries = new Map<string, CachedQuery>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const getTable = (table: string): Map<CacheKey, unknown> => {
+    let rows = tables.get(table);
+    if (!rows) {
+        rows = new Map();
+        tables.set(table, rows);
+    }
+    return rows;
+};
+
+export const getCachedRow = <T>(table: string, key: CacheKey): T | undefined =>
+    tables.get(table)?.get(key) as T | undefined;
+
+const isSameRow = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Stores rows (replacing any cached copy) without touching query membership.
+ * Listeners only hear about it if a row actually changed, so a component
+ * that loads rows when the cache changes doesn't go on reloading them.
+ */
+export const putCachedRows = <T>(table: string, rows: T[], keyOf: (row: T) => CacheKey): void => {
+    const cached = getTable(table);
+    let changed = false;
+    rows.forEach(row => {
+        const key = keyOf(row);
+        if (!isSameRow(cached.get(key), row)) {
+            cached.set(key, row);
+            changed = true;
+        }
+    });
+    if (changed) {
+        notify();
+    }
+};
+
+/**
+ * Drops rows from their table and from every query that listed them.
+ */
+export const removeCachedRows = (table: string, keys: CacheKey[]): void => {
+    const cached = getTable(table);
+    const removed = new Set<CacheKey>(keys);
+    keys.forEach(key => cached.delete(key));
+    queries.forEach(query => {
+        if (query.table === table) {
+            query.keys = query.keys.filter(key => !removed.has(key));
+        }
+    });
+    notify();
+};
+
+/**
+ * The rows of a cached query, or undefined if it was never loaded.
+ */
+export const getCachedQuery = <T>(queryKey: string): T[] | undefined => {
+    const query = queries.get(queryKey);
+    if (!query) return undefined;
+    const cached = getTable(query.table);
+    return query.keys.filter(key => cached.has(key)).map(key => cached.get(key) as T);
+};
+
+export const isQueryFresh = (queryKey: string): boolean => queries.get(queryKey)?.stale === false;
+
+/**
+ * Stores the result of a query, marking it fresh.
+ */
+export const setCachedQuery = <T>(queryKey: string, table: string, rows: T[], keyOf: (row: T) => CacheKey): void => {
+    const cached = getTable(table);
+    rows.forEach(row => cached.set(keyOf(row), row));
+    queries.set(queryKey, { table, keys: rows.map(keyOf), stale: false });
+    notify();
+};
+
+/**
+ * Rewrites the keys of a loaded query in place, e.g. to slot in an optimistic
+ * insert. Queries that were never loaded are left alone.
+ */
+export const updateCachedQuery = (queryKey: string, update: (keys: CacheKey[]) => CacheKey[]): void => {
+    const query = queries.get(queryKey);
+    if (!query) return;
+    query.keys = update(query.keys);
+    notify();
+};
+
+/**
+ * Marks every query whose key starts with `prefix` as stale.
+ */
+export const invalidateQueries = (prefix: string): void => {
+    queries.forEach((query, key) => {
+        if (key.startsWith(prefix)) {
+            query.stale = true;
+        }
+    });
+    notify();
+};
+
+/**
+ * Calls `listener` after every change to the cache. Returns an unsubscribe function.
+ */
+export const subscribeToCache = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Forgets everything, e.g. on sign-out.
+ */
+export const clearCache = (): void => {
+    tables.clear();
+    queries.clear();
+    notify();
+};
@@ -0,0 +1,161 @@
+import { supabase } from './supabase';
+import { Profile, Submission } from '../types';
+import { fetchTagData } from './tags';
+
+/**
+ * Version of the export format below. Bump it whenever a field is renamed,
+ * removed or changes meaning; adding a field is backwards compatible.
+ *
+ * JSON export (`dsa-streak-<date>.json`):
+ *   schema_version   number   always EXPORT_SCHEMA_VERSION
+ *   exported_at      string   ISO timestamp of the export
+ *   profile          object   username, timezone, current_streak, longest_streak,
+ *                             streak_goal, total_submissions
+ *   submissions      array    one ExportedSubmission per logged solve, oldest first
+ *
+ * CSV export: `dsa-streak-submissions-<date>.csv` holds one row per submission
+ * with the ExportedSubmission columns (tags joined by "; "), and
+ * `dsa-streak-profile-<date>.csv` holds one row with the profile fields.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+const EXPORT_PAGE_SIZE = 500;
+
+export interface ExportedSubmission {
+    id: number;
+    date: string;
+    created_at: string;
+    problem_name: string;
+    difficulty: Submission['difficulty'];
+    platform: string | null;
+    link: string | null;
+    description: string | null;
+    is_backdated: boolean;
+    time_spent_minutes: number | null;
+    tags: string[];
+}
+
+export interface ExportedProfile {
+    username: string | null;
+    timezone: string | null;
+    current_streak: number;
+    longest_streak: number;
+    streak_goal: number;
+    total_submissions: number;
+}
+
+export interface ExportData {
+    schema_version: number;
+    exported_at: string;
+    profile: ExportedProfile;
+    submissions: ExportedSubmission[];
+}
+
+/**
+ * Reads every submission page by page, so large histories never depend on a
+ * single long-running request.
+ */
+const fetchAllSubmissions = async (userId: string, onProgress?: (loaded: number) => void): Promise<Submission[]> => {
+    const all: Submission[] = [];
+    for (let start = 0; ; start += EXPORT_PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('submissions')
+            .select('*')
+            .eq('user_id', userId)
+            .order('date', { ascending: true })
+            .order('id', { ascending: true })
+            .range(start, start + EXPORT_PAGE_SIZE - 1);
+        if (error) throw error;
+        all.push(...(data ?? []));
+        onProgress?.(all.length);
+        if (!data || data.length < EXPORT_PAGE_SIZE) {
+            return all;
+        }
+    }
+};
+
+/**
+ * Collects the user's full history into the versioned export shape.
+ */
+export const collectExportData = async (
+    userId: string,
+    profile: Profile | null,
+    onProgress?: (loaded: number) => void
+): Promise<ExportData> => {
+    const submissions = await fetchAllSubmissions(userId, onProgress);
+    const { tagsBySubmission } = await fetchTagData(userId);
+
+    return {
+        schema_version: EXPORT_SCHEMA_VERSION,
+        exported_at: new Date().toISOString(),
+        profile: {
+            username: profile?.username ?? null,
+            timezone: profile?.timezone ?? null,
+            current_streak: profile?.current_streak ?? 0,
+            longest_streak: profile?.longest_streak ?? 0,
+            streak_goal: profile?.streak_goal ?? 0,
+            total_submissions: submissions.length,
+        },
+        submissions: submissions.map(s => ({
+            id: s.id,
+            date: s.date,
+            created_at: s.created_at,
+            problem_name: s.problem_name,
+            difficulty: s.difficulty,
+            platform: s.platform,
+            link: s.link,
+            description: s.description,
+            is_backdated: s.is_backdated ?? false,
+            time_spent_minutes: s.time_spent_minutes ?? null,
+            tags: tagsBySubmission.get(s.id) ?? [],
+        })),
+    };
+};
+
+const SUBMISSION_COLUMNS: (keyof ExportedSubmission)[] = [
+    'id', 'date', 'created_at', 'problem_name', 'difficulty', 'platform', 'link', 'description', 'is_backdated', 'time_spent_minutes', 'tags',
+];
+
+const PROFILE_COLUMNS: (keyof ExportedProfile)[] = [
+    'username', 'timezone', 'current_streak', 'longest_streak', 'streak_goal', 'total_submissions',
+];
+
+/**
+ * Escapes a value for CSV. Cells that a spreadsheet would read as a formula
+ * are prefixed with a quote so opening an export can't run anything; the
+ * importer drops it again.
+ */
+const toCsvCell = (value: unknown): string => {
+    let text = value === null || value === undefined ? '' : Array.isArray(value) ? value.join('; ') : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = <T>(columns: (keyof T)[], rows: T[]): string => {
+    const lines = [columns.join(','), ...rows.map(row => columns.map(column => toCsvCell(row[column])).join(','))];
+    return `${lines.join('\r\n')}\r\n`;
+};
+
+export const buildSubmissionsCsv = (data: ExportData): string => toCsv(SUBMISSION_COLUMNS, data.submissions);
+
+export const buildProfileCsv = (data: ExportData): string => toCsv(PROFILE_COLUMNS, [data.profile]);
+
+export const buildJson = (data: ExportData): string => JSON.stringify(data, null, 2);
+
+/**
+ * Hands a generated file to the browser as a download.
+ */
+export const downloadFile = (filename: string, contents: string | Blob, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // Some browsers start the download after click() returns; revoking right
+    // away can cancel it.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
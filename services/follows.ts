@@ -0,0 +1,73 @@
+import { supabase } from './supabase';
+import { FollowedUser, FollowingFeedItem, UserNotification } from '../types';
+
+/**
+ * How many feed items the sidebar feed loads.
+ */
+export const FOLLOWING_FEED_LIMIT = 30;
+
+export interface FollowingData {
+    following: FollowedUser[];
+    feed: FollowingFeedItem[];
+    notifications: UserNotification[];
+}
+
+/**
+ * Loads who the user follows, their recent activity, and the user's
+ * notifications, newest first.
+ */
+export const fetchFollowingData = async (userId: string): Promise<FollowingData> => {
+    const [
+        { data: following, error: followingError },
+        { data: feed, error: feedError },
+        { data: notifications, error: notificationsError },
+    ] = await Promise.all([
+        supabase.rpc('get_following'),
+        supabase.rpc('get_following_feed', { p_limit: FOLLOWING_FEED_LIMIT }),
+        supabase
+            .from('notifications')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(FOLLOWING_FEED_LIMIT),
+    ]);
+    if (followingError) throw followingError;
+    if (feedError) throw feedError;
+    if (notificationsError) throw notificationsError;
+
+    return { following: following ?? [], feed: feed ?? [], notifications: notifications ?? [] };
+};
+
+/**
+ * Follows a user by their exact username. Only public profiles can be
+ * followed; fails when no public profile, or more than one, has that name.
+ */
+export const followUser = async (username: string): Promise<void> => {
+    const { error } = await supabase.rpc('follow_user', { p_username: username.trim() });
+    if (error) throw error;
+};
+
+export const unfollowUser = async (userId: string, followeeId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('follows')
+        .delete()
+        .eq('follower_id', userId)
+        .eq('followee_id', followeeId);
+    if (error) throw error;
+};
+
+export const markNotificationsRead = async (userId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+    if (error) throw error;
+};
+
+export const describeNotification = (notification: UserNotification): string => {
+    switch (notification.kind) {
+        case 'passed_longest_streak':
+            return `${notification.actor_username ?? 'Someone you follow'} just passed your longest streak with ${notification.streak} days!`;
+    }
+};
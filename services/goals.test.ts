@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Goal } from '../types';
+import { aggregateByDay } from './activity';
+import { getGoalProgress } from './goals';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const goal = (overrides: Partial<Goal> = {}): Goal => ({
+    id: 1,
+    user_id: 'user-1',
+    created_at: '2026-09-28T08:00:00Z',
+    metric: 'solves',
+    period: 'week',
+    target: 3,
+    tag: null,
+    goal_targets: [{ target: 3, set_at: '2026-09-28T08:00:00Z' }],
+    ...overrides,
+});
+
+/** `count` Easy solves at noon UTC on each day. */
+const solves = (days: Record<string, number>) => aggregateByDay(
+    Object.entries(days).flatMap(([day, count]) =>
+        Array.from({ length: count }, () => ({ date: `${day}T12:00:00Z`, difficulty: 'Easy' as const, problem_name: 'Two Sum' }))),
+    'UTC'
+);
+
+describe('getGoalProgress', () => {
+    // Weeks starting 2026-09-28, 10-05 and 10-12 have 3, 4 and 2 solves; 10-19 is the current week.
+    const activity = solves({ '2026-09-29': 3, '2026-10-06': 4, '2026-10-13': 1, '2026-10-14': 1, '2026-10-19': 2 });
+
+    it('grades finished weeks against the target they had when they ended', () => {
+        const progress = getGoalProgress(goal({
+            target: 5,
+            goal_targets: [
+                { target: 3, set_at: '2026-09-28T08:00:00Z' },
+                // Raised during the week of 10-12, which is graded against it.
+                { target: 5, set_at: '2026-10-15T09:00:00Z' },
+            ],
+        }), activity, 'UTC', '2026-10-20');
+
+        expect(progress.history).toEqual([
+            { startKey: '2026-09-28', value: 3, target: 3, hit: true },
+            { startKey: '2026-10-05', value: 4, target: 3, hit: true },
+            { startKey: '2026-10-12', value: 2, target: 5, hit: false },
+        ]);
+        expect(progress.value).toBe(2);
+    });
+
+    it('falls back to the current target without any recorded', () => {
+        const progress = getGoalProgress(goal({ target: 4, goal_targets: [] }), activity, 'UTC', '2026-10-20');
+
+        expect(progress.history.map(period => period.hit)).toEqual([false, true, false]);
+    });
+});
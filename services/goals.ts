@@ -0,0 +1,199 @@
+import { supabase } from './supabase';
+import { Goal } from '../types';
+import { normalizeTagName } from './tags';
+import { addDaysToKey, dayKeyToDayNumber, dayKeyToInstant, getDayKey, getWeekStartKey } from './streaks';
+import { DayActivity } from './activity';
+
+export type GoalMetric = Goal['metric'];
+export type GoalPeriod = Goal['period'];
+
+export const GOAL_METRICS: { value: GoalMetric; label: string }[] = [
+    { value: 'solves', label: 'Problems solved' },
+    { value: 'hard_solves', label: 'Hard problems solved' },
+    { value: 'minutes', label: 'Minutes practiced' },
+    { value: 'topic', label: 'Problems in a topic' },
+];
+
+export const GOAL_PERIODS: { value: GoalPeriod; label: string }[] = [
+    { value: 'day', label: 'Per day' },
+    { value: 'week', label: 'Per week' },
+    { value: 'month', label: 'Per month' },
+];
+
+/**
+ * How many finished periods each goal's history shows.
+ */
+export const GOAL_HISTORY_LENGTH = 8;
+
+export interface GoalPeriodResult {
+    startKey: string;
+    value: number;
+    /** The target in force when the period ended. */
+    target: number;
+    hit: boolean;
+}
+
+export interface GoalProgress {
+    goal: Goal;
+    /** The current period, as day keys; `endKey` is the first day of the next one. */
+    startKey: string;
+    endKey: string;
+    value: number;
+    daysLeft: number;
+    /** Finished periods since the goal was created, oldest first. */
+    history: GoalPeriodResult[];
+}
+
+export type GoalDraft = Pick<Goal, 'metric' | 'period' | 'target' | 'tag'>;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * One-line summary of a goal, e.g. "5 problems per week".
+ */
+export const describeGoal = (goal: GoalDraft): string => {
+    let amount: string;
+    switch (goal.metric) {
+        case 'solves': amount = plural(goal.target, 'problem'); break;
+        case 'hard_solves': amount = plural(goal.target, 'Hard problem'); break;
+        case 'minutes': amount = plural(goal.target, 'minute'); break;
+        case 'topic': amount = plural(goal.target, `${goal.tag} problem`); break;
+    }
+    return `${amount} per ${goal.period}`;
+};
+
+/**
+ * First day of the period containing `dayKey`. Weeks start on Monday.
+ */
+export const getPeriodStartKey = (dayKey: string, period: GoalPeriod): string => {
+    switch (period) {
+        case 'day': return dayKey;
+        case 'week': return getWeekStartKey(dayKey);
+        case 'month': return `${dayKey.slice(0, 7)}-01`;
+    }
+};
+
+export const getNextPeriodStartKey = (startKey: string, period: GoalPeriod): string => {
+    switch (period) {
+        case 'day': return addDaysToKey(startKey, 1);
+        case 'week': return addDaysToKey(startKey, 7);
+        case 'month': {
+            const [year, month] = startKey.split('-').map(Number);
+            return new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+        }
+    }
+};
+
+const getPreviousPeriodStartKey = (startKey: string, period: GoalPeriod): string =>
+    getPeriodStartKey(addDaysToKey(startKey, -1), period);
+
+const measureDay = (goal: Goal, day: DayActivity): number => {
+    switch (goal.metric) {
+        case 'solves': return day.count;
+        case 'hard_solves': return day.difficulties.Hard;
+        case 'minutes': return day.minutes;
+        case 'topic': {
+            const wanted = normalizeTagName(goal.tag ?? '').toLowerCase();
+            let solves = 0;
+            day.topics.forEach((count, tag) => {
+                if (tag.toLowerCase() === wanted) solves += count;
+            });
+            return solves;
+        }
+    }
+};
+
+/**
+ * The target a period is graded against: the last one set before the period
+ * ended (`endKey` is the first day of the next period), so editing a target
+ * leaves periods that had already finished as they were.
+ */
+const getTargetAt = (goal: Goal, endKey: string, timeZone: string): number => {
+    const end = dayKeyToInstant(endKey, timeZone, 0).getTime();
+    let target: { target: number; set_at: string } | null = null;
+    for (const candidate of goal.goal_targets ?? []) {
+        if (Date.parse(candidate.set_at) < end && (!target || Date.parse(candidate.set_at) >= Date.parse(target.set_at))) {
+            target = candidate;
+        }
+    }
+    return target?.target ?? goal.target;
+};
+
+/**
+ * Works out a goal's progress for the current period and whether each
+ * earlier period since the goal was created was hit, by the target it had then.
+ */
+export const getGoalProgress = (
+    goal: Goal,
+    activityByDay: Map<string, DayActivity>,
+    timeZone: string,
+    todayKey: string
+): GoalProgress => {
+    const totals = new Map<string, number>();
+    for (const [dayKey, day] of activityByDay) {
+        const periodKey = getPeriodStartKey(dayKey, goal.period);
+        const amount = measureDay(goal, day);
+        if (amount > 0) {
+            totals.set(periodKey, (totals.get(periodKey) ?? 0) + amount);
+        }
+    }
+
+    const startKey = getPeriodStartKey(todayKey, goal.period);
+    const endKey = getNextPeriodStartKey(startKey, goal.period);
+    const firstKey = getPeriodStartKey(getDayKey(goal.created_at, timeZone), goal.period);
+
+    const history: GoalPeriodResult[] = [];
+    for (let key = getPreviousPeriodStartKey(startKey, goal.period); key >= firstKey && history.length < GOAL_HISTORY_LENGTH; key = getPreviousPeriodStartKey(key, goal.period)) {
+        const value = totals.get(key) ?? 0;
+        const target = getTargetAt(goal, getNextPeriodStartKey(key, goal.period), timeZone);
+        history.unshift({ startKey: key, value, target, hit: value >= target });
+    }
+
+    return {
+        goal,
+        startKey,
+        endKey,
+        value: totals.get(startKey) ?? 0,
+        daysLeft: dayKeyToDayNumber(endKey) - dayKeyToDayNumber(todayKey),
+        history,
+    };
+};
+
+export const fetchGoals = async (userId: string): Promise<Goal[]> => {
+    const { data, error } = await supabase
+        .from('goals')
+        .select('*, goal_targets(target, set_at)')
+        .eq('user_id', userId)
+        .order('created_at');
+    if (error) throw error;
+    return data ?? [];
+};
+
+export const createGoal = async (userId: string, draft: GoalDraft): Promise<void> => {
+    const { error } = await supabase
+        .from('goals')
+        .insert({
+            user_id: userId,
+            metric: draft.metric,
+            period: draft.period,
+            target: draft.target,
+            tag: draft.metric === 'topic' ? normalizeTagName(draft.tag ?? '') : null,
+        });
+    if (error) throw error;
+};
+
+export const updateGoalTarget = async (goalId: number, target: number): Promise<void> => {
+    const { error } = await supabase
+        .from('goals')
+        .update({ target })
+        .eq('id', goalId);
+    if (error) throw error;
+};
+
+export const deleteGoal = async (goalId: number): Promise<void> => {
+    const { error } = await supabase
+        .from('goals')
+        .delete()
+        .eq('id', goalId);
+    if (error) throw error;
+};
@@ -0,0 +1,123 @@
+import { supabase } from './supabase';
+import { Group, GroupFeedItem, GroupLeaderboardEntry, GroupMember } from '../types';
+import { dayKeyToInstant, getTodayKey, getWeekStartKey } from './streaks';
+
+export type LeaderboardSortKey = 'current_streak' | 'weekly_solves' | 'weekly_score';
+
+export const LEADERBOARD_COLUMNS: { key: LeaderboardSortKey; label: string }[] = [
+    { key: 'current_streak', label: 'Current Streak' },
+    { key: 'weekly_solves', label: 'Solves This Week' },
+    { key: 'weekly_score', label: 'Weekly Score' },
+];
+
+export interface GroupMembership {
+    group: Group;
+    role: GroupMember['role'];
+}
+
+export interface GroupDetails {
+    leaderboard: GroupLeaderboardEntry[];
+    feed: GroupFeedItem[];
+}
+
+/**
+ * Lists the groups the user belongs to, oldest membership first.
+ */
+export const fetchMyGroups = async (userId: string): Promise<GroupMembership[]> => {
+    const { data: memberships, error: membershipsError } = await supabase
+        .from('group_members')
+        .select('*')
+        .eq('user_id', userId)
+        .order('joined_at');
+    if (membershipsError) throw membershipsError;
+    if (!memberships || memberships.length === 0) return [];
+
+    const { data: groups, error: groupsError } = await supabase
+        .from('groups')
+        .select('*')
+        .in('id', memberships.map(m => m.group_id));
+    if (groupsError) throw groupsError;
+
+    const groupsById = new Map((groups ?? []).map(group => [group.id, group]));
+    return memberships
+        .filter(m => groupsById.has(m.group_id))
+        .map(m => ({ group: groupsById.get(m.group_id)!, role: m.role }));
+};
+
+/**
+ * Loads a group's leaderboard and activity feed. "This week" starts on
+ * Monday in the viewer's timezone.
+ */
+export const fetchGroupDetails = async (groupId: number, timeZone: string): Promise<GroupDetails> => {
+    const since = dayKeyToInstant(getWeekStartKey(getTodayKey(timeZone)), timeZone, 0).toISOString();
+    const [{ data: leaderboard, error: leaderboardError }, { data: feed, error: feedError }] = await Promise.all([
+        supabase.rpc('get_group_leaderboard', { p_group_id: groupId, p_since: since }),
+        supabase.rpc('get_group_feed', { p_group_id: groupId }),
+    ]);
+    if (leaderboardError) throw leaderboardError;
+    if (feedError) throw feedError;
+
+    return { leaderboard: leaderboard ?? [], feed: feed ?? [] };
+};
+
+/**
+ * Orders leaderboard entries by the chosen column, breaking ties with the
+ * other columns and then by name.
+ */
+export const rankLeaderboard = (entries: GroupLeaderboardEntry[], sortKey: LeaderboardSortKey): GroupLeaderboardEntry[] => {
+    const keys = [sortKey, ...LEADERBOARD_COLUMNS.map(c => c.key).filter(key => key !== sortKey)];
+    return [...entries].sort((a, b) => {
+        for (const key of keys) {
+            if (a[key] !== b[key]) return b[key] - a[key];
+        }
+        return (a.username ?? '').localeCompare(b.username ?? '');
+    });
+};
+
+export const createGroup = async (name: string): Promise<Group> => {
+    const { data, error } = await supabase.rpc('create_group', { p_name: name.trim() });
+    if (error) throw error;
+    return data;
+};
+
+export const joinGroup = async (inviteCode: string): Promise<Group> => {
+    const { data, error } = await supabase.rpc('join_group_by_code', { p_invite_code: inviteCode.trim() });
+    if (error) throw error;
+    return data;
+};
+
+export const leaveGroup = async (groupId: number): Promise<void> => {
+    const { error } = await supabase.rpc('leave_group', { p_group_id: groupId });
+    if (error) throw error;
+};
+
+export const regenerateInviteCode = async (groupId: number): Promise<string> => {
+    const { data, error } = await supabase.rpc('regenerate_invite_code', { p_group_id: groupId });
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Admin only: promotes or demotes a member. The database refuses any change
+ * that would leave the group without an admin.
+ */
+export const setMemberRole = async (groupId: number, userId: string, role: GroupMember['role']): Promise<void> => {
+    const { error } = await supabase
+        .from('group_members')
+        .update({ role })
+        .eq('group_id', groupId)
+        .eq('user_id', userId);
+    if (error) throw error;
+};
+
+/**
+ * Admin only: removes another member from the group.
+ */
+export const removeMember = async (groupId: number, userId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('group_members')
+        .delete()
+        .eq('group_id', groupId)
+        .eq('user_id', userId);
+    if (error) throw error;
+};
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Submission } from '../types';
+import { csvToRecords, guessColumnMapping, jsonToRecords, normalizeDifficulty, parseCsv, RawImportRecord, validateRecords } from './importer';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+describe('parseCsv', () => {
+    it('keeps commas, line breaks and escaped quotes inside quoted fields', () => {
+        const text = '\uFEFFname,notes\r\n"Two Sum, again","line one\nline two"\r\n\r\n"Say ""hi""",plain\n';
+
+        expect(parseCsv(text)).toEqual([
+            ['name', 'notes'],
+            ['Two Sum, again', 'line one\nline two'],
+            ['Say "hi"', 'plain'],
+        ]);
+    });
+
+    it('keeps a last row without a trailing newline', () => {
+        expect(parseCsv('a,b\n1,')).toEqual([['a', 'b'], ['1', '']]);
+    });
+});
+
+describe('guessColumnMapping', () => {
+    it('matches common header names regardless of case and spacing', () => {
+        expect(guessColumnMapping(['Title', 'Solved At', 'Level', 'Judge', 'URL', 'Notes', 'Topics', 'Extra'])).toEqual({
+            problem_name: 0,
+            date: 1,
+            difficulty: 2,
+            platform: 3,
+            link: 4,
+            description: 5,
+            tags: 6,
+        });
+    });
+});
+
+describe('csvToRecords', () => {
+    it('reads mapped columns and numbers rows as a spreadsheet would', () => {
+        const rows = [['name', 'date'], ['Two Sum', '2026-10-01'], ["'=Plus One", '2026-10-02']];
+
+        expect(csvToRecords(rows, { problem_name: 0, date: 1 })).toEqual([
+            { rowNumber: 2, values: { problem_name: 'Two Sum', date: '2026-10-01' } },
+            // The quote an export puts before formula-like cells is dropped.
+            { rowNumber: 3, values: { problem_name: '=Plus One', date: '2026-10-02' } },
+        ]);
+    });
+});
+
+describe('jsonToRecords', () => {
+    it('reads accepted solves from a LeetCode submissions dump', () => {
+        const dump = {
+            submissions_dump: [
+                { title: 'Two Sum', title_slug: 'two-sum', timestamp: 1790856000, status_display: 'Accepted' },
+                { title: 'Two Sum', title_slug: 'two-sum', timestamp: 1790855000, status_display: 'Wrong Answer' },
+                { title_slug: 'valid-anagram', timestamp: '1790942400', status_display: 'Accepted' },
+            ],
+        };
+
+        expect(jsonToRecords(dump)).toEqual({
+            source: 'leetcode',
+            records: [
+                { rowNumber: 1, values: { problem_name: 'Two Sum', date: '2026-10-01T12:00:00.000Z', difficulty: '', platform: 'LeetCode', link: 'https://leetcode.com/problems/two-sum/' } },
+                { rowNumber: 3, values: { problem_name: 'valid-anagram', date: '2026-10-02T12:00:00.000Z', difficulty: '', platform: 'LeetCode', link: 'https://leetcode.com/problems/valid-anagram/' } },
+            ],
+        });
+    });
+
+    it('reads accepted solves from a Codeforces user.status response', () => {
+        const response = {
+            status: 'OK',
+            result: [
+                { creationTimeSeconds: 1790856000, verdict: 'OK', problem: { contestId: 4, index: 'A', name: 'Watermelon', rating: 800, tags: ['math', 'brute force'] } },
+                { creationTimeSeconds: 1790855000, verdict: 'WRONG_ANSWER', problem: { contestId: 4, index: 'A', name: 'Watermelon' } },
+                { creationTimeSeconds: 1790942400, verdict: 'OK', problem: { name: 'Gym problem', rating: 2100 } },
+            ],
+        };
+
+        expect(jsonToRecords(response)).toEqual({
+            source: 'codeforces',
+            records: [
+                { rowNumber: 1, values: { problem_name: 'Watermelon', date: '2026-10-01T12:00:00.000Z', difficulty: 'Easy', platform: 'Codeforces', link: 'https://codeforces.com/problemset/problem/4/A', tags: 'math;brute force' } },
+                { rowNumber: 3, values: { problem_name: 'Gym problem', date: '2026-10-02T12:00:00.000Z', difficulty: 'Hard', platform: 'Codeforces', link: '', tags: '' } },
+            ],
+        });
+    });
+
+    it.each([
+        { name: 'an object of another shape', json: { problems: [] } },
+        { name: 'an array', json: [{ title: 'Two Sum' }] },
+        { name: 'null', json: null },
+    ])('rejects $name', ({ json }) => {
+        expect(() => jsonToRecords(json)).toThrow('Unrecognized JSON format');
+    });
+});
+
+describe('normalizeDifficulty', () => {
+    it.each([
+        { value: 'easy', expected: 'Easy' },
+        { value: ' MED ', expected: 'Medium' },
+        { value: 'h', expected: 'Hard' },
+        { value: '2', expected: 'Medium' },
+        { value: 'insane', expected: null },
+    ])('reads "$value" as $expected', ({ value, expected }) => {
+        expect(normalizeDifficulty(value)).toBe(expected);
+    });
+});
+
+const existingSubmission = (overrides: Partial<Submission> & Pick<Submission, 'id' | 'date' | 'problem_name'>): Submission => ({
+    user_id: 'user-1',
+    created_at: overrides.date,
+    difficulty: 'Medium',
+    link: null,
+    platform: null,
+    description: null,
+    is_backdated: false,
+    counts_toward_streak: true,
+    time_spent_minutes: null,
+    client_id: null,
+    problem_id: null,
+    ...overrides,
+});
+
+const record = (rowNumber: number, values: RawImportRecord['values']): RawImportRecord => ({ rowNumber, values });
+
+describe('validateRecords', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('fills in the fallback difficulty and reports unusable rows', () => {
+        const rows = validateRecords([
+            record(2, { problem_name: 'Two Sum', date: '2026-10-01' }),
+            record(3, { problem_name: 'Two Sum', date: '2026-10-01', difficulty: 'insane' }),
+            record(4, { problem_name: '', date: 'someday' }),
+            record(5, { problem_name: 'Three Sum', date: '2026-10-25' }),
+        ], [], 'UTC', 'Hard');
+
+        expect(rows[0].submission).toMatchObject({ problem_name: 'Two Sum', difficulty: 'Hard', date: '2026-10-01T12:00:00.000Z', is_backdated: true });
+        expect(rows[1].errors).toEqual(['Invalid difficulty "insane" (expected Easy, Medium or Hard)']);
+        expect(rows[2].errors).toEqual(['Missing problem name', 'Unrecognized date "someday"']);
+        expect(rows[3].errors).toEqual(['Date is in the future']);
+        expect(rows.slice(1).map(row => row.submission)).toEqual([null, null, null]);
+    });
+
+    it('flags rows that match an existing solve by link or name on the same day', () => {
+        const existing = [
+            existingSubmission({ id: 1, date: '2026-10-01T23:30:00Z', problem_name: 'Two Sum', link: 'https://leetcode.com/problems/two-sum/' }),
+            existingSubmission({ id: 2, date: '2026-10-03T12:00:00Z', problem_name: 'Valid Anagram' }),
+        ];
+
+        const rows = validateRecords([
+            // The existing 23:30 UTC solve already falls on 10-02 in Berlin.
+            record(2, { problem_name: '1. Two Sum', date: '2026-10-02T06:00:00Z', link: 'http://www.LeetCode.com/problems/two-sum' }),
+            record(3, { problem_name: 'valid anagram', date: '2026-10-03T08:00:00Z' }),
+            // The same problem again on another day is a new solve.
+            record(4, { problem_name: 'Two Sum', date: '2026-10-05T08:00:00Z', link: 'https://leetcode.com/problems/two-sum/' }),
+        ], existing, 'Europe/Berlin', 'Medium');
+
+        expect(rows.map(row => row.duplicate)).toEqual([true, true, false]);
+    });
+
+    it('flags rows that repeat an earlier row of the same file on the same day', () => {
+        const rows = validateRecords([
+            record(2, { problem_name: 'Two Sum', date: '2026-10-01', link: 'https://leetcode.com/problems/two-sum/' }),
+            record(3, { problem_name: 'Two Sum (retry)', date: '2026-10-01', link: 'https://leetcode.com/problems/two-sum' }),
+            record(4, { problem_name: 'two sum', date: '2026-10-01' }),
+            record(5, { problem_name: 'Two Sum', date: '2026-10-02', link: 'https://leetcode.com/problems/two-sum/' }),
+        ], [], 'UTC', 'Easy');
+
+        expect(rows.map(row => row.duplicate)).toEqual([false, true, true, false]);
+    });
+});
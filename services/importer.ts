@@ -0,0 +1,369 @@
+import { submissionsRepo } from './submissionsRepo';
+import { Database, Submission } from '../types';
+import { dayKeyToInstant, getDayKey, getTodayKey } from './streaks';
+import { addTagsToSubmissions } from './tags';
+
+type SubmissionInsert = Database['public']['Tables']['submissions']['Insert'];
+type Difficulty = Submission['difficulty'];
+
+const IMPORT_BATCH_SIZE = 100;
+
+export type ImportSource = 'csv' | 'leetcode' | 'codeforces';
+
+/**
+ * Submission fields a CSV column can be mapped onto.
+ */
+export type ImportField = 'problem_name' | 'date' | 'difficulty' | 'platform' | 'link' | 'description' | 'tags';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+    { field: 'problem_name', label: 'Problem Name', required: true },
+    { field: 'date', label: 'Solve Date', required: true },
+    { field: 'difficulty', label: 'Difficulty', required: false },
+    { field: 'platform', label: 'Platform', required: false },
+    { field: 'link', label: 'Link', required: false },
+    { field: 'description', label: 'Notes', required: false },
+    { field: 'tags', label: 'Tags', required: false },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * A source record before validation; every value is still raw text.
+ */
+export interface RawImportRecord {
+    rowNumber: number;
+    values: Partial<Record<ImportField, string>>;
+}
+
+export interface ImportRow {
+    rowNumber: number;
+    problemName: string;
+    submission: Omit<SubmissionInsert, 'user_id'> | null;
+    tags: string[];
+    errors: string[];
+    duplicate: boolean;
+}
+
+export interface ImportReport {
+    inserted: number;
+    failed: { rowNumber: number; error: string }[];
+}
+
+/**
+ * Parses RFC 4180 CSV text (quoted fields, escaped quotes, CRLF or LF line
+ * endings) into rows of cells. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    problem_name: ['problem_name', 'problem', 'name', 'title', 'question'],
+    date: ['date', 'solved_at', 'solve_date', 'timestamp', 'created_at', 'submitted_at'],
+    difficulty: ['difficulty', 'level'],
+    platform: ['platform', 'site', 'judge', 'source'],
+    link: ['link', 'url', 'problem_url'],
+    description: ['description', 'notes', 'note', 'comments'],
+    tags: ['tags', 'topics', 'topic', 'category'],
+};
+
+/**
+ * Undoes the quote our CSV export puts in front of cells a spreadsheet would
+ * read as a formula (toCsvCell in services/export.ts), so a re-imported
+ * "-1 trick" doesn't come back as "'-1 trick".
+ */
+const unescapeFormula = (cell: string): string => /^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell;
+
+/**
+ * Guesses a column mapping from a CSV header row.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(h => h.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    const mapping: ColumnMapping = {};
+    (Object.keys(HEADER_ALIASES) as ImportField[]).forEach(field => {
+        const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+        if (index !== -1) {
+            mapping[field] = index;
+        }
+    });
+    return mapping;
+};
+
+export const csvToRecords = (rows: string[][], mapping: ColumnMapping): RawImportRecord[] => {
+    return rows.slice(1).map((cells, i) => {
+        const values: RawImportRecord['values'] = {};
+        (Object.keys(mapping) as ImportField[]).forEach(field => {
+            const index = mapping[field];
+            if (index !== undefined && cells[index] !== undefined) {
+                values[field] = unescapeFormula(cells[index]);
+            }
+        });
+        // +2: one for the header row, one because spreadsheets count from 1.
+        return { rowNumber: i + 2, values };
+    });
+};
+
+const codeforcesDifficulty = (rating?: number): string => {
+    if (!rating) return '';
+    if (rating < 1200) return 'Easy';
+    if (rating < 1900) return 'Medium';
+    return 'Hard';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A string or number from parsed JSON as text; anything else as ''. */
+const jsonText = (value: unknown): string =>
+    typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+/** Seconds since the epoch, as a number or numeric string, as an ISO date. */
+const epochSecondsToIso = (value: unknown): string => {
+    const text = jsonText(value);
+    const seconds = Number(text);
+    return text && Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : '';
+};
+
+/**
+ * Reads the JSON shapes produced by common judges:
+ * - LeetCode submission dumps: `{ submissions_dump: [{ title, title_slug, timestamp, status_display }] }`
+ * - Codeforces `user.status` API responses: `{ result: [{ creationTimeSeconds, verdict, problem }] }`
+ * Only accepted submissions are kept. Fields of the wrong type are read as
+ * missing, which validation then reports per row.
+ */
+export const jsonToRecords = (json: unknown): { source: ImportSource; records: RawImportRecord[] } => {
+    const dump = isObject(json) ? json.submissions_dump : undefined;
+    if (Array.isArray(dump)) {
+        const records = dump
+            .map((entry: unknown, i: number): RawImportRecord | null => {
+                const s = isObject(entry) ? entry : {};
+                const status = jsonText(s.status_display);
+                if (status && status !== 'Accepted') return null;
+                const slug = jsonText(s.title_slug);
+                return {
+                    rowNumber: i + 1,
+                    values: {
+                        problem_name: jsonText(s.title) || slug,
+                        date: epochSecondsToIso(s.timestamp),
+                        difficulty: jsonText(s.difficulty),
+                        platform: 'LeetCode',
+                        link: slug ? `https://leetcode.com/problems/${slug}/` : '',
+                    },
+                };
+            })
+            .filter((record): record is RawImportRecord => !!record);
+        return { source: 'leetcode', records };
+    }
+    const results = isObject(json) ? json.result : undefined;
+    if (Array.isArray(results)) {
+        const records = results
+            .map((entry: unknown, i: number): RawImportRecord | null => {
+                const s = isObject(entry) ? entry : {};
+                const verdict = jsonText(s.verdict);
+                if (verdict && verdict !== 'OK') return null;
+                const problem = isObject(s.problem) ? s.problem : {};
+                const contestId = jsonText(problem.contestId);
+                const index = jsonText(problem.index);
+                const link = contestId && index
+                    ? `https://codeforces.com/problemset/problem/${contestId}/${index}`
+                    : '';
+                return {
+                    rowNumber: i + 1,
+                    values: {
+                        problem_name: jsonText(problem.name),
+                        date: epochSecondsToIso(s.creationTimeSeconds),
+                        difficulty: codeforcesDifficulty(typeof problem.rating === 'number' ? problem.rating : undefined),
+                        platform: 'Codeforces',
+                        link,
+                        tags: Array.isArray(problem.tags) ? problem.tags.filter(tag => typeof tag === 'string').join(';') : '',
+                    },
+                };
+            })
+            .filter((record): record is RawImportRecord => !!record);
+        return { source: 'codeforces', records };
+    }
+    throw new Error('Unrecognized JSON format. Expected a LeetCode submissions dump or a Codeforces user.status response.');
+};
+
+const DIFFICULTY_ALIASES: Record<string, Difficulty> = {
+    easy: 'Easy', e: 'Easy', '1': 'Easy',
+    medium: 'Medium', med: 'Medium', m: 'Medium', '2': 'Medium',
+    hard: 'Hard', h: 'Hard', '3': 'Hard',
+};
+
+/**
+ * Maps free-form difficulty text onto the `'Easy' | 'Medium' | 'Hard'` union.
+ */
+export const normalizeDifficulty = (value: string): Difficulty | null => DIFFICULTY_ALIASES[value.trim().toLowerCase()] ?? null;
+
+/**
+ * Turns a date cell into an instant. Bare yyyy-MM-dd days are anchored in
+ * the user's timezone; anything else must be a parseable timestamp.
+ */
+const parseImportDate = (value: string, timeZone: string): string | null => {
+    const trimmed = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+        return dayKeyToInstant(trimmed, timeZone).toISOString();
+    }
+    const time = Date.parse(trimmed);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+const normalizeLink = (link: string): string => link.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '');
+
+/**
+ * Validates raw records and flags duplicates, both against existing
+ * submissions and earlier rows in the same file. A row is a duplicate when
+ * its link or its name matches on the same day (in `timeZone`); solving the
+ * same problem again on another day is a new solve.
+ */
+export const validateRecords = (
+    records: RawImportRecord[],
+    existing: Submission[],
+    timeZone: string,
+    fallbackDifficulty: Difficulty
+): ImportRow[] => {
+    const seenLinkDays = new Set(existing.filter(s => s.link).map(s => `${normalizeLink(s.link!)}|${getDayKey(s.date, timeZone)}`));
+    const seenNameDays = new Set(existing.map(s => `${s.problem_name.trim().toLowerCase()}|${getDayKey(s.date, timeZone)}`));
+    const todayKey = getTodayKey(timeZone);
+
+    return records.map(({ rowNumber, values }) => {
+        const errors: string[] = [];
+        const problemName = values.problem_name?.trim() ?? '';
+        if (!problemName) {
+            errors.push('Missing problem name');
+        }
+
+        const date = values.date ? parseImportDate(values.date, timeZone) : null;
+        if (!date) {
+            errors.push(values.date ? `Unrecognized date "${values.date}"` : 'Missing date');
+        } else if (getDayKey(date, timeZone) > todayKey) {
+            errors.push('Date is in the future');
+        }
+
+        let difficulty: Difficulty | null = fallbackDifficulty;
+        if (values.difficulty?.trim()) {
+            difficulty = normalizeDifficulty(values.difficulty);
+            if (!difficulty) {
+                errors.push(`Invalid difficulty "${values.difficulty}" (expected Easy, Medium or Hard)`);
+            }
+        }
+
+        const tags = (values.tags ?? '').split(/[;,|]/).map(t => t.trim()).filter(Boolean);
+
+        if (errors.length > 0 || !date || !difficulty) {
+            return { rowNumber, problemName, submission: null, tags, errors, duplicate: false };
+        }
+
+        const link = values.link?.trim() || null;
+        const dayKey = getDayKey(date, timeZone);
+        const linkDay = link ? `${normalizeLink(link)}|${dayKey}` : null;
+        const nameDay = `${problemName.toLowerCase()}|${dayKey}`;
+        const duplicate = (linkDay !== null && seenLinkDays.has(linkDay)) || seenNameDays.has(nameDay);
+        if (linkDay) seenLinkDays.add(linkDay);
+        seenNameDays.add(nameDay);
+
+        return {
+            rowNumber,
+            problemName,
+            submission: {
+                date,
+                problem_name: problemName,
+                difficulty,
+                platform: values.platform?.trim() || null,
+                link,
+                description: values.description?.trim() || null,
+                is_backdated: dayKey < todayKey,
+            },
+            tags,
+            errors,
+            duplicate,
+        };
+    });
+};
+
+/**
+ * Inserts valid rows in batches. When a batch is rejected, its rows are
+ * retried one at a time so the report can point at the offending rows.
+ */
+export const insertImportRows = async (
+    userId: string,
+    rows: ImportRow[],
+    onProgress?: (done: number) => void
+): Promise<ImportReport> => {
+    const report: ImportReport = { inserted: 0, failed: [] };
+    const tagsBySubmission = new Map<number, string[]>();
+    const valid = rows.filter(row => row.submission);
+
+    const insert = async (batch: ImportRow[]) => {
+        const inserted = await submissionsRepo.import(batch.map(row => ({ ...row.submission!, user_id: userId })));
+        inserted.forEach((submission, i) => {
+            if (batch[i].tags.length > 0) {
+                tagsBySubmission.set(submission.id, batch[i].tags);
+            }
+        });
+        report.inserted += batch.length;
+    };
+
+    for (let start = 0; start < valid.length; start += IMPORT_BATCH_SIZE) {
+        const batch = valid.slice(start, start + IMPORT_BATCH_SIZE);
+        try {
+            await insert(batch);
+        } catch {
+            for (const row of batch) {
+                try {
+                    await insert([row]);
+                } catch (err: any) {
+                    report.failed.push({ rowNumber: row.rowNumber, error: err.message });
+                }
+            }
+        }
+        onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, valid.length));
+    }
+
+    if (tagsBySubmission.size > 0) {
+        try {
+            await addTagsToSubmissions(userId, tagsBySubmission);
+        } catch (err: any) {
+            report.failed.push({ rowNumber: 0, error: `Submissions were imported but tags could not be saved: ${err.message}` });
+        }
+    }
+
+    return report;
+};
@@ -0,0 +1,173 @@
+import { Profile, Submission } from '../types';
+import { DataBackend, SubmissionInsert } from './backend';
+import { queryLocalSubmissions } from './submissionQueries';
+import { aggregateByDay } from './activity';
+import { countSolvesByProblem } from './problems';
+import { addDaysToKey, calculateStreaks, DEFAULT_BACKFILL_WINDOW_DAYS, getDayKey, getStreakOptions, getTodayKey, resolveTimeZone } from './streaks';
+
+export interface MemoryBackendSeed {
+    profiles?: Profile[];
+    submissions?: Submission[];
+}
+
+const PROFILE_DEFAULTS: Omit<Profile, 'id'> = {
+    updated_at: null,
+    username: null,
+    current_streak: 0,
+    longest_streak: 0,
+    streak_goal: 30,
+    timezone: null,
+    streak_freezes: 0,
+    rest_days: [],
+    backfill_window_days: 3,
+    reviews_count_toward_streak: false,
+    is_public: false,
+    public_show_notes: false,
+    public_show_links: false,
+    reminder_times: [],
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+};
+
+const uniqueViolation = (message: string) => ({ code: '23505', message });
+
+const byDateDesc = (a: Submission, b: Submission) => Date.parse(b.date) - Date.parse(a.date) || b.id - a.id;
+
+/**
+ * A `DataBackend` that keeps everything in memory, for rendering and testing
+ * components without Supabase. It mirrors the database where the app relies
+ * on it: ids are assigned on insert, `client_id` is unique, imports before
+ * the backfill window don't count toward streaks, deletes can be restored,
+ * and streaks are recalculated whenever a user's submissions or streak
+ * settings change.
+ * Review history and tags aren't stored, so reviews never count toward
+ * streaks and summaries carry no topics here.
+ */
+export const createMemoryBackend = (seed: MemoryBackendSeed = {}): DataBackend => {
+    const profiles = new Map<string, Profile>((seed.profiles ?? []).map(p => [p.id, { ...p }]));
+    const submissions = new Map<number, Submission>((seed.submissions ?? []).map(s => [s.id, { ...s }]));
+    const deleted = new Map<number, Submission>();
+    let nextId = Math.max(0, ...submissions.keys()) + 1;
+
+    const ownRows = (userId: string) => [...submissions.values()].filter(s => s.user_id === userId);
+
+    const refreshStreaks = (userId: string) => {
+        const profile = profiles.get(userId);
+        if (!profile) return;
+        const dates = ownRows(userId).filter(s => s.counts_toward_streak).map(s => s.date);
+        const { currentStreak, longestStreak } = calculateStreaks(dates, resolveTimeZone(profile.timezone), getStreakOptions(profile));
+        profiles.set(userId, { ...profile, current_streak: currentStreak, longest_streak: longestStreak });
+    };
+
+    const isBeforeBackfillWindow = (row: SubmissionInsert) => {
+        const profile = profiles.get(row.user_id);
+        const timeZone = resolveTimeZone(profile?.timezone);
+        const windowDays = profile?.backfill_window_days ?? DEFAULT_BACKFILL_WINDOW_DAYS;
+        return getDayKey(row.date, timeZone) < addDaysToKey(getTodayKey(timeZone), -windowDays);
+    };
+
+    const insertRows = (rows: SubmissionInsert[], prepare: (row: SubmissionInsert) => Partial<Submission> = () => ({})) => {
+        const inserted: Submission[] = [];
+        for (const row of rows) {
+            if (row.id !== undefined && submissions.has(row.id)) {
+                throw uniqueViolation('duplicate key value violates unique constraint "submissions_pkey"');
+            }
+            if (row.client_id && [...submissions.values()].some(s => s.client_id === row.client_id)) {
+                throw uniqueViolation('duplicate key value violates unique constraint "submissions_client_id_key"');
+            }
+        }
+        for (const row of rows) {
+            const submission: Submission = {
+                created_at: new Date().toISOString(),
+                link: null,
+                platform: null,
+                description: null,
+                is_backdated: false,
+                counts_toward_streak: true,
+                time_spent_minutes: null,
+                client_id: null,
+                problem_id: null,
+                ...row,
+                ...prepare(row),
+                id: row.id ?? nextId++,
+            };
+            nextId = Math.max(nextId, submission.id + 1);
+            submissions.set(submission.id, submission);
+            inserted.push({ ...submission });
+        }
+        new Set(inserted.map(s => s.user_id)).forEach(refreshStreaks);
+        return inserted;
+    };
+
+    return {
+        submissions: {
+            listByUser: async (userId, since) =>
+                ownRows(userId).filter(s => !since || Date.parse(s.date) >= Date.parse(since)).sort(byDateDesc).map(s => ({ ...s })),
+            listByIds: async (ids) =>
+                ids.map(id => submissions.get(id)).filter((s): s is Submission => !!s).map(s => ({ ...s })),
+            summarize: async (userId, before, timeZone) =>
+                aggregateByDay(ownRows(userId).filter(s => Date.parse(s.date) < Date.parse(before)), timeZone),
+            countSolves: async (userId, ids) => {
+                const counts = countSolvesByProblem(ownRows(userId));
+                return new Map<number, number>(ids.filter(id => counts.has(id)).map(id => [id, counts.get(id)!]));
+            },
+            page: async (userId, filters, page, timeZone) => queryLocalSubmissions(ownRows(userId), filters, page, timeZone),
+            getById: async (id) => {
+                const row = submissions.get(id);
+                return row ? { ...row } : null;
+            },
+            getByClientId: async (clientId) => {
+                const row = [...submissions.values()].find(s => s.client_id === clientId);
+                return row ? { ...row } : null;
+            },
+            insert: async (rows) => insertRows(rows),
+            import: async (rows) => insertRows(rows, row => ({ counts_toward_streak: !isBeforeBackfillWindow(row) })),
+            restore: async (ids) => {
+                const rows = ids.map(id => deleted.get(id)).filter((s): s is Submission => !!s);
+                const restored = insertRows(rows);
+                rows.forEach(s => deleted.delete(s.id));
+                return restored;
+            },
+            update: async (id, changes) => {
+                const current = submissions.get(id);
+                if (!current) {
+                    throw { code: 'PGRST116', message: 'The result contains 0 rows' };
+                }
+                const updated = { ...current, ...changes, id } as Submission;
+                submissions.set(id, updated);
+                refreshStreaks(updated.user_id);
+                return { ...updated };
+            },
+            remove: async (ids) => {
+                const removed = ids.map(id => submissions.get(id)).filter((s): s is Submission => !!s);
+                removed.forEach(s => {
+                    submissions.delete(s.id);
+                    deleted.set(s.id, s);
+                });
+                new Set(removed.map(s => s.user_id)).forEach(refreshStreaks);
+                return removed;
+            },
+        },
+        profiles: {
+            get: async (id) => {
+                const profile = profiles.get(id);
+                return profile ? { ...profile } : null;
+            },
+            insert: async (row) => {
+                if (profiles.has(row.id)) {
+                    throw uniqueViolation('duplicate key value violates unique constraint "profiles_pkey"');
+                }
+                // Streak columns belong to the database, as with the real column grants.
+                profiles.set(row.id, { ...PROFILE_DEFAULTS, ...row, current_streak: 0, longest_streak: 0, streak_freezes: 0 });
+                refreshStreaks(row.id);
+                return { ...profiles.get(row.id)! };
+            },
+            update: async (id, changes) => {
+                const current = profiles.get(id);
+                if (!current) return;
+                profiles.set(id, { ...current, ...changes, id });
+                refreshStreaks(id);
+            },
+        },
+    };
+};
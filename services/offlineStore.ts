@@ -0,0 +1,89 @@
+import { Profile, ReviewTime, Submission } from '../types';
+import { DayActivity } from './activity';
+
+const DB_NAME = 'dsa-streak-offline';
+const DB_VERSION = 1;
+
+export const SNAPSHOT_STORE = 'snapshots';
+export const OUTBOX_STORE = 'outbox';
+
+export interface OfflineSnapshot {
+    userId: string;
+    savedAt: string;
+    profile: Profile;
+    /** The recent submissions the app had loaded, dated `activitySince` or later. */
+    submissions: Submission[];
+    /** Per-day totals for the days before `activitySince`. Missing in copies saved before the app loaded only recent rows. */
+    olderActivity?: Map<string, DayActivity>;
+    activitySince?: string;
+    tagsBySubmission: Map<number, string[]>;
+    /** Needed for streaks when reviews count toward them. */
+    reviewEvents: ReviewTime[];
+}
+
+export type OfflineSnapshotData = Omit<OfflineSnapshot, 'userId' | 'savedAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                    db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'userId' });
+                }
+                if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+                    db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs one request against a store and resolves with its result once the
+ * transaction has committed.
+ */
+export const runStoreRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = makeRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Mirrors the last profile and submissions loaded from Supabase, so the app
+ * can start and show streaks without a connection.
+ */
+export const saveSnapshot = (userId: string, data: OfflineSnapshotData): Promise<IDBValidKey> =>
+    runStoreRequest(SNAPSHOT_STORE, 'readwrite', store => store.put({
+        ...data,
+        userId,
+        savedAt: new Date().toISOString(),
+    } satisfies OfflineSnapshot));
+
+export const loadSnapshot = async (userId: string): Promise<OfflineSnapshot | null> =>
+    (await runStoreRequest<OfflineSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(userId))) ?? null;
+
+/**
+ * Forgets the mirrored data on sign-out. Queued writes are kept and replay
+ * the next time the same user signs in, so nothing logged offline is lost.
+ */
+export const clearSnapshot = (userId: string): Promise<undefined> =>
+    runStoreRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(userId));
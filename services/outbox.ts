@@ -0,0 +1,292 @@
+import { Submission } from '../types';
+import { SubmissionInsert, SubmissionUpdate } from './backend';
+import { submissionsRepo } from './submissionsRepo';
+import { OUTBOX_STORE, runStoreRequest } from './offlineStore';
+import { saveSubmissionTags } from './tags';
+import { removeSubmissionReview, scheduleSubmissionReview } from './reviews';
+
+/**
+ * Everything SubmissionModal saves in one go, in a form that can be written
+ * now or stored and written later.
+ */
+export type SubmissionWrite =
+    | {
+        kind: 'insert';
+        submission: SubmissionInsert;
+        tags: string[];
+        reviewQueued: boolean;
+        solveDay: string;
+    }
+    | {
+        kind: 'update';
+        /** The row as it was when the edit started, for spotting conflicts on replay. */
+        base: Submission;
+        changes: SubmissionUpdate;
+        tags: string[];
+        review: 'schedule' | 'remove' | null;
+        solveDay: string;
+    };
+
+export interface OutboxEntry {
+    id: number;
+    userId: string;
+    queuedAt: string;
+    write: SubmissionWrite;
+}
+
+export interface ReplayResult {
+    applied: number;
+    conflicts: string[];
+}
+
+/**
+ * Whether a failed request failed for lack of a connection rather than
+ * because Supabase rejected it. supabase-js reports fetch failures as an
+ * error object carrying the browser's message.
+ */
+export const isNetworkError = (err: unknown): boolean => {
+    if (!navigator.onLine) return true;
+    const message = typeof err === 'object' && err !== null && 'message' in err && typeof err.message === 'string' ? err.message : '';
+    return /Failed to fetch|NetworkError|Load failed|network connection was lost/i.test(message);
+};
+
+/**
+ * Submissions created offline are shown with a negative id (minus their
+ * outbox entry id) until they sync.
+ */
+export const isQueuedSubmissionId = (id: number): boolean => id < 0;
+
+/**
+ * Writes a submission along with its tags and review schedule. Inserts carry
+ * a `client_id`, so writing the same insert twice (a retry after the reply
+ * was lost) finds the first copy instead of failing.
+ */
+export const writeSubmission = async (userId: string, write: SubmissionWrite): Promise<number> => {
+    if (write.kind === 'insert') {
+        let id: number;
+        try {
+            [{ id }] = await submissionsRepo.insert([write.submission]);
+        } catch (err: any) {
+            if (err?.code !== '23505' || !write.submission.client_id) throw err;
+            const existing = await submissionsRepo.findByClientId(write.submission.client_id);
+            if (!existing) throw err;
+            id = existing.id;
+        }
+        if (write.tags.length > 0) {
+            await saveSubmissionTags(userId, id, write.tags);
+        }
+        if (write.reviewQueued) {
+            await scheduleSubmissionReview(userId, id, write.solveDay);
+        }
+        return id;
+    }
+
+    // After resolveUpdate a replayed edit may have no fields left, only tags.
+    if (Object.keys(write.changes).length > 0) {
+        await submissionsRepo.update(write.base.id, write.changes);
+    }
+    await saveSubmissionTags(userId, write.base.id, write.tags);
+    if (write.review === 'schedule') {
+        await scheduleSubmissionReview(userId, write.base.id, write.solveDay);
+    } else if (write.review === 'remove') {
+        await removeSubmissionReview(write.base.id);
+    }
+    return write.base.id;
+};
+
+export const getQueuedEntries = async (userId: string): Promise<OutboxEntry[]> => {
+    const entries = await runStoreRequest<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+    return entries.filter(entry => entry.userId === userId).sort((a, b) => a.id - b.id);
+};
+
+const putEntry = (entry: Omit<OutboxEntry, 'id'> | OutboxEntry) =>
+    runStoreRequest(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+
+const removeEntry = (id: number) =>
+    runStoreRequest(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+
+/**
+ * Stores a write to replay once back online. Edits to something already
+ * queued are folded into that entry, so each submission has at most one.
+ */
+export const queueSubmissionWrite = async (userId: string, write: SubmissionWrite): Promise<void> => {
+    const entries = await getQueuedEntries(userId);
+
+    if (write.kind === 'update' && isQueuedSubmissionId(write.base.id)) {
+        const entry = entries.find(e => e.id === -write.base.id);
+        if (!entry || entry.write.kind !== 'insert') {
+            throw new Error('This offline entry has already synced. Refresh and try again.');
+        }
+        await putEntry({
+            ...entry,
+            write: {
+                ...entry.write,
+                submission: { ...entry.write.submission, ...write.changes } as SubmissionInsert,
+                tags: write.tags,
+                reviewQueued: write.review === null ? entry.write.reviewQueued : write.review === 'schedule',
+                solveDay: write.solveDay,
+            },
+        });
+        return;
+    }
+
+    if (write.kind === 'update') {
+        const entry = entries.find(e => e.write.kind === 'update' && e.write.base.id === write.base.id);
+        if (entry && entry.write.kind === 'update') {
+            await putEntry({
+                ...entry,
+                write: {
+                    ...write,
+                    base: entry.write.base,
+                    changes: { ...entry.write.changes, ...write.changes },
+                    review: write.review ?? entry.write.review,
+                },
+            });
+            return;
+        }
+    }
+
+    await putEntry({ userId, queuedAt: new Date().toISOString(), write });
+};
+
+/**
+ * Drops queued inserts (by their negative submission id) before they sync.
+ */
+export const discardQueuedSubmissions = async (ids: number[]): Promise<void> => {
+    for (const id of ids.filter(isQueuedSubmissionId)) {
+        await removeEntry(-id);
+    }
+};
+
+/**
+ * Layers queued writes over the last known server data, so offline changes
+ * show up (and count toward streaks) before they sync.
+ */
+export const applyQueuedWrites = (
+    submissions: Submission[],
+    tagsBySubmission: Map<number, string[]>,
+    entries: OutboxEntry[]
+): { submissions: Submission[]; tagsBySubmission: Map<number, string[]> } => {
+    if (entries.length === 0) {
+        return { submissions, tagsBySubmission };
+    }
+    const byId = new Map(submissions.map(s => [s.id, s]));
+    const tags = new Map(tagsBySubmission);
+    for (const entry of entries) {
+        const { write } = entry;
+        if (write.kind === 'insert') {
+            byId.set(-entry.id, {
+                created_at: entry.queuedAt,
+                link: null,
+                platform: null,
+                description: null,
+                is_backdated: false,
+                counts_toward_streak: true,
+                time_spent_minutes: null,
+                client_id: null,
+                problem_id: null,
+                ...write.submission,
+                id: -entry.id,
+            } as Submission);
+            tags.set(-entry.id, write.tags);
+        } else {
+            const current = byId.get(write.base.id);
+            if (current) {
+                byId.set(current.id, { ...current, ...write.changes } as Submission);
+                tags.set(current.id, write.tags);
+            }
+        }
+    }
+    const merged = [...byId.values()].sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+    return { submissions: merged, tagsBySubmission: tags };
+};
+
+const FIELD_LABELS: Partial<Record<keyof SubmissionUpdate, string>> = {
+    problem_name: 'name',
+    date: 'solve date',
+    description: 'notes',
+    time_spent_minutes: 'time spent',
+};
+
+/**
+ * Whether two values of a column are the same. Dates are compared as
+ * instants, since the server and the form format them differently.
+ */
+const isSameValue = (column: keyof Submission, a: unknown, b: unknown): boolean =>
+    column === 'date' && typeof a === 'string' && typeof b === 'string' ? Date.parse(a) === Date.parse(b) : a === b;
+
+/**
+ * Keeps the fields an offline edit changed, except where the same field was
+ * also changed elsewhere in the meantime. There the server's value wins,
+ * since it may be newer, and the conflict is reported. The form sends every
+ * field, so ones the edit left as they were are dropped first; otherwise
+ * they would overwrite, or be reported against, changes made elsewhere.
+ */
+const resolveUpdate = async (write: Extract<SubmissionWrite, { kind: 'update' }>): Promise<{ write: SubmissionWrite | null; conflict: string | null }> => {
+    const current = await submissionsRepo.get(write.base.id);
+    if (!current) {
+        return { write: null, conflict: `"${write.base.problem_name}" was deleted elsewhere, so your offline edit was dropped.` };
+    }
+
+    const changes: Record<string, unknown> = {};
+    const overridden: string[] = [];
+    for (const [key, value] of Object.entries(write.changes)) {
+        const column = key as keyof Submission;
+        if (isSameValue(column, value, write.base[column])) continue;
+        if (!isSameValue(column, current[column], write.base[column]) && !isSameValue(column, current[column], value)) {
+            if (column !== 'is_backdated') {
+                overridden.push(FIELD_LABELS[column] ?? column);
+            }
+        } else {
+            changes[key] = value;
+        }
+    }
+    return {
+        write: { ...write, changes: changes as SubmissionUpdate },
+        conflict: overridden.length > 0
+            ? `"${current.problem_name}" was changed elsewhere while you were offline; kept the newer ${overridden.join(', ')}.`
+            : null,
+    };
+};
+
+const replay = async (userId: string): Promise<ReplayResult> => {
+    const result: ReplayResult = { applied: 0, conflicts: [] };
+    for (const entry of await getQueuedEntries(userId)) {
+        try {
+            if (entry.write.kind === 'insert') {
+                await writeSubmission(userId, entry.write);
+                result.applied++;
+            } else {
+                const resolved = await resolveUpdate(entry.write);
+                if (resolved.conflict) result.conflicts.push(resolved.conflict);
+                if (resolved.write) {
+                    await writeSubmission(userId, resolved.write);
+                    result.applied++;
+                }
+            }
+        } catch (err: any) {
+            // Still offline (or dropped again mid-replay): keep this and everything after it for next time.
+            if (isNetworkError(err)) break;
+            console.error("Dropping queued write:", err);
+            const name = entry.write.kind === 'insert' ? entry.write.submission.problem_name : entry.write.base.problem_name;
+            result.conflicts.push(`Couldn't sync "${name}": ${err.message}`);
+        }
+        await removeEntry(entry.id);
+    }
+    return result;
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Writes queued changes to Supabase in the order they were made. Only one
+ * replay runs at a time; overlapping calls share it.
+ */
+export const replayOutbox = (userId: string): Promise<ReplayResult> => {
+    if (!replaying) {
+        replaying = replay(userId).finally(() => {
+            replaying = null;
+        });
+    }
+    return replaying;
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Submission } from '../types';
+import { countSolvesByProblem, parseProblemUrl, problemNameFromSlug } from './problems';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+// These pin the behavior the database's copies (parse_problem_url,
+// problem_name_from_slug, get_solve_counts) have to match.
+
+describe('parseProblemUrl', () => {
+    it.each([
+        { link: 'https://leetcode.com/problems/two-sum/', slug: 'two-sum' },
+        { link: 'https://leetcode.com/problems/two-sum', slug: 'two-sum' },
+        { link: '  http://www.leetcode.com/problems/Two-Sum/description/?envType=study-plan#solution ', slug: 'two-sum' },
+        { link: 'https://leetcode.cn/problems/two-sum/', slug: 'two-sum' },
+    ])('reads LeetCode link $link', ({ link, slug }) => {
+        expect(parseProblemUrl(link)).toEqual({ platform: 'LeetCode', slug, url: `https://leetcode.com/problems/${slug}/` });
+    });
+
+    it.each([
+        { link: 'https://codeforces.com/problemset/problem/4/A' },
+        { link: 'https://codeforces.com/problemset/problem/4/a/' },
+        { link: 'https://codeforces.com/contest/4/problem/A?locale=en' },
+        { link: 'http://m1.codeforces.com/contest/4/problem/A#statement' },
+    ])('reads Codeforces link $link', ({ link }) => {
+        expect(parseProblemUrl(link)).toEqual({ platform: 'Codeforces', slug: '4A', url: 'https://codeforces.com/problemset/problem/4/A' });
+    });
+
+    it('keeps the digit of a split Codeforces index', () => {
+        expect(parseProblemUrl('https://codeforces.com/contest/1500/problem/C1')?.slug).toBe('1500C1');
+    });
+
+    it('reads HackerRank and GeeksforGeeks links', () => {
+        expect(parseProblemUrl('https://www.hackerrank.com/contests/week-1/challenges/Simple-Array-Sum/problem?isFullScreen=true')).toEqual({
+            platform: 'HackerRank',
+            slug: 'simple-array-sum',
+            url: 'https://www.hackerrank.com/challenges/simple-array-sum/problem',
+        });
+        expect(parseProblemUrl('https://practice.geeksforgeeks.org/problems/missing-number-in-array1416/1')).toEqual({
+            platform: 'GeeksforGeeks',
+            slug: 'missing-number-in-array1416',
+            url: 'https://www.geeksforgeeks.org/problems/missing-number-in-array1416/1',
+        });
+    });
+
+    it.each([
+        'https://leetcode.com/problemset/all/',
+        'https://codeforces.com/problemset/problem/4/ABC',
+        'https://codeforces.com/blog/entry/4',
+        'https://example.com/problems/two-sum/',
+        'leetcode.com/problems/two-sum/',
+        '',
+    ])('ignores %j', link => {
+        expect(parseProblemUrl(link)).toBeNull();
+    });
+});
+
+describe('problemNameFromSlug', () => {
+    it.each([
+        { link: 'https://leetcode.com/problems/two-sum/', name: 'Two Sum' },
+        { link: 'https://www.geeksforgeeks.org/problems/missing-number-in-array-1416/1', name: 'Missing Number In Array' },
+        { link: 'https://codeforces.com/problemset/problem/4/A', name: '4A' },
+    ])('names $link "$name"', ({ link, name }) => {
+        expect(problemNameFromSlug(parseProblemUrl(link)!)).toBe(name);
+    });
+});
+
+const submission = (id: number, problem_name: string, link: string | null = null): Submission => ({
+    id,
+    user_id: 'user-1',
+    created_at: '2026-10-01T12:00:00Z',
+    date: '2026-10-01T12:00:00Z',
+    problem_name,
+    difficulty: 'Easy',
+    link,
+    platform: null,
+    description: null,
+    is_backdated: false,
+    counts_toward_streak: true,
+    time_spent_minutes: null,
+    client_id: null,
+    problem_id: null,
+});
+
+describe('countSolvesByProblem', () => {
+    it('counts links to the same problem together, whichever variant was pasted', () => {
+        const counts = countSolvesByProblem([
+            submission(1, 'Two Sum', 'https://leetcode.com/problems/two-sum/'),
+            submission(2, 'two sum (again)', 'https://leetcode.com/problems/two-sum/description/'),
+            submission(3, 'Watermelon', 'https://codeforces.com/contest/4/problem/A'),
+            submission(4, 'CF 4A', 'https://codeforces.com/problemset/problem/4/A'),
+        ]);
+
+        expect([...counts]).toEqual([[1, 2], [2, 2], [3, 2], [4, 2]]);
+    });
+
+    it('matches unlinked submissions by name, to each other and to linked ones', () => {
+        const counts = countSolvesByProblem([
+            submission(1, 'Two Sum', 'https://leetcode.com/problems/two-sum/'),
+            submission(2, '1. Two Sum'),
+            submission(3, 'two-sum'),
+            submission(4, 'Valid Anagram'),
+            submission(5, 'valid anagram!'),
+            submission(6, 'Group Anagrams', 'https://example.com/group-anagrams'),
+        ]);
+
+        expect([...counts]).toEqual([[1, 3], [2, 3], [3, 3], [4, 2], [5, 2], [6, 1]]);
+    });
+});
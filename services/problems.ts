@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+import { Problem, ProblemPlatform, Submission } from '../types';
+import { submissionsRepo } from './submissionsRepo';
+import { isNetworkError } from './outbox';
+
+/**
+ * A problem on one of the judges the catalog knows, as identified by its link.
+ */
+export interface ProblemReference {
+    platform: ProblemPlatform;
+    /** Unique per platform: the URL slug, or contest and index (e.g. "4A") on Codeforces. */
+    slug: string;
+    /** The link in canonical form, whichever variant was pasted. */
+    url: string;
+}
+
+const LEETCODE_URL = /^https?:\/\/(?:www\.)?leetcode\.(?:com|cn)\/problems\/([a-z0-9-]+)/i;
+const CODEFORCES_URL = /^https?:\/\/(?:www\.|m\d\.)?codeforces\.com\/(?:problemset\/problem\/(\d+)\/([a-z]\d?)|contest\/(\d+)\/problem\/([a-z]\d?))(?:[/?#]|$)/i;
+const HACKERRANK_URL = /^https?:\/\/(?:www\.)?hackerrank\.com\/(?:contests\/[^/]+\/)?challenges\/([a-z0-9-]+)/i;
+const GEEKSFORGEEKS_URL = /^https?:\/\/(?:www\.|practice\.)?geeksforgeeks\.org\/problems\/([a-z0-9-]+)/i;
+
+/**
+ * Recognizes a problem link from LeetCode, Codeforces, HackerRank or
+ * GeeksforGeeks. Returns null for anything else.
+ *
+ * The database links submissions to the catalog with its own copy of this,
+ * `parse_problem_url` (supabase/migrations/20261029090000_problem_catalog.sql).
+ * Keep the two in step.
+ */
+export const parseProblemUrl = (link: string): ProblemReference | null => {
+    const url = link.trim();
+    let match = url.match(LEETCODE_URL);
+    if (match) {
+        const slug = match[1].toLowerCase();
+        return { platform: 'LeetCode', slug, url: `https://leetcode.com/problems/${slug}/` };
+    }
+    match = url.match(CODEFORCES_URL);
+    if (match) {
+        const contest = match[1] ?? match[3];
+        const index = (match[2] ?? match[4]).toUpperCase();
+        return { platform: 'Codeforces', slug: `${contest}${index}`, url: `https://codeforces.com/problemset/problem/${contest}/${index}` };
+    }
+    match = url.match(HACKERRANK_URL);
+    if (match) {
+        const slug = match[1].toLowerCase();
+        return { platform: 'HackerRank', slug, url: `https://www.hackerrank.com/challenges/${slug}/problem` };
+    }
+    match = url.match(GEEKSFORGEEKS_URL);
+    if (match) {
+        const slug = match[1].toLowerCase();
+        return { platform: 'GeeksforGeeks', slug, url: `https://www.geeksforgeeks.org/problems/${slug}/1` };
+    }
+    return null;
+};
+
+/**
+ * A readable name for a problem from its slug, e.g. "two-sum" becomes
+ * "Two Sum". GeeksforGeeks slugs lose their numeric id. Codeforces links
+ * carry no name, so the contest and index stand in.
+ *
+ * New catalog entries are named by the database's copy of this,
+ * `problem_name_from_slug`
+ * (supabase/migrations/20261103090000_problem_catalog_trusted_entries.sql).
+ */
+export const problemNameFromSlug = (reference: ProblemReference): string => {
+    if (reference.platform === 'Codeforces') {
+        return reference.slug;
+    }
+    const slug = reference.platform === 'GeeksforGeeks' ? reference.slug.replace(/-\d+$/, '') : reference.slug;
+    return slug
+        .split('-')
+        .filter(Boolean)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+};
+
+/**
+ * Looks a problem up in the shared catalog. Null until someone has logged it,
+ * and its difficulty stays null until it has been verified.
+ */
+export const fetchProblem = async (reference: ProblemReference): Promise<Problem | null> => {
+    const { data, error } = await supabase
+        .from('problems')
+        .select('*')
+        .eq('platform', reference.platform)
+        .eq('slug', reference.slug)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Lowercases a problem name and drops numbering and punctuation, so
+ * "1. Two Sum" and "two-sum" compare equal.
+ */
+const problemNameKey = (name: string): string =>
+    name.toLowerCase().replace(/^\s*\d+\.\s*/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * How many times each submission's problem has been solved, keyed by
+ * submission id, counting among `submissions` only. Submissions count as the
+ * same problem when their links
+ * point to the same catalog entry, or, for those without a recognized link,
+ * when their names match one another or a linked submission's name.
+ */
+export const countSolvesByProblem = (submissions: Submission[]): Map<number, number> => {
+    const referenceKey = (submission: Submission) => {
+        const reference = submission.link ? parseProblemUrl(submission.link) : null;
+        return reference ? `${reference.platform}:${reference.slug}` : null;
+    };
+
+    const keyByName = new Map<string, string>();
+    for (const submission of submissions) {
+        const key = referenceKey(submission);
+        const nameKey = problemNameKey(submission.problem_name);
+        if (key && nameKey && !keyByName.has(nameKey)) {
+            keyByName.set(nameKey, key);
+        }
+    }
+
+    const keyBySubmission = new Map<number, string>();
+    const counts = new Map<string, number>();
+    for (const submission of submissions) {
+        const nameKey = problemNameKey(submission.problem_name);
+        const key = referenceKey(submission) ?? keyByName.get(nameKey) ?? `name:${nameKey}`;
+        keyBySubmission.set(submission.id, key);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    return new Map<number, number>([...keyBySubmission].map(([id, key]) => [id, counts.get(key)!]));
+};
+
+/**
+ * Solve counts for `submissions` across the user's whole history, which the
+ * database works out with its own copy of `countSolvesByProblem`
+ * (`get_solve_counts`). Rows it doesn't have yet (queued offline), or all of
+ * them while offline, are counted among `loaded` instead.
+ */
+export const fetchSolveCounts = async (userId: string, submissions: Submission[], loaded: Submission[]): Promise<Map<number, number>> => {
+    const local = countSolvesByProblem([...new Map<number, Submission>([...loaded, ...submissions].map(s => [s.id, s])).values()]);
+    const ids = submissions.map(s => s.id).filter(id => id > 0);
+    if (ids.length === 0 || !navigator.onLine) return local;
+    try {
+        return new Map<number, number>([...local, ...await submissionsRepo.countSolves(userId, ids)]);
+    } catch (err: any) {
+        if (isNetworkError(err)) return local;
+        throw err;
+    }
+};
@@ -0,0 +1,81 @@
+import { Profile } from '../types';
+import { getDataBackend, ProfileInsert, ProfileUpdate } from './backend';
+import { getCachedRow, invalidateQueries, isQueryFresh, putCachedRows, setCachedQuery } from './cache';
+
+const TABLE = 'profiles';
+
+export const profileQueryKey = (userId: string) => `profile:${userId}`;
+
+const keyOf = (profile: Profile) => profile.id;
+
+export const profilesRepo = {
+    /**
+     * The user's profile, from the cache unless it was never loaded, has been
+     * invalidated (e.g. a submission changed their streak), or `refresh` is set.
+     */
+    get: async (userId: string, options: { refresh?: boolean } = {}): Promise<Profile | null> => {
+        if (!options.refresh && isQueryFresh(profileQueryKey(userId))) {
+            return getCachedRow<Profile>(TABLE, userId) ?? null;
+        }
+        const profile = await getDataBackend().profiles.get(userId);
+        setCachedQuery(profileQueryKey(userId), TABLE, profile ? [profile] : [], keyOf);
+        return profile;
+    },
+
+    getCached: (userId: string): Profile | null => getCachedRow<Profile>(TABLE, userId) ?? null,
+
+    isFresh: (userId: string): boolean => isQueryFresh(profileQueryKey(userId)),
+
+    /**
+     * Marks the cached profile out of date, e.g. after a change the database
+     * recalculates the streak from.
+     */
+    invalidate: (userId: string): void => invalidateQueries(profileQueryKey(userId)),
+
+    /**
+     * Loads the profile, creating it from `defaults` the first time a user signs in.
+     */
+    getOrCreate: async (defaults: ProfileInsert): Promise<Profile> => {
+        const existing = await profilesRepo.get(defaults.id, { refresh: true });
+        if (existing) return existing;
+        const created = await getDataBackend().profiles.insert(defaults);
+        setCachedQuery(profileQueryKey(created.id), TABLE, [created], keyOf);
+        return created;
+    },
+
+    /**
+     * Seeds the cache from the offline copy. It counts as stale, so the next
+     * `get` still goes to the server.
+     */
+    prime: (profile: Profile): void => {
+        setCachedQuery(profileQueryKey(profile.id), TABLE, [profile], keyOf);
+        invalidateQueries(profileQueryKey(profile.id));
+    },
+
+    /**
+     * Takes a copy of the profile changed elsewhere, such as the database
+     * recalculating the streak or an edit on another device.
+     */
+    receive: (profile: Profile): void => {
+        setCachedQuery(profileQueryKey(profile.id), TABLE, [profile], keyOf);
+    },
+
+    /**
+     * Saves settings, showing them at once and rolling back if the server
+     * refuses. The profile is then read back, since the database may have
+     * recalculated the streak from the new settings.
+     */
+    update: async (userId: string, changes: ProfileUpdate): Promise<Profile | null> => {
+        const previous = getCachedRow<Profile>(TABLE, userId);
+        if (previous) {
+            putCachedRows(TABLE, [{ ...previous, ...changes }], keyOf);
+        }
+        try {
+            await getDataBackend().profiles.update(userId, changes);
+        } catch (err) {
+            if (previous) putCachedRows(TABLE, [previous], keyOf);
+            throw err;
+        }
+        return profilesRepo.get(userId, { refresh: true });
+    },
+};
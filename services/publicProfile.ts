@@ -0,0 +1,48 @@
+import { supabase } from './supabase';
+import { PublicProfile, PublicSubmission } from '../types';
+import { paths } from './routes';
+
+/**
+ * How many of the latest solves a public profile lists.
+ */
+export const PUBLIC_RECENT_LIMIT = 10;
+
+export interface PublicProfileData {
+    profile: PublicProfile;
+    submissions: PublicSubmission[];
+}
+
+/**
+ * Loads a public profile by username, or null when no such profile is public.
+ *
+ * Reads only go through the `public_profiles` and `public_submissions` views,
+ * never the underlying tables, so RLS on `profiles` and `submissions` stays
+ * owner-only. The views return rows for profiles with `is_public` set, and
+ * `public_submissions` blanks `link` and `description` unless the owner has
+ * turned on `public_show_links` / `public_show_notes` (see
+ * supabase/migrations/20261019093000_public_profiles.sql).
+ */
+export const fetchPublicProfile = async (username: string): Promise<PublicProfileData | null> => {
+    const { data: profile, error: profileError } = await supabase
+        .from('public_profiles')
+        .select('*')
+        .eq('username', username)
+        .limit(1)
+        .maybeSingle();
+    if (profileError) throw profileError;
+    if (!profile) return null;
+
+    const { data: submissions, error: submissionsError } = await supabase
+        .from('public_submissions')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('date', { ascending: false });
+    if (submissionsError) throw submissionsError;
+
+    return { profile, submissions: submissions ?? [] };
+};
+
+/**
+ * The shareable URL of a user's public profile.
+ */
+export const getPublicProfileUrl = (username: string): string => `${window.location.origin}${paths.publicProfile(username)}`;
@@ -0,0 +1,80 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Profile, Submission } from '../types';
+import { profilesRepo } from './profilesRepo';
+import { submissionsRepo } from './submissionsRepo';
+
+export interface RealtimeSyncHandlers {
+    /** The connection dropped (`false`) or came back (`true`). */
+    onStatusChange?: (isLive: boolean) => void;
+    /**
+     * Called after reconnecting, since changes made while disconnected were
+     * never delivered. The cached submissions have already been reloaded.
+     */
+    onResync?: () => void;
+}
+
+/**
+ * Keeps the cached submissions and profile of `userId` in step with changes
+ * made on other devices. Realtime checks RLS per subscriber, so only the
+ * user's own rows arrive; delete events can't be filtered and carry just the
+ * primary key, which is harmless for rows this device never had.
+ *
+ * The client rejoins by itself after a dropped connection. Whatever changed
+ * in between is picked up by reloading the submissions on rejoin.
+ *
+ * Returns a function that unsubscribes.
+ */
+export const subscribeToRealtimeSync = (userId: string, handlers: RealtimeSyncHandlers = {}): (() => void) => {
+    let hasConnected = false;
+    let isLive = false;
+    let isClosed = false;
+
+    const setLive = (live: boolean) => {
+        if (isClosed || live === isLive) return;
+        isLive = live;
+        handlers.onStatusChange?.(live);
+    };
+
+    const handleSubmissionChange = (payload: RealtimePostgresChangesPayload<Submission>) => {
+        if (payload.eventType === 'DELETE') {
+            if (payload.old.id !== undefined) {
+                submissionsRepo.receiveDeleted([payload.old.id]);
+            }
+        } else {
+            submissionsRepo.receive(payload.new);
+        }
+    };
+
+    const handleProfileChange = (payload: RealtimePostgresChangesPayload<Profile>) => {
+        if (payload.eventType === 'UPDATE') {
+            profilesRepo.receive(payload.new);
+        }
+    };
+
+    const channel = supabase
+        .channel(`user-sync:${userId}`)
+        .on<Submission>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'submissions', filter: `user_id=eq.${userId}` }, handleSubmissionChange)
+        .on<Submission>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'submissions', filter: `user_id=eq.${userId}` }, handleSubmissionChange)
+        .on<Submission>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'submissions' }, handleSubmissionChange)
+        .on<Profile>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${userId}` }, handleProfileChange)
+        .subscribe((status, err) => {
+            if (status === 'SUBSCRIBED') {
+                setLive(true);
+                if (hasConnected && !isClosed) {
+                    submissionsRepo.list(userId, { refresh: true })
+                        .then(() => handlers.onResync?.())
+                        .catch((resyncErr: any) => console.error("Failed to resync after reconnecting:", resyncErr));
+                }
+                hasConnected = true;
+            } else {
+                if (err) console.error(`Realtime sync ${status.toLowerCase()}:`, err);
+                setLive(false);
+            }
+        });
+
+    return () => {
+        isClosed = true;
+        supabase.removeChannel(channel);
+    };
+};
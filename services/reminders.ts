@@ -0,0 +1,179 @@
+import { supabase } from './supabase';
+import { Profile } from '../types';
+
+// Set VITE_VAPID_PUBLIC_KEY in .env.local (see README). While it's empty,
+// reminders only show while the app is open.
+export const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY ?? '';
+
+export const DEFAULT_REMINDER_TIME = '21:00';
+
+export interface ReminderPayload {
+    title: string;
+    body: string;
+    url: string;
+}
+
+export type PushStatus = 'unsupported' | 'unconfigured' | 'denied' | 'off' | 'on';
+
+// The service worker only runs in production builds: under the dev server it
+// would cache modules that change on every edit. Without it there are no
+// system notifications either, so try reminders with `npm run preview`.
+const hasServiceWorker = (): boolean => import.meta.env.PROD && 'serviceWorker' in navigator;
+
+export const isPushSupported = (): boolean =>
+    hasServiceWorker() && 'PushManager' in window && 'Notification' in window;
+
+/**
+ * Registers public/sw.js under this build's id, so every deploy installs a
+ * fresh worker with its own cache.
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+    if (!hasServiceWorker()) return;
+    try {
+        await navigator.serviceWorker.register(`/sw.js?build=${encodeURIComponent(__BUILD_ID__)}`);
+    } catch (err: any) {
+        console.error("Service worker registration failed:", err);
+    }
+};
+
+const urlBase64ToUint8Array = (base64: string): Uint8Array<ArrayBuffer> => {
+    const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = atob(padded);
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) {
+        bytes[i] = raw.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const getPushSubscription = async (): Promise<PushSubscription | null> => {
+    if (!isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.ready;
+    return registration.pushManager.getSubscription();
+};
+
+export const getPushStatus = async (): Promise<PushStatus> => {
+    if (!isPushSupported()) return 'unsupported';
+    if (!VAPID_PUBLIC_KEY) return 'unconfigured';
+    if (Notification.permission === 'denied') return 'denied';
+    return (await getPushSubscription()) ? 'on' : 'off';
+};
+
+/**
+ * Asks for notification permission, subscribes this browser and stores the
+ * subscription so the send-reminders edge function can reach it.
+ */
+export const enablePush = async (userId: string): Promise<void> => {
+    if (await Notification.requestPermission() !== 'granted') {
+        throw new Error('Notifications are blocked for this site.');
+    }
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    });
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys.auth) {
+        throw new Error('The browser returned an incomplete push subscription.');
+    }
+    const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert({ user_id: userId, endpoint, p256dh: keys.p256dh, auth: keys.auth }, { onConflict: 'endpoint' });
+    if (error) throw error;
+};
+
+export const disablePush = async (): Promise<void> => {
+    const subscription = await getPushSubscription();
+    if (!subscription) return;
+    const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', subscription.endpoint);
+    if (error) throw error;
+    await subscription.unsubscribe();
+};
+
+/**
+ * Whether this browser already gets reminders from the server, in which case
+ * the in-app scheduler shouldn't raise a second system notification.
+ */
+export const hasActivePushSubscription = async (): Promise<boolean> =>
+    !!VAPID_PUBLIC_KEY && !!(await getPushSubscription());
+
+export const buildReminder = (currentStreak: number): ReminderPayload => ({
+    title: "Don't break your streak!",
+    body: currentStreak > 0
+        ? `You haven't logged a problem today. Your ${currentStreak}-day streak ends at midnight.`
+        : "You haven't logged a problem today.",
+    url: '/submissions',
+});
+
+/**
+ * Shows a system notification from the page, for the in-app fallback.
+ * Returns false when notifications aren't allowed.
+ */
+export const showSystemReminder = async (reminder: ReminderPayload): Promise<boolean> => {
+    if (!hasServiceWorker() || !('Notification' in window) || Notification.permission !== 'granted') {
+        return false;
+    }
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(reminder.title, { body: reminder.body, tag: 'streak-reminder', data: { url: reminder.url } });
+    return true;
+};
+
+/**
+ * Local stand-in for a real push: hands the payload to the service worker's
+ * push handler, so the whole display path can be tested without VAPID keys
+ * or a push service.
+ */
+export const simulatePush = async (reminder: ReminderPayload): Promise<void> => {
+    if (!hasServiceWorker()) {
+        throw new Error('Test notifications need a production build (npm run build, then npm run preview).');
+    }
+    if (await Notification.requestPermission() !== 'granted') {
+        throw new Error('Notifications are blocked for this site.');
+    }
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'simulate-push', payload: reminder });
+};
+
+export const timeToMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Whether a minute of the day falls in quiet hours. The range includes its
+ * start but not its end, and wraps past midnight when start > end.
+ */
+export const isInQuietHours = (minuteOfDay: number, start: string | null, end: string | null): boolean => {
+    if (!start || !end) return false;
+    const from = timeToMinutes(start);
+    const to = timeToMinutes(end);
+    return from <= to
+        ? minuteOfDay >= from && minuteOfDay < to
+        : minuteOfDay >= from || minuteOfDay < to;
+};
+
+/**
+ * Seconds since local midnight in `timeZone`.
+ */
+const getSecondsOfDay = (now: Date, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' }).formatToParts(now);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+    return part('hour') * 3600 + part('minute') * 60 + part('second');
+};
+
+/**
+ * Milliseconds until each of today's remaining reminders, skipping any that
+ * fall in quiet hours.
+ */
+export const getUpcomingReminderDelays = (profile: Pick<Profile, 'reminder_times' | 'quiet_hours_start' | 'quiet_hours_end'>, timeZone: string, now: Date = new Date()): number[] => {
+    const secondsNow = getSecondsOfDay(now, timeZone);
+    return profile.reminder_times
+        .map(timeToMinutes)
+        .filter(minutes => !isInQuietHours(minutes, profile.quiet_hours_start, profile.quiet_hours_end))
+        .map(minutes => (minutes * 60 - secondsNow) * 1000)
+        .filter(delay => delay > 0)
+        .sort((a, b) => a - b);
+};
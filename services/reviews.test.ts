@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { INITIAL_EASE_FACTOR, MIN_EASE_FACTOR, nextReviewState, ReviewState } from './reviews';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const initial: ReviewState = { ease_factor: INITIAL_EASE_FACTOR, interval_days: 0, repetitions: 0 };
+
+describe('nextReviewState', () => {
+    it('grows the interval from 1 day to 6, then by the ease factor', () => {
+        const states: ReviewState[] = [initial];
+        for (let i = 0; i < 4; i++) {
+            states.push(nextReviewState(states[states.length - 1], 4));
+        }
+
+        expect(states.slice(1)).toEqual([
+            { ease_factor: 2.5, interval_days: 1, repetitions: 1 },
+            { ease_factor: 2.5, interval_days: 6, repetitions: 2 },
+            { ease_factor: 2.5, interval_days: 15, repetitions: 3 },
+            // 15 × 2.5 = 37.5
+            { ease_factor: 2.5, interval_days: 38, repetitions: 4 },
+        ]);
+    });
+
+    it('moves the ease factor with the grade, scaling the interval by the one before the review', () => {
+        const easy = nextReviewState({ ease_factor: 2.5, interval_days: 6, repetitions: 2 }, 5);
+        const hard = nextReviewState({ ease_factor: 2.5, interval_days: 6, repetitions: 2 }, 3);
+
+        expect(easy).toEqual({ ease_factor: expect.closeTo(2.6), interval_days: 15, repetitions: 3 });
+        expect(hard).toEqual({ ease_factor: expect.closeTo(2.36), interval_days: 15, repetitions: 3 });
+    });
+
+    it.each([0, 1, 2])('starts over at one day after a lapse graded %i', quality => {
+        const next = nextReviewState({ ease_factor: 2.5, interval_days: 38, repetitions: 4 }, quality);
+
+        expect(next.interval_days).toBe(1);
+        expect(next.repetitions).toBe(0);
+        expect(next.ease_factor).toBeLessThan(2.5);
+    });
+
+    it('never lets the ease factor drop below 1.3', () => {
+        expect(nextReviewState({ ease_factor: 1.4, interval_days: 6, repetitions: 2 }, 3).ease_factor).toBe(MIN_EASE_FACTOR);
+        expect(nextReviewState({ ease_factor: MIN_EASE_FACTOR, interval_days: 1, repetitions: 1 }, 0).ease_factor).toBe(MIN_EASE_FACTOR);
+    });
+
+    it('clamps grades to the 0-5 scale', () => {
+        expect(nextReviewState(initial, 9)).toEqual(nextReviewState(initial, 5));
+        expect(nextReviewState(initial, -2)).toEqual(nextReviewState(initial, 0));
+    });
+});
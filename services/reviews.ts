@@ -0,0 +1,163 @@
+import { supabase } from './supabase';
+import { Profile, ReviewSchedule, ReviewTime } from '../types';
+import { addDaysToKey, dayKeyToInstant, getTodayKey } from './streaks';
+import { DayActivity } from './activity';
+
+export const INITIAL_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * Recall grades offered after a review, on SM-2's 0-5 quality scale.
+ * Anything below 3 counts as a lapse and restarts the schedule.
+ */
+export const REVIEW_GRADES: { quality: number; label: string }[] = [
+    { quality: 1, label: 'Forgot' },
+    { quality: 3, label: 'Hard' },
+    { quality: 4, label: 'Good' },
+    { quality: 5, label: 'Easy' },
+];
+
+export type ReviewState = Pick<ReviewSchedule, 'ease_factor' | 'interval_days' | 'repetitions'>;
+
+export interface ReviewData {
+    schedules: ReviewSchedule[];
+    /** Every review from `since` on, then noon on each earlier day with a review. */
+    events: ReviewTime[];
+}
+
+/**
+ * Applies one SM-2 step: successful recalls grow the interval (1 day, 6 days,
+ * then the previous interval times the ease factor), lapses start over at one
+ * day. The ease factor moves with the grade and never drops below 1.3.
+ */
+export const nextReviewState = (state: ReviewState, quality: number): ReviewState => {
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+    const easeFactor = Math.max(MIN_EASE_FACTOR, state.ease_factor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+    if (q < 3) {
+        return { ease_factor: easeFactor, interval_days: 1, repetitions: 0 };
+    }
+    const intervalDays = state.repetitions === 0 ? 1
+        : state.repetitions === 1 ? 6
+        : Math.round(state.interval_days * state.ease_factor);
+    return { ease_factor: easeFactor, interval_days: intervalDays, repetitions: state.repetitions + 1 };
+};
+
+/**
+ * Days in `timeZone` with a review before `before`, each as noon that day.
+ */
+const fetchReviewDaysBefore = async (before: string, timeZone: string): Promise<ReviewTime[]> => {
+    const { data, error } = await supabase.rpc('get_review_days', { p_before: before, p_time_zone: timeZone });
+    if (error) throw error;
+    return (data ?? []).map(row => ({ reviewed_at: dayKeyToInstant(row.day, timeZone).toISOString() }));
+};
+
+/**
+ * Loads the user's review schedules and when they reviewed. Reviews are only
+ * needed as streak days, so like submissions they're loaded one by one from
+ * `since` (the start of the recent window) and as days before it. Without
+ * `since` every review is loaded.
+ */
+export const fetchReviewData = async (userId: string, since: string | null, timeZone: string): Promise<ReviewData> => {
+    let recentQuery = supabase
+        .from('review_events')
+        .select('reviewed_at')
+        .eq('user_id', userId);
+    if (since) {
+        recentQuery = recentQuery.gte('reviewed_at', since);
+    }
+    const [{ data: schedules, error: schedulesError }, { data: recent, error: recentError }, olderDays] = await Promise.all([
+        supabase.from('review_schedules').select('*').eq('user_id', userId).order('due_on'),
+        recentQuery.order('reviewed_at', { ascending: false }),
+        since ? fetchReviewDaysBefore(since, timeZone) : [],
+    ]);
+    if (schedulesError) throw schedulesError;
+    if (recentError) throw recentError;
+
+    return { schedules: schedules ?? [], events: [...(recent ?? []), ...olderDays.reverse()] };
+};
+
+/**
+ * Schedules that are due on or before today, most overdue first.
+ */
+export const getDueReviews = (schedules: ReviewSchedule[], todayKey: string): ReviewSchedule[] => {
+    return schedules
+        .filter(schedule => schedule.due_on <= todayKey)
+        .sort((a, b) => a.due_on.localeCompare(b.due_on) || a.submission_id - b.submission_id);
+};
+
+/**
+ * Puts a submission into the review queue, first due the day after it was solved.
+ */
+export const scheduleSubmissionReview = async (userId: string, submissionId: number, solvedDayKey: string): Promise<void> => {
+    const { error } = await supabase
+        .from('review_schedules')
+        .upsert({
+            submission_id: submissionId,
+            user_id: userId,
+            ease_factor: INITIAL_EASE_FACTOR,
+            interval_days: 0,
+            repetitions: 0,
+            due_on: addDaysToKey(solvedDayKey, 1),
+        });
+    if (error) throw error;
+};
+
+/**
+ * Takes a submission out of the review queue. Past review events are kept.
+ */
+export const removeSubmissionReview = async (submissionId: number): Promise<void> => {
+    const { error } = await supabase
+        .from('review_schedules')
+        .delete()
+        .eq('submission_id', submissionId);
+    if (error) throw error;
+};
+
+/**
+ * Puts previously saved schedules back as they were, e.g. after undoing a delete.
+ */
+export const restoreReviewSchedules = async (schedules: ReviewSchedule[]): Promise<void> => {
+    if (schedules.length === 0) return;
+    const { error } = await supabase.from('review_schedules').upsert(schedules);
+    if (error) throw error;
+};
+
+/**
+ * Records a review with the given recall quality and reschedules the
+ * submission from today in the user's timezone, in one transaction (see
+ * record_review), so a review is never logged without moving its card on.
+ */
+export const recordReview = async (schedule: ReviewSchedule, quality: number, timeZone: string): Promise<void> => {
+    const next = nextReviewState(schedule, quality);
+    const { error } = await supabase.rpc('record_review', {
+        p_submission_id: schedule.submission_id,
+        p_quality: quality,
+        p_ease_factor: next.ease_factor,
+        p_interval_days: next.interval_days,
+        p_repetitions: next.repetitions,
+        p_due_on: addDaysToKey(getTodayKey(timeZone), next.interval_days),
+    });
+    if (error) throw error;
+};
+
+/**
+ * The instants that keep a streak alive: noon on every day with a solve,
+ * except days with nothing but imported history from before the backfill
+ * window, plus every review when the user has opted to count reviews toward
+ * their streak.
+ */
+export const getStreakActivityDates = (
+    profile: Profile | null,
+    activityByDay: Map<string, DayActivity>,
+    reviewEvents: ReviewTime[],
+    timeZone: string
+): string[] => {
+    const dates = [...activityByDay]
+        .filter(([, day]) => day.countsTowardStreak)
+        .map(([dayKey]) => dayKeyToInstant(dayKey, timeZone).toISOString());
+    if (profile?.reviews_count_toward_streak) {
+        reviewEvents.forEach(event => dates.push(event.reviewed_at));
+    }
+    return dates;
+};
@@ -0,0 +1,63 @@
+/**
+ * Every screen the app can show, as parsed from the URL path.
+ */
+export type Route =
+    | { name: 'home' }
+    | { name: 'dashboard' }
+    | { name: 'submissions' }
+    | { name: 'submission'; id: number }
+    | { name: 'profile' }
+    | { name: 'groups' }
+    | { name: 'group'; id: number }
+    | { name: 'publicProfile'; username: string }
+    | { name: 'notFound' };
+
+/**
+ * Routes that only make sense for a signed-in user.
+ */
+export const PRIVATE_ROUTES: Route['name'][] = ['dashboard', 'submissions', 'submission', 'profile', 'groups', 'group'];
+
+export const paths = {
+    home: () => '/',
+    dashboard: () => '/dashboard',
+    submissions: () => '/submissions',
+    submission: (id: number) => `/submissions/${id}`,
+    profile: () => '/profile',
+    groups: () => '/groups',
+    group: (id: number) => `/groups/${id}`,
+    publicProfile: (username: string) => `/u/${encodeURIComponent(username)}`,
+};
+
+/**
+ * Parses a pathname into a route. Trailing slashes are ignored.
+ */
+export const matchRoute = (pathname: string): Route => {
+    const segments = pathname.split('/').filter(Boolean);
+
+    if (segments.length === 0) {
+        return { name: 'home' };
+    }
+    if (segments.length === 1) {
+        switch (segments[0]) {
+            case 'dashboard': return { name: 'dashboard' };
+            case 'submissions': return { name: 'submissions' };
+            case 'profile': return { name: 'profile' };
+            case 'groups': return { name: 'groups' };
+        }
+    }
+    // Negative ids are submissions logged offline that haven't synced yet.
+    if (segments.length === 2 && segments[0] === 'submissions' && /^-?\d+$/.test(segments[1])) {
+        return { name: 'submission', id: Number(segments[1]) };
+    }
+    if (segments.length === 2 && segments[0] === 'groups' && /^\d+$/.test(segments[1])) {
+        return { name: 'group', id: Number(segments[1]) };
+    }
+    if (segments.length === 2 && segments[0] === 'u') {
+        try {
+            return { name: 'publicProfile', username: decodeURIComponent(segments[1]) };
+        } catch {
+            return { name: 'notFound' };
+        }
+    }
+    return { name: 'notFound' };
+};
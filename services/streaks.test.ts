@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStreaks, dayKeyToInstant, getDayKey, StreakOptions } from './streaks';
+
+describe('getDayKey', () => {
+    it.each([
+        // Midnight boundaries
+        { instant: '2026-01-15T04:59:00Z', timeZone: 'America/New_York', expected: '2026-01-14' },
+        { instant: '2026-01-15T05:00:00Z', timeZone: 'America/New_York', expected: '2026-01-15' },
+        { instant: '2026-01-14T23:59:59Z', timeZone: 'UTC', expected: '2026-01-14' },
+        { instant: '2026-01-15T00:00:00Z', timeZone: 'UTC', expected: '2026-01-15' },
+        // US spring forward (2026-03-08): midnight moves from 05:00Z to 04:00Z
+        { instant: '2026-03-08T04:59:00Z', timeZone: 'America/New_York', expected: '2026-03-07' },
+        { instant: '2026-03-09T03:59:00Z', timeZone: 'America/New_York', expected: '2026-03-08' },
+        { instant: '2026-03-09T04:00:00Z', timeZone: 'America/New_York', expected: '2026-03-09' },
+        // EU spring forward (2026-03-29) and fall back (2026-10-25)
+        { instant: '2026-03-29T21:59:00Z', timeZone: 'Europe/Berlin', expected: '2026-03-29' },
+        { instant: '2026-03-29T22:00:00Z', timeZone: 'Europe/Berlin', expected: '2026-03-30' },
+        { instant: '2026-10-25T22:59:00Z', timeZone: 'Europe/Berlin', expected: '2026-10-25' },
+        { instant: '2026-10-25T23:00:00Z', timeZone: 'Europe/Berlin', expected: '2026-10-26' },
+        // Either side of the date line, 25 hours apart
+        { instant: '2026-06-01T10:30:00Z', timeZone: 'Pacific/Kiritimati', expected: '2026-06-02' },
+        { instant: '2026-06-01T10:30:00Z', timeZone: 'Pacific/Pago_Pago', expected: '2026-05-31' },
+    ])('puts $instant on $expected in $timeZone', ({ instant, timeZone, expected }) => {
+        expect(getDayKey(instant, timeZone)).toBe(expected);
+    });
+});
+
+describe('dayKeyToInstant', () => {
+    it.each([
+        { dayKey: '2026-01-15', timeZone: 'America/New_York', hour: 0, expected: '2026-01-15T05:00:00.000Z' },
+        { dayKey: '2026-01-15', timeZone: 'America/New_York', hour: 12, expected: '2026-01-15T17:00:00.000Z' },
+        // Just after the US spring forward, and the skipped hour itself
+        { dayKey: '2026-03-08', timeZone: 'America/New_York', hour: 3, expected: '2026-03-08T07:00:00.000Z' },
+        { dayKey: '2026-03-08', timeZone: 'America/New_York', hour: 2, expected: '2026-03-08T07:00:00.000Z' },
+        { dayKey: '2026-03-08', timeZone: 'America/New_York', hour: 23, expected: '2026-03-09T03:00:00.000Z' },
+        // Just after the US fall back (2026-11-01)
+        { dayKey: '2026-11-01', timeZone: 'America/New_York', hour: 5, expected: '2026-11-01T10:00:00.000Z' },
+        // EU: the skipped hour, and the hour before the fall back
+        { dayKey: '2026-03-29', timeZone: 'Europe/Berlin', hour: 2, expected: '2026-03-29T01:00:00.000Z' },
+        { dayKey: '2026-03-29', timeZone: 'Europe/Berlin', hour: 3, expected: '2026-03-29T01:00:00.000Z' },
+        { dayKey: '2026-10-25', timeZone: 'Europe/Berlin', hour: 1, expected: '2026-10-24T23:00:00.000Z' },
+        { dayKey: '2026-10-25', timeZone: 'Europe/Berlin', hour: 0, expected: '2026-10-24T22:00:00.000Z' },
+        // Date line
+        { dayKey: '2026-06-02', timeZone: 'Pacific/Kiritimati', hour: 0, expected: '2026-06-01T10:00:00.000Z' },
+        { dayKey: '2026-06-01', timeZone: 'Pacific/Pago_Pago', hour: 0, expected: '2026-06-01T11:00:00.000Z' },
+    ])('maps $dayKey $hour:00 in $timeZone to $expected', ({ dayKey, timeZone, hour, expected }) => {
+        expect(dayKeyToInstant(dayKey, timeZone, hour).toISOString()).toBe(expected);
+    });
+
+    it.each([
+        ['America/New_York', ['2026-03-07', '2026-03-08', '2026-03-09', '2026-10-31', '2026-11-01', '2026-11-02']],
+        ['Europe/Berlin', ['2026-03-28', '2026-03-29', '2026-03-30', '2026-10-24', '2026-10-25', '2026-10-26']],
+        ['Pacific/Kiritimati', ['2026-06-01', '2026-06-02']],
+        ['Pacific/Pago_Pago', ['2026-06-01', '2026-06-02']],
+    ])('maps every hour of a day in %s back onto that day', (timeZone, dayKeys) => {
+        for (const dayKey of dayKeys) {
+            for (let hour = 0; hour < 24; hour++) {
+                expect(getDayKey(dayKeyToInstant(dayKey, timeZone, hour), timeZone)).toBe(dayKey);
+            }
+        }
+    });
+});
+
+describe('calculateStreaks', () => {
+    /** One solve at the given local time on each day. */
+    const solvesAt = (dayKeys: string[], timeZone: string, hour = 12, minute = 0) =>
+        dayKeys.map(dayKey => new Date(dayKeyToInstant(dayKey, timeZone, hour).getTime() + minute * 60_000).toISOString());
+
+    it.each<{ name: string; dates: string[]; timeZone: string; now: string; options?: StreakOptions; current: number; longest: number; frozen?: string[] }>([
+        {
+            name: 'late-evening solves across the US spring forward',
+            dates: solvesAt(['2026-03-06', '2026-03-07', '2026-03-08', '2026-03-09'], 'America/New_York', 23, 30),
+            timeZone: 'America/New_York',
+            now: '2026-03-10T03:45:00Z',
+            current: 4,
+            longest: 4,
+        },
+        {
+            name: 'late-evening solves across the EU fall back',
+            dates: solvesAt(['2026-10-24', '2026-10-25', '2026-10-26'], 'Europe/Berlin', 23, 30),
+            timeZone: 'Europe/Berlin',
+            now: '2026-10-26T23:00:00Z',
+            current: 3,
+            longest: 3,
+        },
+        {
+            name: 'solves at 23:59 and 00:00 local on consecutive days',
+            dates: ['2026-01-15T04:59:00Z', '2026-01-15T05:00:00Z'],
+            timeZone: 'America/New_York',
+            now: '2026-01-15T12:00:00Z',
+            current: 2,
+            longest: 2,
+        },
+        {
+            name: 'solves at 00:00 and 23:59 local on the same day',
+            dates: ['2026-01-15T05:00:00Z', '2026-01-16T04:59:00Z'],
+            timeZone: 'America/New_York',
+            now: '2026-01-16T12:00:00Z',
+            current: 1,
+            longest: 1,
+        },
+        {
+            name: 'the same instants west of the date line',
+            dates: ['2026-06-01T10:30:00Z', '2026-06-02T09:00:00Z'],
+            timeZone: 'Pacific/Pago_Pago',
+            now: '2026-06-02T10:00:00Z',
+            current: 2,
+            longest: 2,
+        },
+        {
+            name: 'the same instants east of the date line',
+            dates: ['2026-06-01T10:30:00Z', '2026-06-02T09:00:00Z'],
+            timeZone: 'Pacific/Kiritimati',
+            now: '2026-06-02T10:00:00Z',
+            current: 1,
+            longest: 1,
+        },
+        {
+            name: 'a missed day with no freezes',
+            dates: solvesAt(['2026-01-05', '2026-01-06', '2026-01-08'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-08T18:00:00Z',
+            current: 1,
+            longest: 2,
+        },
+        {
+            name: 'a missed day bridged by a bonus freeze',
+            dates: solvesAt(['2026-01-05', '2026-01-06', '2026-01-08'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-08T18:00:00Z',
+            options: { bonusFreezes: 1 },
+            current: 3,
+            longest: 3,
+            frozen: ['2026-01-07'],
+        },
+        {
+            name: 'a gap longer than the freezes banked',
+            dates: solvesAt(['2026-01-05', '2026-01-06', '2026-01-09'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-09T18:00:00Z',
+            options: { bonusFreezes: 1 },
+            current: 1,
+            longest: 2,
+        },
+        {
+            name: 'a freeze earned after seven active days',
+            dates: solvesAt(['2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04', '2026-01-05', '2026-01-06', '2026-01-07', '2026-01-09'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-09T18:00:00Z',
+            current: 8,
+            longest: 8,
+            frozen: ['2026-01-08'],
+        },
+        {
+            name: 'a weekend set as rest days',
+            // Friday, then Monday; Saturday and Sunday are rest days.
+            dates: solvesAt(['2026-01-09', '2026-01-12'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-12T18:00:00Z',
+            options: { restDays: [0, 6] },
+            current: 2,
+            longest: 2,
+        },
+        {
+            name: 'a rest day and a freeze covering one gap',
+            // Friday, then Tuesday: Sunday is a rest day, Saturday and Monday need freezes.
+            dates: solvesAt(['2026-01-09', '2026-01-13'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-13T18:00:00Z',
+            options: { restDays: [0], bonusFreezes: 2 },
+            current: 2,
+            longest: 2,
+            frozen: ['2026-01-10', '2026-01-12'],
+        },
+        {
+            name: 'today still open after solving yesterday',
+            dates: solvesAt(['2026-01-05', '2026-01-06'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-07T23:59:00Z',
+            current: 2,
+            longest: 2,
+        },
+        {
+            name: 'yesterday missed and no freezes left',
+            dates: solvesAt(['2026-01-05', '2026-01-06'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-08T00:00:00Z',
+            current: 0,
+            longest: 2,
+        },
+        {
+            name: 'yesterday missed but bridged to today',
+            dates: solvesAt(['2026-01-05', '2026-01-06'], 'UTC'),
+            timeZone: 'UTC',
+            now: '2026-01-08T00:00:00Z',
+            options: { bonusFreezes: 1 },
+            current: 2,
+            longest: 2,
+            frozen: ['2026-01-07'],
+        },
+    ])('$name', ({ dates, timeZone, now, options, current, longest, frozen = [] }) => {
+        const result = calculateStreaks(dates, timeZone, options, new Date(now));
+        expect(result.currentStreak).toBe(current);
+        expect(result.longestStreak).toBe(longest);
+        expect([...result.frozenDays].sort()).toEqual(frozen);
+    });
+});
@@ -0,0 +1,263 @@
+import { Profile } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getDayFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        // en-CA formats dates as yyyy-MM-dd, which is exactly our day key shape.
+        formatter = new Intl.DateTimeFormat('en-CA', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * Returns true if the given string is an IANA timezone the runtime understands.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * The timezone of the current browser, falling back to UTC when unavailable.
+ */
+export const getBrowserTimeZone = (): string => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+};
+
+/**
+ * Picks the timezone streaks should be evaluated in: the user's saved choice
+ * when it is valid, otherwise the browser's own zone.
+ */
+export const resolveTimeZone = (timeZone?: string | null): string => {
+    if (timeZone && isValidTimeZone(timeZone)) {
+        return timeZone;
+    }
+    return getBrowserTimeZone();
+};
+
+/**
+ * Converts an instant (ISO string or Date) into the calendar day it falls on
+ * in the given timezone, formatted as yyyy-MM-dd.
+ */
+export const getDayKey = (instant: string | Date, timeZone: string): string => {
+    const date = typeof instant === 'string' ? new Date(instant) : instant;
+    return getDayFormatter(timeZone).format(date);
+};
+
+/**
+ * Today's day key in the given timezone.
+ */
+export const getTodayKey = (timeZone: string, now: Date = new Date()): string => getDayKey(now, timeZone);
+
+/**
+ * Maps a yyyy-MM-dd key onto a running day number. Working on plain calendar
+ * days (not instants) keeps the arithmetic immune to DST shifts.
+ */
+export const dayKeyToDayNumber = (dayKey: string): number => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+/**
+ * Inverse of `dayKeyToDayNumber`.
+ */
+export const dayNumberToDayKey = (dayNumber: number): string => new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+
+/**
+ * Shifts a day key by a whole number of calendar days.
+ */
+export const addDaysToKey = (dayKey: string, amount: number): string => dayNumberToDayKey(dayKeyToDayNumber(dayKey) + amount);
+
+/**
+ * How many days back a solve may be logged unless the user configures otherwise.
+ */
+export const DEFAULT_BACKFILL_WINDOW_DAYS = 3;
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds.
+ */
+const getTimeZoneOffsetMs = (instant: Date, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * Returns the instant at `hour` o'clock of the given calendar day in
+ * `timeZone`. The default of noon keeps the instant safely inside the day, so
+ * `getDayKey` maps it straight back onto the same day.
+ *
+ * The offset is looked up twice: the offset at the wall-clock time read as
+ * UTC can be on the other side of a DST switch from the instant wanted.
+ * An hour skipped when clocks go forward resolves to the time after the
+ * switch (02:30 becomes 03:30), as `Temporal` does.
+ */
+export const dayKeyToInstant = (dayKey: string, timeZone: string, hour: number = 12): Date => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour);
+    const firstOffset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+    const offset = getTimeZoneOffsetMs(new Date(wallClock - firstOffset), timeZone);
+    if (getTimeZoneOffsetMs(new Date(wallClock - offset), timeZone) === offset) {
+        return new Date(wallClock - offset);
+    }
+    // The wall-clock time falls in the gap; of the offsets either side, the earlier one lands past it.
+    return new Date(wallClock - Math.min(firstOffset, offset));
+};
+
+/**
+ * Collapses a list of submission instants into the set of days they fall on
+ * in the given timezone.
+ */
+export const getSubmissionDayKeys = (submissionDates: string[], timeZone: string): Set<string> => {
+    return new Set(submissionDates.map(d => getDayKey(d, timeZone)));
+};
+
+/**
+ * Freeze tokens are earned once per this many consecutive active days.
+ */
+export const FREEZE_EARN_INTERVAL = 7;
+
+/**
+ * Earning stops once this many freezes are banked.
+ */
+export const MAX_BANKED_FREEZES = 2;
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Weekday (0 = Sunday) of a day number. Day 0 (1970-01-01) was a Thursday.
+ */
+export const getWeekday = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+/**
+ * The Monday that starts the week containing `dayKey`.
+ */
+export const getWeekStartKey = (dayKey: string): string => {
+    const dayNumber = dayKeyToDayNumber(dayKey);
+    return dayNumberToDayKey(dayNumber - ((getWeekday(dayNumber) + 6) % 7));
+};
+
+export interface StreakOptions {
+    /** Freeze tokens granted on top of the ones earned by keeping a streak. */
+    bonusFreezes?: number;
+    /** Weekdays (0 = Sunday) that never break a streak when left empty. */
+    restDays?: number[];
+}
+
+export interface StreakResult {
+    currentStreak: number;
+    longestStreak: number;
+    freezesRemaining: number;
+    /** Missed days that were bridged by spending a freeze. */
+    frozenDays: Set<string>;
+}
+
+/**
+ * Builds the streak options stored on a user's profile.
+ */
+export const getStreakOptions = (profile: Profile | null): StreakOptions => ({
+    bonusFreezes: profile?.streak_freezes ?? 0,
+    restDays: profile?.rest_days ?? [],
+});
+
+/**
+ * Calculates the current and longest streaks from a list of submission
+ * instants, bucketing each one into a calendar day in `timeZone`.
+ *
+ * Scheduled rest days never break a streak, and any other missed day can be
+ * bridged with a freeze token. A gap is only bridged when there are enough
+ * freezes to cover all of it; otherwise the streak resets and the freezes
+ * are kept. Only active days add to a streak's length.
+ * This function is robust and recalculates from scratch.
+ *
+ * The stored streaks come from the database's `calculate_streaks`, a port of
+ * this function; change both together. The client copy fills in frozen days
+ * for display and covers changes still queued offline.
+ */
+export const calculateStreaks = (
+    submissionDates: string[],
+    timeZone: string,
+    options: StreakOptions = {},
+    now: Date = new Date()
+): StreakResult => {
+    let freezes = Math.max(0, options.bonusFreezes ?? 0);
+    const frozenDays = new Set<string>();
+
+    if (!submissionDates || submissionDates.length === 0) {
+        return { currentStreak: 0, longestStreak: 0, freezesRemaining: freezes, frozenDays };
+    }
+
+    const restDays = new Set(options.restDays ?? []);
+    const missedDaysBetween = (from: number, to: number): number[] => {
+        const missed: number[] = [];
+        for (let day = from + 1; day < to; day++) {
+            if (!restDays.has(getWeekday(day))) {
+                missed.push(day);
+            }
+        }
+        return missed;
+    };
+    const bridge = (missed: number[]): boolean => {
+        if (missed.length > freezes) {
+            return false;
+        }
+        freezes -= missed.length;
+        missed.forEach(day => frozenDays.add(dayNumberToDayKey(day)));
+        return true;
+    };
+
+    // 1. Get unique, sorted day numbers in the user's timezone.
+    const days = [...getSubmissionDayKeys(submissionDates, timeZone)]
+        .map(dayKeyToDayNumber)
+        .sort((a, b) => a - b);
+
+    // 2. Walk forward through active days, bridging gaps where possible.
+    let run = 0;
+    let longestStreak = 0;
+    for (let i = 0; i < days.length; i++) {
+        if (i > 0 && !bridge(missedDaysBetween(days[i - 1], days[i]))) {
+            run = 0;
+        }
+        run++;
+        if (run % FREEZE_EARN_INTERVAL === 0 && freezes < MAX_BANKED_FREEZES) {
+            freezes++;
+        }
+        longestStreak = Math.max(longestStreak, run);
+    }
+
+    // 3. The streak is still current if every day missed since the last
+    // submission (today excluded, it is still in play) can be bridged.
+    const today = dayKeyToDayNumber(getTodayKey(timeZone, now));
+    const lastDay = days[days.length - 1];
+    const currentStreak = lastDay >= today || bridge(missedDaysBetween(lastDay, today)) ? run : 0;
+
+    return { currentStreak, longestStreak, freezesRemaining: freezes, frozenDays };
+};
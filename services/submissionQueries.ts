@@ -0,0 +1,170 @@
+import { supabase } from './supabase';
+import { Submission } from '../types';
+import { addDaysToKey, dayKeyToInstant } from './streaks';
+
+export const PAGE_SIZE = 50;
+
+export type SubmissionSortKey = 'date' | 'problem_name' | 'platform';
+export type SortOrder = 'asc' | 'desc';
+
+export interface SubmissionFilters {
+    search: string;
+    difficulty: Submission['difficulty'] | '';
+    platform: string;
+    /** Inclusive yyyy-MM-dd bounds, interpreted in the user's timezone. */
+    from: string;
+    to: string;
+    sort: SubmissionSortKey;
+    order: SortOrder;
+}
+
+export const DEFAULT_FILTERS: SubmissionFilters = {
+    search: '',
+    difficulty: '',
+    platform: '',
+    from: '',
+    to: '',
+    sort: 'date',
+    order: 'desc',
+};
+
+const SORT_KEYS: SubmissionSortKey[] = ['date', 'problem_name', 'platform'];
+const DIFFICULTIES: Submission['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads filter state from a query string, ignoring anything malformed.
+ */
+export const filtersFromSearchParams = (params: URLSearchParams): SubmissionFilters => {
+    const difficulty = params.get('difficulty') as Submission['difficulty'];
+    const sort = params.get('sort') as SubmissionSortKey;
+    const from = params.get('from') ?? '';
+    const to = params.get('to') ?? '';
+    return {
+        search: params.get('q') ?? '',
+        difficulty: DIFFICULTIES.includes(difficulty) ? difficulty : '',
+        platform: params.get('platform') ?? '',
+        from: DAY_KEY_PATTERN.test(from) ? from : '',
+        to: DAY_KEY_PATTERN.test(to) ? to : '',
+        sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+        order: params.get('order') === 'asc' ? 'asc' : 'desc',
+    };
+};
+
+/**
+ * Serializes filter state into a query string, leaving out defaults.
+ */
+export const filtersToSearchParams = (filters: SubmissionFilters): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (filters.search) params.set('q', filters.search);
+    if (filters.difficulty) params.set('difficulty', filters.difficulty);
+    if (filters.platform) params.set('platform', filters.platform);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+    if (filters.order !== DEFAULT_FILTERS.order) params.set('order', filters.order);
+    return params;
+};
+
+/**
+ * Splits a search into lowercase words, dropping punctuation the way
+ * Postgres' 'simple' text search configuration does.
+ */
+const searchWords = (search: string): string[] => search.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export interface SubmissionPage {
+    rows: Submission[];
+    total: number;
+}
+
+/**
+ * Fetches one page of a user's submissions matching `filters`, using a
+ * Supabase range query so only the requested rows leave the database.
+ */
+export const fetchSubmissionPage = async (
+    userId: string,
+    filters: SubmissionFilters,
+    page: number,
+    timeZone: string
+): Promise<SubmissionPage> => {
+    let query = supabase
+        .from('submissions')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+
+    // Every word has to start a word of the name or notes (see the `search`
+    // column in 20261104090000_submission_search.sql).
+    const words = searchWords(filters.search);
+    if (words.length > 0) {
+        query = query.textSearch('search', words.map(word => `${word}:*`).join(' & '), { config: 'simple' });
+    }
+    if (filters.difficulty) {
+        query = query.eq('difficulty', filters.difficulty);
+    }
+    if (filters.platform) {
+        query = query.eq('platform', filters.platform);
+    }
+    if (filters.from) {
+        query = query.gte('date', dayKeyToInstant(filters.from, timeZone, 0).toISOString());
+    }
+    if (filters.to) {
+        query = query.lt('date', dayKeyToInstant(addDaysToKey(filters.to, 1), timeZone, 0).toISOString());
+    }
+
+    const start = page * PAGE_SIZE;
+    const { data, count, error } = await query
+        .order(filters.sort, { ascending: filters.order === 'asc', nullsFirst: false })
+        .order('id', { ascending: filters.order === 'asc' })
+        .range(start, start + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    return { rows: data ?? [], total: count ?? 0 };
+};
+
+/**
+ * The same query as `fetchSubmissionPage`, run over submissions already in
+ * memory. Used while offline or with writes still queued, since the server
+ * doesn't have those rows yet.
+ */
+export const queryLocalSubmissions = (
+    submissions: Submission[],
+    filters: SubmissionFilters,
+    page: number,
+    timeZone: string
+): SubmissionPage => {
+    const words = searchWords(filters.search);
+    const fromTime = filters.from ? dayKeyToInstant(filters.from, timeZone, 0).getTime() : -Infinity;
+    const toTime = filters.to ? dayKeyToInstant(addDaysToKey(filters.to, 1), timeZone, 0).getTime() : Infinity;
+
+    const matches = submissions.filter(s => {
+        const time = Date.parse(s.date);
+        const text = searchWords(`${s.problem_name} ${s.description ?? ''}`);
+        return words.every(word => text.some(w => w.startsWith(word)))
+            && (!filters.difficulty || s.difficulty === filters.difficulty)
+            && (!filters.platform || s.platform === filters.platform)
+            && time >= fromTime
+            && time < toTime;
+    });
+
+    const direction = filters.order === 'asc' ? 1 : -1;
+    matches.sort((a, b) => {
+        let result: number;
+        if (filters.sort === 'date') {
+            result = Date.parse(a.date) - Date.parse(b.date);
+        } else {
+            const left = a[filters.sort];
+            const right = b[filters.sort];
+            // Match the server's `nullsFirst: false`: missing values go last either way.
+            if (left === null || right === null) {
+                if (left !== right) return left === null ? 1 : -1;
+                result = 0;
+            } else {
+                result = left.localeCompare(right);
+            }
+        }
+        return (result || a.id - b.id) * direction;
+    });
+
+    const start = page * PAGE_SIZE;
+    return { rows: matches.slice(start, start + PAGE_SIZE), total: matches.length };
+};
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Submission } from '../types';
+import { DataBackend, setDataBackend } from './backend';
+import { clearCache } from './cache';
+import { createMemoryBackend } from './memoryBackend';
+import { submissionsRepo } from './submissionsRepo';
+
+// Everything goes through the in-memory backend; the client only has to import.
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const USER_ID = 'user-1';
+
+const submission = (overrides: Partial<Submission> & Pick<Submission, 'id' | 'date' | 'problem_name'>): Submission => ({
+    user_id: USER_ID,
+    created_at: overrides.date,
+    difficulty: 'Medium',
+    link: null,
+    platform: null,
+    description: null,
+    is_backdated: false,
+    counts_toward_streak: true,
+    time_spent_minutes: null,
+    client_id: null,
+    problem_id: null,
+    ...overrides,
+});
+
+const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(res => {
+        resolve = res;
+    });
+    return { promise, resolve };
+};
+
+const refused = { code: '23514', message: 'new row violates check constraint' };
+
+/** The memory backend with some of its submission methods replaced. */
+const withSubmissions = (backend: DataBackend, overrides: Partial<DataBackend['submissions']>): DataBackend => ({
+    ...backend,
+    submissions: { ...backend.submissions, ...overrides },
+});
+
+const cachedNames = () => submissionsRepo.getCachedList(USER_ID)?.map(s => s.problem_name);
+
+describe('submissionsRepo', () => {
+    let backend: DataBackend;
+
+    beforeEach(async () => {
+        clearCache();
+        backend = createMemoryBackend({
+            submissions: [
+                submission({ id: 1, date: '2026-10-01T12:00:00Z', problem_name: 'Two Sum' }),
+                submission({ id: 2, date: '2026-10-03T12:00:00Z', problem_name: 'Valid Anagram' }),
+            ],
+        });
+        setDataBackend(backend);
+        await submissionsRepo.list(USER_ID, { refresh: true, since: '2026-09-01T00:00:00Z' });
+    });
+
+    it('shows an insert in the cached list before the server replies, then swaps in the saved row', async () => {
+        const reply = deferred();
+        setDataBackend(withSubmissions(backend, {
+            insert: async rows => {
+                await reply.promise;
+                return backend.submissions.insert(rows);
+            },
+        }));
+
+        const pending = submissionsRepo.insert([{ user_id: USER_ID, date: '2026-10-02T12:00:00Z', problem_name: 'Group Anagrams', difficulty: 'Medium' }]);
+
+        expect(cachedNames()).toEqual(['Valid Anagram', 'Group Anagrams', 'Two Sum']);
+        expect(submissionsRepo.getCachedList(USER_ID)![1].id).toBeLessThan(0);
+
+        reply.resolve();
+        const [inserted] = await pending;
+
+        expect(inserted.id).toBe(3);
+        expect(submissionsRepo.getCachedList(USER_ID)!.map(s => s.id)).toEqual([2, 3, 1]);
+    });
+
+    it('drops an optimistic insert the server refuses', async () => {
+        setDataBackend(withSubmissions(backend, {
+            insert: async () => {
+                throw refused;
+            },
+        }));
+
+        await expect(submissionsRepo.insert([{ user_id: USER_ID, date: '2026-10-02T12:00:00Z', problem_name: 'Group Anagrams', difficulty: 'Medium' }]))
+            .rejects.toBe(refused);
+        expect(cachedNames()).toEqual(['Valid Anagram', 'Two Sum']);
+    });
+
+    it('puts back the cached row when the server refuses an update', async () => {
+        const reply = deferred();
+        setDataBackend(withSubmissions(backend, {
+            update: async () => {
+                await reply.promise;
+                throw refused;
+            },
+        }));
+
+        const pending = submissionsRepo.update(1, { problem_name: 'Three Sum' });
+        expect(cachedNames()).toEqual(['Valid Anagram', 'Three Sum']);
+
+        reply.resolve();
+        await expect(pending).rejects.toBe(refused);
+        expect(cachedNames()).toEqual(['Valid Anagram', 'Two Sum']);
+    });
+
+    it('puts back deleted rows when the server refuses the delete', async () => {
+        setDataBackend(withSubmissions(backend, {
+            remove: async () => {
+                throw refused;
+            },
+        }));
+
+        await expect(submissionsRepo.remove([2])).rejects.toBe(refused);
+        expect(cachedNames()).toEqual(['Valid Anagram', 'Two Sum']);
+    });
+
+    it('restores a deleted submission under its own id', async () => {
+        const removed = await submissionsRepo.remove([2]);
+        expect(cachedNames()).toEqual(['Two Sum']);
+
+        const restored = await submissionsRepo.restore(removed);
+
+        expect(restored.map(s => s.id)).toEqual([2]);
+        expect(cachedNames()).toEqual(['Valid Anagram', 'Two Sum']);
+        expect(await backend.submissions.getById(2)).toMatchObject({ problem_name: 'Valid Anagram' });
+    });
+
+    it('keeps the window of the last list when refreshing', async () => {
+        await submissionsRepo.list(USER_ID, { refresh: true, since: '2026-10-02T00:00:00Z' });
+        expect(cachedNames()).toEqual(['Valid Anagram']);
+
+        await submissionsRepo.list(USER_ID, { refresh: true });
+        expect(cachedNames()).toEqual(['Valid Anagram']);
+
+        const older = await submissionsRepo.summarize(USER_ID, '2026-10-02T00:00:00Z', 'UTC');
+        expect([...older.keys()]).toEqual(['2026-10-01']);
+        expect(older.get('2026-10-01')).toMatchObject({ count: 1, problems: ['Two Sum'] });
+    });
+});
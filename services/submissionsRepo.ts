@@ -0,0 +1,278 @@
+import { Submission } from '../types';
+import { getDataBackend, SubmissionInsert, SubmissionUpdate } from './backend';
+import {
+    getCachedQuery,
+    getCachedRow,
+    invalidateQueries,
+    isQueryFresh,
+    putCachedRows,
+    removeCachedRows,
+    setCachedQuery,
+    updateCachedQuery,
+} from './cache';
+import { SubmissionFilters, SubmissionPage } from './submissionQueries';
+import { DayActivity } from './activity';
+import { profileQueryKey } from './profilesRepo';
+
+const TABLE = 'submissions';
+
+const listQueryKey = (userId: string) => `submissions:${userId}`;
+
+const keyOf = (submission: Submission) => submission.id;
+
+// Where each user's cached list starts; see `list`.
+const listSince = new Map<string, string>();
+
+const byDateDesc = (a: Submission, b: Submission) => Date.parse(b.date) - Date.parse(a.date) || b.id - a.id;
+
+// Optimistic inserts without an id of their own get a placeholder far below
+// the ids of queued offline writes (see outbox.ts), replaced once the server replies.
+let lastPlaceholderId = Number.MIN_SAFE_INTEGER;
+
+const isPlaceholderId = (id: number) => id < Number.MIN_SAFE_INTEGER / 2;
+
+/**
+ * Adds rows to their owners' cached lists, keeping each list newest first.
+ */
+const addToLists = (rows: Submission[]) => {
+    for (const userId of new Set<string>(rows.map(row => row.user_id))) {
+        const added = rows.filter(row => row.user_id === userId).map(keyOf);
+        updateCachedQuery(listQueryKey(userId), keys => [...keys.filter(key => !added.includes(key as number)), ...added]
+            .map(key => getCachedRow<Submission>(TABLE, key))
+            .filter((row): row is Submission => !!row)
+            .sort(byDateDesc)
+            .map(keyOf));
+    }
+};
+
+/**
+ * Streaks are recalculated by the database whenever submissions change, so
+ * the owners' cached profiles are out of date after any write.
+ */
+const invalidateStreaks = (rows: { user_id: string }[]) => {
+    new Set<string>(rows.map(row => row.user_id)).forEach(userId => invalidateQueries(profileQueryKey(userId)));
+};
+
+/**
+ * Shows rows in the cached lists straight away, then swaps in what `write`
+ * returns, or drops them again if it throws. Rows carrying an id keep it;
+ * the rest are shown under a placeholder id until the server assigns theirs.
+ */
+const insertOptimistically = async (
+    rows: SubmissionInsert[],
+    write: (rows: SubmissionInsert[]) => Promise<Submission[]>
+): Promise<Submission[]> => {
+    const optimistic = rows.map(row => ({
+        created_at: new Date().toISOString(),
+        link: null,
+        platform: null,
+        description: null,
+        is_backdated: false,
+        counts_toward_streak: true,
+        time_spent_minutes: null,
+        client_id: null,
+        problem_id: null,
+        ...row,
+        id: row.id ?? ++lastPlaceholderId,
+    } as Submission));
+    putCachedRows(TABLE, optimistic, keyOf);
+    addToLists(optimistic);
+
+    try {
+        const inserted = await write(rows);
+        removeCachedRows(TABLE, optimistic.map(keyOf).filter(id => !inserted.some(row => row.id === id)));
+        putCachedRows(TABLE, inserted, keyOf);
+        addToLists(inserted);
+        invalidateStreaks(inserted);
+        return inserted;
+    } catch (err) {
+        removeCachedRows(TABLE, optimistic.map(keyOf));
+        throw err;
+    }
+};
+
+export const submissionsRepo = {
+    /**
+     * A user's submissions from `since` on, newest first. Without `since`,
+     * the window of the last call is kept. Served from the cache unless it
+     * was never loaded, has been invalidated, or `refresh` is set.
+     */
+    list: async (userId: string, options: { refresh?: boolean; since?: string } = {}): Promise<Submission[]> => {
+        const key = listQueryKey(userId);
+        if (options.since !== undefined) {
+            listSince.set(userId, options.since);
+        }
+        if (!options.refresh && isQueryFresh(key)) {
+            return getCachedQuery<Submission>(key) ?? [];
+        }
+        const rows = await getDataBackend().submissions.listByUser(userId, listSince.get(userId));
+        setCachedQuery(key, TABLE, rows, keyOf);
+        return rows;
+    },
+
+    /**
+     * Every submission a user has, straight from the server and not cached.
+     * Only for jobs that really need all of them, like finding duplicates
+     * before an import.
+     */
+    listAll: (userId: string): Promise<Submission[]> => getDataBackend().submissions.listByUser(userId),
+
+    /**
+     * Per-day totals of a user's submissions before `before`, for the
+     * heatmap, charts and goals. Not cached.
+     */
+    summarize: (userId: string, before: string, timeZone: string): Promise<Map<string, DayActivity>> =>
+        getDataBackend().submissions.summarize(userId, before, timeZone),
+
+    /**
+     * How many times the problem of each listed submission has been solved,
+     * keyed by submission id.
+     */
+    countSolves: (userId: string, ids: number[]): Promise<Map<number, number>> =>
+        getDataBackend().submissions.countSolves(userId, ids),
+
+    /**
+     * Makes sure the given submissions are cached, e.g. the older ones the
+     * review queue refers to, fetching only those that aren't.
+     */
+    load: async (ids: number[]): Promise<void> => {
+        const missing = [...new Set<number>(ids)].filter(id => getCachedRow(TABLE, id) === undefined);
+        if (missing.length === 0) return;
+        putCachedRows(TABLE, await getDataBackend().submissions.listByIds(missing), keyOf);
+    },
+
+    getCached: (id: number): Submission | undefined => getCachedRow<Submission>(TABLE, id),
+
+    /**
+     * The cached list as it stands, including optimistic changes.
+     */
+    getCachedList: (userId: string): Submission[] | undefined => getCachedQuery<Submission>(listQueryKey(userId)),
+
+    /**
+     * Seeds the cache with rows from elsewhere (the offline copy). They count
+     * as stale, so the next `list` still goes to the server. `since` is the
+     * window they were listed with.
+     */
+    prime: (userId: string, rows: Submission[], since?: string): void => {
+        if (since !== undefined) {
+            listSince.set(userId, since);
+        }
+        setCachedQuery(listQueryKey(userId), TABLE, rows, keyOf);
+        invalidateQueries(listQueryKey(userId));
+    },
+
+    /**
+     * One page of the filtered, sorted history. Rows it returns are cached,
+     * but the page itself isn't.
+     */
+    page: async (userId: string, filters: SubmissionFilters, page: number, timeZone: string): Promise<SubmissionPage> => {
+        const result = await getDataBackend().submissions.page(userId, filters, page, timeZone);
+        putCachedRows(TABLE, result.rows, keyOf);
+        return result;
+    },
+
+    /**
+     * Reads a submission from the server, bypassing the cache.
+     */
+    get: async (id: number): Promise<Submission | null> => {
+        const row = await getDataBackend().submissions.getById(id);
+        if (row) putCachedRows(TABLE, [row], keyOf);
+        return row;
+    },
+
+    findByClientId: async (clientId: string): Promise<Submission | null> => {
+        const row = await getDataBackend().submissions.getByClientId(clientId);
+        if (row) {
+            putCachedRows(TABLE, [row], keyOf);
+            addToLists([row]);
+        }
+        return row;
+    },
+
+    /**
+     * Merges a row inserted or updated elsewhere (e.g. on another device).
+     * An insert from this device can be announced before its own reply
+     * arrives; its placeholder is dropped then, matched by `client_id`.
+     */
+    receive: (row: Submission): void => {
+        const placeholders = row.client_id
+            ? (getCachedQuery<Submission>(listQueryKey(row.user_id)) ?? []).filter(s => isPlaceholderId(s.id) && s.client_id === row.client_id)
+            : [];
+        if (placeholders.length > 0) {
+            removeCachedRows(TABLE, placeholders.map(keyOf));
+        }
+        putCachedRows(TABLE, [row], keyOf);
+        addToLists([row]);
+    },
+
+    /**
+     * Drops rows deleted elsewhere. Unknown ids are ignored.
+     */
+    receiveDeleted: (ids: number[]): void => {
+        if (ids.some(id => getCachedRow(TABLE, id) !== undefined)) {
+            removeCachedRows(TABLE, ids);
+        }
+    },
+
+    /**
+     * Inserts submissions, showing them in the cached lists straight away.
+     */
+    insert: (rows: SubmissionInsert[]): Promise<Submission[]> =>
+        insertOptimistically(rows, getDataBackend().submissions.insert),
+
+    /**
+     * Inserts history from another tracker, optimistically like `insert`.
+     * Solves from before the backfill window are kept but don't count toward
+     * the streak.
+     */
+    import: (rows: SubmissionInsert[]): Promise<Submission[]> =>
+        insertOptimistically(rows, getDataBackend().submissions.import),
+
+    /**
+     * Undoes a recent delete, putting the rows back under their own ids.
+     */
+    restore: (rows: Submission[]): Promise<Submission[]> =>
+        insertOptimistically(rows, () => getDataBackend().submissions.restore(rows.map(keyOf))),
+
+    /**
+     * Applies `changes` to the cached row at once and rolls back if the server refuses.
+     */
+    update: async (id: number, changes: SubmissionUpdate): Promise<Submission> => {
+        const previous = getCachedRow<Submission>(TABLE, id);
+        if (previous) {
+            putCachedRows(TABLE, [{ ...previous, ...changes } as Submission], keyOf);
+            addToLists([previous]);
+        }
+        try {
+            const updated = await getDataBackend().submissions.update(id, changes);
+            putCachedRows(TABLE, [updated], keyOf);
+            addToLists([updated]);
+            invalidateStreaks([updated]);
+            return updated;
+        } catch (err) {
+            if (previous) {
+                putCachedRows(TABLE, [previous], keyOf);
+                addToLists([previous]);
+            }
+            throw err;
+        }
+    },
+
+    /**
+     * Deletes submissions, dropping them from the cache at once and putting
+     * them back if the server refuses. Resolves with the deleted rows, for undo.
+     */
+    remove: async (ids: number[]): Promise<Submission[]> => {
+        const previous = ids.map(id => getCachedRow<Submission>(TABLE, id)).filter((row): row is Submission => !!row);
+        removeCachedRows(TABLE, ids);
+        try {
+            const removed = await getDataBackend().submissions.remove(ids);
+            invalidateStreaks(removed);
+            return removed;
+        } catch (err) {
+            putCachedRows(TABLE, previous, keyOf);
+            addToLists(previous);
+            throw err;
+        }
+    },
+};
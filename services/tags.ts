@@ -0,0 +1,162 @@
+import { supabase } from './supabase';
+import { Tag } from '../types';
+
+/**
+ * Curated DSA topics offered to every user. The same list is seeded into the
+ * `tags` table as shared rows (user_id = null) by
+ * supabase/migrations/20261019091000_topic_tags.sql; keep the two in step.
+ */
+export const DEFAULT_TAGS = [
+    'Array',
+    'String',
+    'Hash Table',
+    'Two Pointers',
+    'Sliding Window',
+    'Stack',
+    'Queue',
+    'Linked List',
+    'Binary Search',
+    'Sorting',
+    'Greedy',
+    'Recursion',
+    'Backtracking',
+    'Tree',
+    'Binary Search Tree',
+    'Heap / Priority Queue',
+    'Trie',
+    'Graph / BFS',
+    'Graph / DFS',
+    'Graph / Shortest Path',
+    'Union Find',
+    'Topological Sort',
+    'DP / 1D',
+    'DP / 2D',
+    'DP / Knapsack',
+    'DP / Intervals',
+    'Bit Manipulation',
+    'Math',
+    'Geometry',
+    'Segment Tree',
+];
+
+/**
+ * Trims a tag name and collapses inner whitespace so "Graph  / BFS " and
+ * "Graph / BFS" resolve to the same tag.
+ */
+export const normalizeTagName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+const tagKey = (name: string): string => normalizeTagName(name).toLowerCase();
+
+export interface TagData {
+    tags: Tag[];
+    tagsBySubmission: Map<number, string[]>;
+}
+
+/**
+ * Loads every tag visible to the user (shared and their own) together with
+ * the tag names attached to each of their submissions.
+ */
+export const fetchTagData = async (userId: string): Promise<TagData> => {
+    const [{ data: tags, error: tagsError }, { data: links, error: linksError }] = await Promise.all([
+        supabase.from('tags').select('*').or(`user_id.is.null,user_id.eq.${userId}`).order('name'),
+        supabase.from('submission_tags').select('*').eq('user_id', userId),
+    ]);
+    if (tagsError) throw tagsError;
+    if (linksError) throw linksError;
+
+    const namesById = new Map((tags ?? []).map(tag => [tag.id, tag.name]));
+    const tagsBySubmission = new Map<number, string[]>();
+    (links ?? []).forEach(link => {
+        const name = namesById.get(link.tag_id);
+        if (!name) return;
+        tagsBySubmission.set(link.submission_id, [...(tagsBySubmission.get(link.submission_id) ?? []), name]);
+    });
+
+    return { tags: tags ?? [], tagsBySubmission };
+};
+
+/**
+ * Merges the curated defaults with the tags already stored, de-duplicated
+ * case-insensitively, for use as autocomplete suggestions.
+ */
+export const getTagSuggestions = (tags: Tag[]): string[] => {
+    const byKey = new Map<string, string>();
+    [...DEFAULT_TAGS, ...tags.map(tag => tag.name)].forEach(name => {
+        if (!byKey.has(tagKey(name))) {
+            byKey.set(tagKey(name), normalizeTagName(name));
+        }
+    });
+    return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Resolves tag names to ids, creating user-owned tags for any names that
+ * don't exist yet. Returns a map keyed by the lower-cased, normalized name.
+ */
+const resolveTagIds = async (userId: string, names: string[]): Promise<Map<string, number>> => {
+    const wanted = new Map<string, string>();
+    names.forEach(name => {
+        if (tagKey(name)) {
+            wanted.set(tagKey(name), normalizeTagName(name));
+        }
+    });
+    const ids = new Map<string, number>();
+    if (wanted.size === 0) {
+        return ids;
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+        .from('tags')
+        .select('*')
+        .or(`user_id.is.null,user_id.eq.${userId}`);
+    if (fetchError) throw fetchError;
+
+    (existing ?? []).forEach(tag => {
+        if (wanted.has(tagKey(tag.name)) && !ids.has(tagKey(tag.name))) {
+            ids.set(tagKey(tag.name), tag.id);
+        }
+    });
+
+    const missing = [...wanted.entries()].filter(([key]) => !ids.has(key)).map(([, name]) => name);
+    if (missing.length > 0) {
+        const { data: created, error: createError } = await supabase
+            .from('tags')
+            .insert(missing.map(name => ({ user_id: userId, name })))
+            .select();
+        if (createError) throw createError;
+        (created ?? []).forEach(tag => ids.set(tagKey(tag.name), tag.id));
+    }
+    return ids;
+};
+
+/**
+ * Replaces the tags on a submission, creating user-owned tags for any names
+ * that don't exist yet.
+ */
+export const saveSubmissionTags = async (userId: string, submissionId: number, names: string[]): Promise<void> => {
+    const { error: clearError } = await supabase
+        .from('submission_tags')
+        .delete()
+        .eq('submission_id', submissionId);
+    if (clearError) throw clearError;
+
+    await addTagsToSubmissions(userId, new Map([[submissionId, names]]));
+};
+
+/**
+ * Attaches tags to many submissions at once, resolving every name in a
+ * single pass. Existing links are left alone.
+ */
+export const addTagsToSubmissions = async (userId: string, namesBySubmission: Map<number, string[]>): Promise<void> => {
+    const ids = await resolveTagIds(userId, [...namesBySubmission.values()].flat());
+    const links: { submission_id: number; tag_id: number; user_id: string }[] = [];
+    namesBySubmission.forEach((names, submissionId) => {
+        new Set(names.map(name => ids.get(tagKey(name))).filter((id): id is number => id !== undefined))
+            .forEach(tagId => links.push({ submission_id: submissionId, tag_id: tagId, user_id: userId }));
+    });
+
+    if (links.length > 0) {
+        const { error: linkError } = await supabase.from('submission_tags').insert(links);
+        if (linkError) throw linkError;
+    }
+};
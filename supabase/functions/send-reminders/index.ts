@@ -0,0 +1,164 @@
+// Sends Web Push streak reminders. Meant to run every 15 minutes from
+// pg_cron (see README). Each run finds reminder times that have passed today
+// in the user's timezone and haven't been sent yet, skips users who already
+// logged today (or reviewed, when reviews count toward their streak), have a
+// rest day or are in quiet hours, and pushes to every subscribed browser.
+//
+// Secrets: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (a mailto: or
+// https: contact). SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided
+// by the platform.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+// Reminders more than this far in the past are dropped rather than sent late.
+const MAX_LATENESS_MINUTES = 60;
+
+webpush.setVapidDetails(
+    Deno.env.get('VAPID_SUBJECT')!,
+    Deno.env.get('VAPID_PUBLIC_KEY')!,
+    Deno.env.get('VAPID_PRIVATE_KEY')!,
+);
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const resolveTimeZone = (timeZone: string | null): string => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timeZone ?? 'UTC' });
+        return timeZone ?? 'UTC';
+    } catch {
+        return 'UTC';
+    }
+};
+
+const getDayKey = (instant: Date, timeZone: string): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+
+const getLocalClock = (instant: Date, timeZone: string): { minuteOfDay: number; weekday: number } => {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', weekday: 'short', hourCycle: 'h23' }).formatToParts(instant);
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    return {
+        minuteOfDay: Number(part('hour')) * 60 + Number(part('minute')),
+        weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+    };
+};
+
+const timeToMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// Mirrors isInQuietHours in services/reminders.ts.
+const isInQuietHours = (minuteOfDay: number, start: string | null, end: string | null): boolean => {
+    if (!start || !end) return false;
+    const from = timeToMinutes(start);
+    const to = timeToMinutes(end);
+    return from <= to
+        ? minuteOfDay >= from && minuteOfDay < to
+        : minuteOfDay >= from || minuteOfDay < to;
+};
+
+Deno.serve(async () => {
+    const now = new Date();
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+        .from('push_subscriptions')
+        .select('id, user_id, endpoint, p256dh, auth');
+    if (subscriptionsError) {
+        return new Response(subscriptionsError.message, { status: 500 });
+    }
+
+    const subscriptionsByUser = new Map<string, typeof subscriptions>();
+    for (const subscription of subscriptions ?? []) {
+        subscriptionsByUser.set(subscription.user_id, [...(subscriptionsByUser.get(subscription.user_id) ?? []), subscription]);
+    }
+    if (subscriptionsByUser.size === 0) {
+        return Response.json({ sent: 0 });
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, timezone, current_streak, rest_days, reminder_times, quiet_hours_start, quiet_hours_end, reviews_count_toward_streak')
+        .in('id', [...subscriptionsByUser.keys()]);
+    if (profilesError) {
+        return new Response(profilesError.message, { status: 500 });
+    }
+
+    let sent = 0;
+    for (const profile of profiles ?? []) {
+        const timeZone = resolveTimeZone(profile.timezone);
+        const todayKey = getDayKey(now, timeZone);
+        const { minuteOfDay, weekday } = getLocalClock(now, timeZone);
+        if ((profile.rest_days ?? []).includes(weekday)) continue;
+
+        const due = (profile.reminder_times as string[]).filter(time => {
+            const minutes = timeToMinutes(time);
+            return minutes <= minuteOfDay
+                && minuteOfDay - minutes <= MAX_LATENESS_MINUTES
+                && !isInQuietHours(minutes, profile.quiet_hours_start, profile.quiet_hours_end);
+        });
+        if (due.length === 0) continue;
+
+        const { data: alreadySent } = await supabase
+            .from('reminders_sent')
+            .select('reminder_time')
+            .eq('user_id', profile.id)
+            .eq('day_key', todayKey);
+        const sentTimes = new Set((alreadySent ?? []).map(row => row.reminder_time));
+        const pending = due.filter(time => !sentTimes.has(time));
+        if (pending.length === 0) continue;
+
+        const { data: latest } = await supabase
+            .from('submissions')
+            .select('date')
+            .eq('user_id', profile.id)
+            .order('date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+        if (latest && getDayKey(new Date(latest.date), timeZone) === todayKey) continue;
+
+        // Reviews keep the streak alive too when the user counts them.
+        if (profile.reviews_count_toward_streak) {
+            const { data: latestReview } = await supabase
+                .from('review_events')
+                .select('reviewed_at')
+                .eq('user_id', profile.id)
+                .order('reviewed_at', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+            if (latestReview && getDayKey(new Date(latestReview.reviewed_at), timeZone) === todayKey) continue;
+        }
+
+        // Claim the reminders first so an overlapping run can't send them too.
+        const { data: claimed, error: claimError } = await supabase
+            .from('reminders_sent')
+            .upsert(pending.map(time => ({ user_id: profile.id, day_key: todayKey, reminder_time: time })), { ignoreDuplicates: true })
+            .select();
+        if (claimError || !claimed || claimed.length === 0) continue;
+
+        const payload = JSON.stringify({
+            title: "Don't break your streak!",
+            body: profile.current_streak > 0
+                ? `You haven't logged a problem today. Your ${profile.current_streak}-day streak ends at midnight.`
+                : "You haven't logged a problem today.",
+            url: '/submissions',
+        });
+
+        for (const subscription of subscriptionsByUser.get(profile.id) ?? []) {
+            try {
+                await webpush.sendNotification({ endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } }, payload);
+                sent++;
+            } catch (err) {
+                // The browser unsubscribed or the subscription expired.
+                const statusCode = err instanceof webpush.WebPushError ? err.statusCode : undefined;
+                if (statusCode === 404 || statusCode === 410) {
+                    await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+                } else {
+                    console.error('Push failed:', err);
+                }
+            }
+        }
+    }
+
+    return Response.json({ sent });
+});
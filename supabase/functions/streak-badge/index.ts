@@ -0,0 +1,185 @@
+// Serves a public profile's streak badge as an SVG, so a README that embeds
+// it always shows the current numbers instead of a file downloaded once.
+//
+//   GET /functions/v1/streak-badge?user=<username>&theme=dark|light|teal
+//
+// Only reads the `public_profiles` and `public_submissions` views, with the
+// anon key, so it can't show anything the public profile page doesn't.
+// Unknown or private users get 404. SUPABASE_URL and SUPABASE_ANON_KEY are
+// provided by the platform.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// GitHub proxies README images and honors this, so badges refresh within
+// the hour without every page view reaching the database.
+const CACHE_CONTROL = 'public, max-age=1800';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!);
+
+// Everything below mirrors buildBadgeSvg in services/badge.ts (and the helpers
+// it uses from services/activity.ts and services/streaks.ts); keep them in
+// step so the served badge matches the preview on the Profile page.
+
+type BadgeTheme = 'dark' | 'light' | 'teal';
+
+const BADGE_THEMES: Record<BadgeTheme, { background: string; border: string; title: string; label: string; value: string; cells: string[] }> = {
+    dark: {
+        background: '#0d1117',
+        border: '#30363d',
+        title: '#2dd4bf',
+        label: '#8b949e',
+        value: '#f0f6fc',
+        cells: ['#1f2937', '#115e59', '#0d9488', '#2dd4bf'],
+    },
+    light: {
+        background: '#ffffff',
+        border: '#d0d7de',
+        title: '#0f766e',
+        label: '#57606a',
+        value: '#1f2328',
+        cells: ['#ebedf0', '#99f6e4', '#2dd4bf', '#0f766e'],
+    },
+    teal: {
+        background: '#042f2e',
+        border: '#115e59',
+        title: '#5eead4',
+        label: '#99f6e4',
+        value: '#f0fdfa',
+        cells: ['#134e4a', '#0f766e', '#14b8a6', '#5eead4'],
+    },
+};
+
+const BADGE_WEEKS = 20;
+const BADGE_WIDTH = 460;
+const BADGE_HEIGHT = 150;
+const CELL_SIZE = 10;
+const CELL_GAP = 2;
+const FONT_FAMILY = "'Segoe UI', Helvetica, Arial, sans-serif";
+const MAX_TITLE_NAME_LENGTH = 32;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const resolveTimeZone = (timeZone: string | null): string => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timeZone ?? 'UTC' });
+        return timeZone ?? 'UTC';
+    } catch {
+        return 'UTC';
+    }
+};
+
+const getDayKey = (instant: Date, timeZone: string): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+
+const dayKeyToDayNumber = (dayKey: string): number => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+const dayNumberToDayKey = (dayNumber: number): string => new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+
+const getWeekday = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+const getIntensityLevel = (count: number): number => {
+    if (count >= 4) return 3;
+    if (count >= 2) return 2;
+    if (count >= 1) return 1;
+    return 0;
+};
+
+const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const pluralDays = (count: number): string => `${count} day${count === 1 ? '' : 's'}`;
+
+const buildBadgeSvg = (
+    data: { username: string; currentStreak: number; longestStreak: number; solvesByDay: Map<string, number>; today: number },
+    theme: BadgeTheme,
+): string => {
+    const palette = BADGE_THEMES[theme];
+    const firstDay = data.today - getWeekday(data.today) - (BADGE_WEEKS - 1) * 7;
+    const gridX = BADGE_WIDTH - 20 - BADGE_WEEKS * (CELL_SIZE + CELL_GAP) + CELL_GAP;
+    const gridY = BADGE_HEIGHT - 20 - (7 * (CELL_SIZE + CELL_GAP) - CELL_GAP);
+
+    const cells: string[] = [];
+    for (let day = firstDay; day <= data.today; day++) {
+        const offset = day - firstDay;
+        const x = gridX + Math.floor(offset / 7) * (CELL_SIZE + CELL_GAP);
+        const y = gridY + (offset % 7) * (CELL_SIZE + CELL_GAP);
+        const level = getIntensityLevel(data.solvesByDay.get(dayNumberToDayKey(day)) ?? 0);
+        cells.push(`<rect x="${x}" y="${y}" width="${CELL_SIZE}" height="${CELL_SIZE}" rx="2" fill="${palette.cells[level]}"/>`);
+    }
+
+    const name = data.username.length > MAX_TITLE_NAME_LENGTH ? `${data.username.slice(0, MAX_TITLE_NAME_LENGTH - 1)}…` : data.username;
+    const title = escapeXml(`${name} · DSA Streak`);
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${BADGE_WIDTH}" height="${BADGE_HEIGHT}" viewBox="0 0 ${BADGE_WIDTH} ${BADGE_HEIGHT}" role="img" aria-label="${title}: current streak ${pluralDays(data.currentStreak)}, longest ${pluralDays(data.longestStreak)}">`,
+        `<title>${title}</title>`,
+        `<rect x="0.5" y="0.5" width="${BADGE_WIDTH - 1}" height="${BADGE_HEIGHT - 1}" rx="8" fill="${palette.background}" stroke="${palette.border}"/>`,
+        `<g font-family="${FONT_FAMILY}">`,
+        `<text x="20" y="32" font-size="15" font-weight="700" fill="${palette.title}">${title}</text>`,
+        `<text x="20" y="62" font-size="12" fill="${palette.label}">Current streak</text>`,
+        `<text x="20" y="86" font-size="22" font-weight="700" fill="${palette.value}">${pluralDays(data.currentStreak)}</text>`,
+        `<text x="20" y="112" font-size="12" fill="${palette.label}">Longest streak</text>`,
+        `<text x="20" y="136" font-size="22" font-weight="700" fill="${palette.value}">${pluralDays(data.longestStreak)}</text>`,
+        `</g>`,
+        ...cells,
+        `</svg>`,
+    ].join('\n');
+};
+
+Deno.serve(async (req) => {
+    const params = new URL(req.url).searchParams;
+    const username = params.get('user');
+    const requestedTheme = params.get('theme') ?? 'dark';
+    const theme: BadgeTheme = requestedTheme in BADGE_THEMES ? requestedTheme as BadgeTheme : 'dark';
+    if (!username) {
+        return new Response('Pass ?user=<username>.', { status: 400 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+        .from('public_profiles')
+        .select('id, username, timezone, current_streak, longest_streak')
+        .eq('username', username)
+        .limit(1)
+        .maybeSingle();
+    if (profileError) {
+        return new Response(profileError.message, { status: 500 });
+    }
+    if (!profile) {
+        return new Response('No public profile with that username.', { status: 404 });
+    }
+
+    const timeZone = resolveTimeZone(profile.timezone);
+    const now = new Date();
+    const today = dayKeyToDayNumber(getDayKey(now, timeZone));
+    // A day of slack on top of the drawn weeks covers any timezone offset.
+    const since = new Date(now.getTime() - (BADGE_WEEKS * 7 + 1) * MS_PER_DAY);
+    const { data: submissions, error: submissionsError } = await supabase
+        .from('public_submissions')
+        .select('date')
+        .eq('user_id', profile.id)
+        .gte('date', since.toISOString());
+    if (submissionsError) {
+        return new Response(submissionsError.message, { status: 500 });
+    }
+
+    const solvesByDay = new Map<string, number>();
+    for (const submission of submissions ?? []) {
+        const dayKey = getDayKey(new Date(submission.date), timeZone);
+        solvesByDay.set(dayKey, (solvesByDay.get(dayKey) ?? 0) + 1);
+    }
+
+    const svg = buildBadgeSvg({
+        username: profile.username,
+        currentStreak: profile.current_streak ?? 0,
+        longestStreak: profile.longest_streak ?? 0,
+        solvesByDay,
+        today,
+    }, theme);
+    return new Response(svg, {
+        headers: { 'Content-Type': 'image/svg+xml; charset=utf-8', 'Cache-Control': CACHE_CONTROL },
+    });
+});
@@ -0,0 +1,83 @@
+-- The core schema the app started from: profiles and submissions.
+--
+-- Every table is owner-only under RLS. Other users only ever see data
+-- through the views and SECURITY DEFINER functions added by later
+-- migrations.
+--
+-- Projects created before migrations were checked in already have these
+-- tables. Mark this file as applied there instead of running it:
+--   supabase migration repair --status applied 20261019090000
+
+-- Profiles --------------------------------------------------------------
+
+create table public.profiles (
+    id uuid primary key references auth.users (id) on delete cascade,
+    updated_at timestamptz,
+    username text check (char_length(btrim(username)) between 1 and 60),
+    current_streak integer not null default 0 check (current_streak >= 0),
+    longest_streak integer not null default 0 check (longest_streak >= 0),
+    streak_goal integer not null default 30 check (streak_goal > 0),
+    timezone text,
+    streak_freezes integer not null default 0 check (streak_freezes >= 0),
+    -- Weekdays as in JS (0 = Sunday). At least one day a week has to count.
+    rest_days integer[] not null default '{}'
+        check (rest_days <@ array[0, 1, 2, 3, 4, 5, 6] and cardinality(rest_days) < 7),
+    backfill_window_days integer not null default 3 check (backfill_window_days between 0 and 30),
+    reviews_count_toward_streak boolean not null default false
+);
+
+-- Usernames aren't unique, but public profiles and follows look them up.
+create index profiles_username_idx on public.profiles (username);
+
+alter table public.profiles enable row level security;
+
+create policy "Users can view their own profile"
+    on public.profiles for select
+    using (id = auth.uid());
+
+create policy "Users can create their own profile"
+    on public.profiles for insert
+    with check (id = auth.uid());
+
+create policy "Users can update their own profile"
+    on public.profiles for update
+    using (id = auth.uid())
+    with check (id = auth.uid());
+
+-- Submissions -----------------------------------------------------------
+
+-- `generated by default` rather than `always`: undoing a delete puts rows
+-- back with their original ids, so tags and review history still line up.
+create table public.submissions (
+    id bigint generated by default as identity primary key,
+    created_at timestamptz not null default now(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    date timestamptz not null,
+    problem_name text not null check (char_length(btrim(problem_name)) > 0),
+    link text,
+    difficulty text not null check (difficulty in ('Easy', 'Medium', 'Hard')),
+    platform text,
+    description text,
+    is_backdated boolean not null default false
+);
+
+create index submissions_user_id_date_idx on public.submissions (user_id, date desc);
+
+alter table public.submissions enable row level security;
+
+create policy "Users can view their own submissions"
+    on public.submissions for select
+    using (user_id = auth.uid());
+
+create policy "Users can create their own submissions"
+    on public.submissions for insert
+    with check (user_id = auth.uid());
+
+create policy "Users can update their own submissions"
+    on public.submissions for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own submissions"
+    on public.submissions for delete
+    using (user_id = auth.uid());
@@ -0,0 +1,70 @@
+-- Topic tags (services/tags.ts): a curated list of DSA topics shared by
+-- everyone, custom tags per user, and the links between submissions and
+-- tags.
+--
+-- Projects that ran this SQL by hand before migrations were checked in
+-- should mark this file as applied instead of running it:
+--   supabase migration repair --status applied 20261019091000
+
+-- Rows with no user_id are the curated topics offered to everyone.
+create table public.tags (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    user_id uuid references auth.users (id) on delete cascade,
+    name text not null check (char_length(btrim(name)) between 1 and 50)
+);
+
+create unique index tags_user_id_name_key on public.tags (user_id, lower(name)) nulls not distinct;
+
+create table public.submission_tags (
+    submission_id bigint not null references public.submissions (id) on delete cascade,
+    tag_id bigint not null references public.tags (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    primary key (submission_id, tag_id)
+);
+
+create index submission_tags_user_id_idx on public.submission_tags (user_id);
+create index submission_tags_tag_id_idx on public.submission_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.submission_tags enable row level security;
+
+create policy "Users can view shared tags and their own"
+    on public.tags for select
+    using (user_id is null or user_id = auth.uid());
+
+create policy "Users can create their own tags"
+    on public.tags for insert
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own tags"
+    on public.tags for delete
+    using (user_id = auth.uid());
+
+create policy "Users can view their own tag links"
+    on public.submission_tags for select
+    using (user_id = auth.uid());
+
+create policy "Users can tag their own submissions"
+    on public.submission_tags for insert
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from public.submissions s where s.id = submission_id and s.user_id = auth.uid())
+        and exists (select 1 from public.tags t where t.id = tag_id and (t.user_id is null or t.user_id = auth.uid()))
+    );
+
+create policy "Users can remove their own tag links"
+    on public.submission_tags for delete
+    using (user_id = auth.uid());
+
+-- Keep in step with DEFAULT_TAGS in services/tags.ts.
+insert into public.tags (user_id, name)
+select null, name
+from unnest(array[
+    'Array', 'String', 'Hash Table', 'Two Pointers', 'Sliding Window', 'Stack',
+    'Queue', 'Linked List', 'Binary Search', 'Sorting', 'Greedy', 'Recursion',
+    'Backtracking', 'Tree', 'Binary Search Tree', 'Heap / Priority Queue', 'Trie',
+    'Graph / BFS', 'Graph / DFS', 'Graph / Shortest Path', 'Union Find',
+    'Topological Sort', 'DP / 1D', 'DP / 2D', 'DP / Knapsack', 'DP / Intervals',
+    'Bit Manipulation', 'Math', 'Geometry', 'Segment Tree'
+]) as name;
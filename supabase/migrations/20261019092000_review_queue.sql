@@ -0,0 +1,68 @@
+-- The review queue (services/reviews.ts): an SM-2 schedule per submission
+-- the user wants to revisit, and a history of every review.
+--
+-- Projects that ran this SQL by hand before migrations were checked in
+-- should mark this file as applied instead of running it:
+--   supabase migration repair --status applied 20261019092000
+-- 20261031090000_review_event_ownership.sql then brings their policy on
+-- `review_events` up to date.
+
+-- One SM-2 schedule per submission; `review_events` keeps the history.
+create table public.review_schedules (
+    submission_id bigint primary key references public.submissions (id) on delete cascade,
+    created_at timestamptz not null default now(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    ease_factor double precision not null default 2.5 check (ease_factor >= 1.3),
+    interval_days integer not null default 0 check (interval_days >= 0),
+    repetitions integer not null default 0 check (repetitions >= 0),
+    due_on date not null,
+    last_reviewed_at timestamptz
+);
+
+create index review_schedules_user_id_due_on_idx on public.review_schedules (user_id, due_on);
+
+-- Events outlive their submission so reviews keep counting toward streaks.
+create table public.review_events (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    submission_id bigint references public.submissions (id) on delete set null,
+    reviewed_at timestamptz not null default now(),
+    quality smallint not null check (quality between 0 and 5)
+);
+
+create index review_events_user_id_reviewed_at_idx on public.review_events (user_id, reviewed_at desc);
+
+alter table public.review_schedules enable row level security;
+alter table public.review_events enable row level security;
+
+create policy "Users can view their own review schedules"
+    on public.review_schedules for select
+    using (user_id = auth.uid());
+
+create policy "Users can schedule their own submissions"
+    on public.review_schedules for insert
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from public.submissions s where s.id = submission_id and s.user_id = auth.uid())
+    );
+
+create policy "Users can update their own review schedules"
+    on public.review_schedules for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own review schedules"
+    on public.review_schedules for delete
+    using (user_id = auth.uid());
+
+create policy "Users can view their own review events"
+    on public.review_events for select
+    using (user_id = auth.uid());
+
+create policy "Users can record reviews of their own submissions"
+    on public.review_events for insert
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from public.submissions s where s.id = submission_id and s.user_id = auth.uid())
+    );
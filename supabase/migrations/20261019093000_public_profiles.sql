@@ -0,0 +1,42 @@
+-- Public profiles: an opt-in, read-only page per user at /u/<username>
+-- (services/publicProfile.ts), visible to anyone including signed-out
+-- visitors.
+--
+-- Profiles and submissions stay owner-only under RLS. Visitors read them
+-- through the two views below, which list their columns one by one so
+-- that a column added to either table later is never published by
+-- accident. Links and notes are blanked unless the owner shares them.
+--
+-- Projects that ran this SQL by hand before migrations were checked in
+-- should mark this file as applied instead of running it:
+--   supabase migration repair --status applied 20261019093000
+
+alter table public.profiles
+    add column is_public boolean not null default false,
+    add column public_show_notes boolean not null default false,
+    add column public_show_links boolean not null default false;
+
+-- These views run as their owner, so they read past the owner-only RLS on
+-- the tables. Only profiles that opted in and have a username (the page's
+-- address) are exposed.
+create view public.public_profiles as
+    select p.id, p.username, p.timezone, p.current_streak, p.longest_streak, p.rest_days
+    from public.profiles p
+    where p.is_public and p.username is not null;
+
+create view public.public_submissions as
+    select
+        s.id,
+        s.user_id,
+        s.date,
+        s.problem_name,
+        s.difficulty,
+        s.platform,
+        case when p.public_show_links then s.link end as link,
+        case when p.public_show_notes then s.description end as description
+    from public.submissions s
+    join public.profiles p on p.id = s.user_id
+    where p.is_public and p.username is not null;
+
+revoke all on public.public_profiles, public.public_submissions from anon, authenticated;
+grant select on public.public_profiles, public.public_submissions to anon, authenticated;
@@ -0,0 +1,250 @@
+-- Study groups: shared leaderboards and activity feeds.
+--
+-- Members never read each other's rows in `profiles` or `submissions`
+-- directly. The leaderboard and feed are served by SECURITY DEFINER
+-- functions that check membership first and only return the columns a
+-- group is meant to see (no notes, no links).
+
+create table public.groups (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    name text not null check (char_length(btrim(name)) between 1 and 60),
+    invite_code text not null unique,
+    created_by uuid not null references auth.users (id) on delete cascade
+);
+
+create table public.group_members (
+    group_id bigint not null references public.groups (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    role text not null default 'member' check (role in ('admin', 'member')),
+    joined_at timestamptz not null default now(),
+    primary key (group_id, user_id)
+);
+
+create index group_members_user_id_idx on public.group_members (user_id);
+
+alter table public.groups enable row level security;
+alter table public.group_members enable row level security;
+
+-- Membership checks used by the policies below. SECURITY DEFINER so the
+-- policies on group_members don't recurse into themselves.
+create function public.is_group_member(p_group_id bigint)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+    select exists (
+        select 1 from group_members
+        where group_id = p_group_id and user_id = auth.uid()
+    );
+$$;
+
+create function public.is_group_admin(p_group_id bigint)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+    select exists (
+        select 1 from group_members
+        where group_id = p_group_id and user_id = auth.uid() and role = 'admin'
+    );
+$$;
+
+create policy "Members can view their groups"
+    on public.groups for select
+    using (public.is_group_member(id));
+
+create policy "Admins can rename their groups"
+    on public.groups for update
+    using (public.is_group_admin(id))
+    with check (public.is_group_admin(id));
+
+create policy "Admins can delete their groups"
+    on public.groups for delete
+    using (public.is_group_admin(id));
+
+create policy "Members can view fellow members"
+    on public.group_members for select
+    using (public.is_group_member(group_id));
+
+create policy "Admins can change member roles"
+    on public.group_members for update
+    using (public.is_group_admin(group_id))
+    with check (public.is_group_admin(group_id));
+
+create policy "Admins can remove members"
+    on public.group_members for delete
+    using (public.is_group_admin(group_id) and user_id <> auth.uid());
+
+-- Groups are created and joined through these functions only; there are
+-- no insert policies, so clients can't add themselves (or anyone else)
+-- to a group without its invite code.
+
+create function public.create_group(p_name text)
+returns public.groups
+language plpgsql security definer set search_path = public
+as $$
+declare
+    new_group groups;
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    insert into groups (name, invite_code, created_by)
+    values (btrim(p_name), upper(substr(md5(gen_random_uuid()::text), 1, 8)), auth.uid())
+    returning * into new_group;
+
+    insert into group_members (group_id, user_id, role)
+    values (new_group.id, auth.uid(), 'admin');
+
+    return new_group;
+end;
+$$;
+
+create function public.join_group_by_code(p_invite_code text)
+returns public.groups
+language plpgsql security definer set search_path = public
+as $$
+declare
+    target groups;
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    select * into target from groups where invite_code = upper(btrim(p_invite_code));
+    if target.id is null then
+        raise exception 'No group found for that invite code';
+    end if;
+
+    insert into group_members (group_id, user_id)
+    values (target.id, auth.uid())
+    on conflict do nothing;
+
+    return target;
+end;
+$$;
+
+-- Leaving as the last admin hands the role to the longest-standing member;
+-- leaving as the last member deletes the group.
+create function public.leave_group(p_group_id bigint)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+    delete from group_members where group_id = p_group_id and user_id = auth.uid();
+
+    if not exists (select 1 from group_members where group_id = p_group_id) then
+        delete from groups where id = p_group_id;
+    elsif not exists (select 1 from group_members where group_id = p_group_id and role = 'admin') then
+        update group_members set role = 'admin'
+        where group_id = p_group_id
+          and user_id = (
+              select user_id from group_members
+              where group_id = p_group_id
+              order by joined_at, user_id
+              limit 1
+          );
+    end if;
+end;
+$$;
+
+create function public.regenerate_invite_code(p_group_id bigint)
+returns text
+language plpgsql security definer set search_path = public
+as $$
+declare
+    code text := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+begin
+    if not public.is_group_admin(p_group_id) then
+        raise exception 'Only group admins can change the invite code';
+    end if;
+    update groups set invite_code = code where id = p_group_id;
+    return code;
+end;
+$$;
+
+-- Weighted score uses the same weights as the heatmap: Easy 1, Medium 2, Hard 3.
+create function public.get_group_leaderboard(p_group_id bigint, p_since timestamptz)
+returns table (
+    user_id uuid,
+    username text,
+    role text,
+    current_streak integer,
+    longest_streak integer,
+    weekly_solves integer,
+    weekly_score integer
+)
+language plpgsql stable security definer set search_path = public
+as $$
+begin
+    if not public.is_group_member(p_group_id) then
+        raise exception 'Not a member of this group';
+    end if;
+
+    return query
+    select
+        m.user_id,
+        p.username,
+        m.role,
+        coalesce(p.current_streak, 0),
+        coalesce(p.longest_streak, 0),
+        count(s.id)::integer,
+        coalesce(sum(case s.difficulty when 'Easy' then 1 when 'Medium' then 2 when 'Hard' then 3 else 0 end), 0)::integer
+    from group_members m
+    left join profiles p on p.id = m.user_id
+    left join submissions s on s.user_id = m.user_id and s.date >= p_since
+    where m.group_id = p_group_id
+    group by m.user_id, p.username, m.role, p.current_streak, p.longest_streak;
+end;
+$$;
+
+create function public.get_group_feed(p_group_id bigint, p_limit integer default 30)
+returns table (
+    submission_id bigint,
+    user_id uuid,
+    username text,
+    problem_name text,
+    difficulty text,
+    date timestamptz
+)
+language plpgsql stable security definer set search_path = public
+as $$
+begin
+    if not public.is_group_member(p_group_id) then
+        raise exception 'Not a member of this group';
+    end if;
+
+    return query
+    select s.id, s.user_id, p.username, s.problem_name, s.difficulty::text, s.date
+    from submissions s
+    join group_members m on m.user_id = s.user_id and m.group_id = p_group_id
+    left join profiles p on p.id = s.user_id
+    order by s.date desc, s.id desc
+    limit least(greatest(p_limit, 1), 100);
+end;
+$$;
+
+-- Functions are executable by PUBLIC by default; only signed-in users need them.
+revoke execute on function public.is_group_member(bigint) from public;
+revoke execute on function public.is_group_admin(bigint) from public;
+revoke execute on function public.create_group(text) from public;
+revoke execute on function public.join_group_by_code(text) from public;
+revoke execute on function public.leave_group(bigint) from public;
+revoke execute on function public.regenerate_invite_code(bigint) from public;
+revoke execute on function public.get_group_leaderboard(bigint, timestamptz) from public;
+revoke execute on function public.get_group_feed(bigint, integer) from public;
+
+grant execute on function public.is_group_member(bigint) to authenticated;
+grant execute on function public.is_group_admin(bigint) to authenticated;
+grant execute on function public.create_group(text) to authenticated;
+grant execute on function public.join_group_by_code(text) to authenticated;
+grant execute on function public.leave_group(bigint) to authenticated;
+grant execute on function public.regenerate_invite_code(bigint) to authenticated;
+grant execute on function public.get_group_leaderboard(bigint, timestamptz) to authenticated;
+grant execute on function public.get_group_feed(bigint, integer) to authenticated;
+
+-- Policies decide which rows can change; these decide which columns.
+revoke update on public.groups from authenticated;
+grant update (name) on public.groups to authenticated;
+revoke update on public.group_members from authenticated;
+grant update (role) on public.group_members to authenticated;
@@ -0,0 +1,194 @@
+-- Follows: a one-way social graph, a feed of followees' activity and
+-- notifications when a followee's streak passes your longest one.
+--
+-- As with study groups, followers never read `profiles` or `submissions`
+-- directly. The feed is served by SECURITY DEFINER functions that only
+-- return problem names, difficulty and dates (no notes, no links).
+
+create table public.follows (
+    follower_id uuid not null references auth.users (id) on delete cascade,
+    followee_id uuid not null references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now(),
+    primary key (follower_id, followee_id),
+    check (follower_id <> followee_id)
+);
+
+create index follows_followee_id_idx on public.follows (followee_id);
+
+create table public.streak_milestones (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    streak integer not null,
+    reached_at timestamptz not null default now()
+);
+
+create index streak_milestones_user_id_idx on public.streak_milestones (user_id, reached_at desc);
+
+create table public.notifications (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    kind text not null check (kind in ('passed_longest_streak')),
+    actor_id uuid references auth.users (id) on delete cascade,
+    actor_username text,
+    streak integer,
+    read_at timestamptz
+);
+
+create index notifications_user_id_idx on public.notifications (user_id, created_at desc);
+
+alter table public.follows enable row level security;
+alter table public.streak_milestones enable row level security;
+alter table public.notifications enable row level security;
+
+create policy "Users can view their own follows"
+    on public.follows for select
+    using (follower_id = auth.uid() or followee_id = auth.uid());
+
+create policy "Users can unfollow"
+    on public.follows for delete
+    using (follower_id = auth.uid());
+
+create policy "Users can view their own milestones"
+    on public.streak_milestones for select
+    using (user_id = auth.uid());
+
+create policy "Users can view their notifications"
+    on public.notifications for select
+    using (user_id = auth.uid());
+
+create policy "Users can mark their notifications read"
+    on public.notifications for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can dismiss their notifications"
+    on public.notifications for delete
+    using (user_id = auth.uid());
+
+-- Milestones and notifications are written by the trigger below only.
+revoke update on public.notifications from authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+-- Usernames aren't unique, so an ambiguous name is an error rather than a
+-- guess. There is no insert policy on `follows`; this is the only way in.
+create function public.follow_user(p_username text)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    matches uuid[];
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    select array_agg(id) into matches from profiles where username = btrim(p_username);
+    if matches is null then
+        raise exception 'No user found with that username';
+    end if;
+    if array_length(matches, 1) > 1 then
+        raise exception 'Several users share that username';
+    end if;
+    if matches[1] = auth.uid() then
+        raise exception 'You can''t follow yourself';
+    end if;
+
+    insert into follows (follower_id, followee_id)
+    values (auth.uid(), matches[1])
+    on conflict do nothing;
+
+    return matches[1];
+end;
+$$;
+
+create function public.get_following()
+returns table (
+    user_id uuid,
+    username text,
+    current_streak integer,
+    longest_streak integer,
+    followed_at timestamptz
+)
+language sql stable security definer set search_path = public
+as $$
+    select f.followee_id, p.username, coalesce(p.current_streak, 0), coalesce(p.longest_streak, 0), f.created_at
+    from follows f
+    left join profiles p on p.id = f.followee_id
+    where f.follower_id = auth.uid()
+    order by p.username;
+$$;
+
+-- New solves and streak milestones from everyone the caller follows,
+-- newest first.
+create function public.get_following_feed(p_limit integer default 30)
+returns table (
+    kind text,
+    user_id uuid,
+    username text,
+    occurred_at timestamptz,
+    submission_id bigint,
+    problem_name text,
+    difficulty text,
+    streak integer
+)
+language sql stable security definer set search_path = public
+as $$
+    select * from (
+        select 'submission'::text, s.user_id, p.username, s.date, s.id, s.problem_name, s.difficulty::text, null::integer
+        from submissions s
+        join follows f on f.followee_id = s.user_id and f.follower_id = auth.uid()
+        left join profiles p on p.id = s.user_id
+        union all
+        select 'streak_milestone'::text, m.user_id, p.username, m.reached_at, null::bigint, null::text, null::text, m.streak
+        from streak_milestones m
+        join follows f on f.followee_id = m.user_id and f.follower_id = auth.uid()
+        left join profiles p on p.id = m.user_id
+    ) feed (kind, user_id, username, occurred_at, submission_id, problem_name, difficulty, streak)
+    order by occurred_at desc
+    limit least(greatest(p_limit, 1), 100);
+$$;
+
+-- When a streak grows, record any milestones it crossed and notify each
+-- follower whose longest streak it has just passed. Runs once per crossing:
+-- the notification fires on the update that goes from at-or-below the
+-- follower's record to above it.
+create function public.handle_streak_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if new.current_streak <= coalesce(old.current_streak, 0) then
+        return new;
+    end if;
+
+    insert into streak_milestones (user_id, streak)
+    select new.id, milestone
+    from unnest(array[7, 14, 30, 50, 100, 150, 200, 365, 500, 1000]) as milestone
+    where milestone > coalesce(old.current_streak, 0) and milestone <= new.current_streak;
+
+    insert into notifications (user_id, kind, actor_id, actor_username, streak)
+    select f.follower_id, 'passed_longest_streak', new.id, new.username, new.current_streak
+    from follows f
+    join profiles p on p.id = f.follower_id
+    where f.followee_id = new.id
+      and p.longest_streak > 0
+      and coalesce(old.current_streak, 0) <= p.longest_streak
+      and new.current_streak > p.longest_streak;
+
+    return new;
+end;
+$$;
+
+create trigger on_streak_change
+    after update of current_streak on public.profiles
+    for each row execute function public.handle_streak_change();
+
+revoke execute on function public.follow_user(text) from public;
+revoke execute on function public.get_following() from public;
+revoke execute on function public.get_following_feed(integer) from public;
+revoke execute on function public.handle_streak_change() from public;
+
+grant execute on function public.follow_user(text) to authenticated;
+grant execute on function public.get_following() to authenticated;
+grant execute on function public.get_following_feed(integer) to authenticated;
@@ -0,0 +1,20 @@
+-- Achievement unlocks. The rules live in the client (services/achievements.ts);
+-- this table only records which ones a user has earned and when.
+-- Unlocks are permanent, so there are no update or delete policies.
+
+create table public.user_achievements (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    achievement_id text not null,
+    unlocked_at timestamptz not null default now(),
+    primary key (user_id, achievement_id)
+);
+
+alter table public.user_achievements enable row level security;
+
+create policy "Users can view their achievements"
+    on public.user_achievements for select
+    using (user_id = auth.uid());
+
+create policy "Users can unlock their achievements"
+    on public.user_achievements for insert
+    with check (user_id = auth.uid());
@@ -0,0 +1,41 @@
+-- Goals beyond streak length: a target per day, week or month for solves,
+-- Hard solves, minutes spent or solves in one topic.
+--
+-- Progress and the hit/missed history are computed in the client from
+-- `submissions` (services/goals.ts), the same way streaks are, so this
+-- table only stores the goal itself.
+
+alter table public.submissions
+    add column time_spent_minutes integer check (time_spent_minutes between 1 and 1440);
+
+create table public.goals (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    metric text not null check (metric in ('solves', 'hard_solves', 'minutes', 'topic')),
+    period text not null check (period in ('day', 'week', 'month')),
+    target integer not null check (target > 0),
+    tag text,
+    check ((metric = 'topic') = (tag is not null))
+);
+
+create index goals_user_id_idx on public.goals (user_id);
+
+alter table public.goals enable row level security;
+
+create policy "Users can view their goals"
+    on public.goals for select
+    using (user_id = auth.uid());
+
+create policy "Users can create their goals"
+    on public.goals for insert
+    with check (user_id = auth.uid());
+
+create policy "Users can update their goals"
+    on public.goals for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their goals"
+    on public.goals for delete
+    using (user_id = auth.uid());
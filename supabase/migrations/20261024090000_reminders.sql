@@ -0,0 +1,54 @@
+-- Streak reminders: reminder times and quiet hours on the profile, the
+-- browsers subscribed to Web Push, and a log so the send-reminders edge
+-- function never sends the same reminder twice.
+--
+-- Times are 'HH:MM' in the profile's timezone. Quiet hours may wrap past
+-- midnight (e.g. 22:30 to 07:00); reminders that fall inside them are skipped.
+
+alter table public.profiles
+    add column reminder_times text[] not null default '{}',
+    add column quiet_hours_start text check (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+    add column quiet_hours_end text check (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+    add constraint profiles_quiet_hours_check check ((quiet_hours_start is null) = (quiet_hours_end is null));
+
+create table public.push_subscriptions (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    endpoint text not null unique,
+    p256dh text not null,
+    auth text not null
+);
+
+create index push_subscriptions_user_id_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can view their push subscriptions"
+    on public.push_subscriptions for select
+    using (user_id = auth.uid());
+
+create policy "Users can add push subscriptions"
+    on public.push_subscriptions for insert
+    with check (user_id = auth.uid());
+
+create policy "Users can update their push subscriptions"
+    on public.push_subscriptions for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can remove push subscriptions"
+    on public.push_subscriptions for delete
+    using (user_id = auth.uid());
+
+-- Written only by the edge function with the service role key, so RLS is
+-- on with no policies.
+create table public.reminders_sent (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    day_key date not null,
+    reminder_time text not null,
+    sent_at timestamptz not null default now(),
+    primary key (user_id, day_key, reminder_time)
+);
+
+alter table public.reminders_sent enable row level security;
@@ -0,0 +1,9 @@
+-- Offline logging: the client queues submissions made without a connection
+-- and writes them when it's back online (services/outbox.ts).
+--
+-- Each queued insert carries a client-generated id, so replaying one whose
+-- reply was lost hits this unique constraint instead of creating a
+-- duplicate, and the client can look up the row it already wrote.
+
+alter table public.submissions
+    add column client_id uuid unique;
@@ -0,0 +1,237 @@
+-- Streaks are computed by the database instead of the client.
+--
+-- `calculate_streaks` is a port of `calculateStreaks` in services/streaks.ts
+-- (rest days, freeze tokens earned every 7 active days and banked up to 2,
+-- reviews counting when the user opts in). Keep the two in step: the client
+-- still runs its copy for display-only details like which days were frozen.
+--
+-- `profiles.current_streak` and `longest_streak` are kept up to date by
+-- triggers on everything the calculation reads, plus an hourly job that
+-- catches streaks ending at midnight in each user's timezone. Clients can no
+-- longer write either column, or the bonus freezes they're based on.
+
+create function public.count_missed_days(p_from date, p_to date, p_rest_days integer[])
+returns integer
+language sql immutable
+as $$
+    -- Days strictly between the two dates that aren't scheduled rest days
+    -- (weekday numbers as in JS: 0 = Sunday).
+    select count(*)::integer
+    from generate_series(1, p_to - p_from - 1) as offset_days
+    where extract(dow from p_from + offset_days)::integer <> all (coalesce(p_rest_days, '{}'));
+$$;
+
+create function public.calculate_streaks(p_user_id uuid, p_now timestamptz default now())
+returns table (
+    current_streak integer,
+    longest_streak integer,
+    freezes_remaining integer
+)
+language plpgsql stable security definer set search_path = public
+as $$
+declare
+    v_profile profiles%rowtype;
+    v_time_zone text;
+    v_freezes integer;
+    v_days date[];
+    v_day date;
+    v_previous date;
+    v_missed integer;
+    v_run integer := 0;
+    v_longest integer := 0;
+begin
+    -- The trigger and the hourly job run without a user; anyone else may
+    -- only ask about themselves.
+    if auth.uid() is not null and auth.uid() <> p_user_id then
+        raise exception 'You can only calculate your own streaks';
+    end if;
+
+    select * into v_profile from profiles where id = p_user_id;
+    if not found then
+        return;
+    end if;
+
+    v_time_zone := coalesce(nullif(v_profile.timezone, ''), 'UTC');
+    begin
+        perform p_now at time zone v_time_zone;
+    exception when invalid_parameter_value then
+        v_time_zone := 'UTC';
+    end;
+
+    v_freezes := greatest(coalesce(v_profile.streak_freezes, 0), 0);
+
+    select array_agg(activity_day order by activity_day) into v_days
+    from (
+        select (s.date at time zone v_time_zone)::date as activity_day
+        from submissions s
+        where s.user_id = p_user_id
+        union
+        select (r.reviewed_at at time zone v_time_zone)::date
+        from review_events r
+        where r.user_id = p_user_id and v_profile.reviews_count_toward_streak
+    ) activity;
+
+    if v_days is null then
+        return query select 0, 0, v_freezes;
+        return;
+    end if;
+
+    -- Walk forward through active days, bridging gaps with freezes when
+    -- there are enough to cover the whole gap.
+    foreach v_day in array v_days loop
+        if v_previous is not null then
+            v_missed := count_missed_days(v_previous, v_day, v_profile.rest_days);
+            if v_missed > v_freezes then
+                v_run := 0;
+            else
+                v_freezes := v_freezes - v_missed;
+            end if;
+        end if;
+        v_run := v_run + 1;
+        if v_run % 7 = 0 and v_freezes < 2 then
+            v_freezes := v_freezes + 1;
+        end if;
+        v_longest := greatest(v_longest, v_run);
+        v_previous := v_day;
+    end loop;
+
+    -- Today is still in play, so only the days before it can end the streak.
+    if v_previous < (p_now at time zone v_time_zone)::date then
+        v_missed := count_missed_days(v_previous, (p_now at time zone v_time_zone)::date, v_profile.rest_days);
+        if v_missed > v_freezes then
+            v_run := 0;
+        else
+            v_freezes := v_freezes - v_missed;
+        end if;
+    end if;
+
+    return query select v_run, v_longest, v_freezes;
+end;
+$$;
+
+create function public.refresh_streaks(p_user_id uuid)
+returns void
+language sql security definer set search_path = public
+as $$
+    update profiles p
+    set current_streak = s.current_streak, longest_streak = s.longest_streak
+    from calculate_streaks(p_user_id) s
+    where p.id = p_user_id
+      and (p.current_streak, p.longest_streak) is distinct from (s.current_streak, s.longest_streak);
+$$;
+
+-- Statement-level, so a bulk import recalculates once per user rather than
+-- once per row.
+create function public.handle_activity_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+    v_user_id uuid;
+begin
+    for v_user_id in select distinct user_id from changed_rows loop
+        perform refresh_streaks(v_user_id);
+    end loop;
+    return null;
+end;
+$$;
+
+create trigger on_submissions_insert_refresh_streaks
+    after insert on public.submissions
+    referencing new table as changed_rows
+    for each statement execute function public.handle_activity_change();
+
+create trigger on_submissions_update_refresh_streaks
+    after update on public.submissions
+    referencing new table as changed_rows
+    for each statement execute function public.handle_activity_change();
+
+create trigger on_submissions_delete_refresh_streaks
+    after delete on public.submissions
+    referencing old table as changed_rows
+    for each statement execute function public.handle_activity_change();
+
+create trigger on_review_events_insert_refresh_streaks
+    after insert on public.review_events
+    referencing new table as changed_rows
+    for each statement execute function public.handle_activity_change();
+
+create trigger on_review_events_delete_refresh_streaks
+    after delete on public.review_events
+    referencing old table as changed_rows
+    for each statement execute function public.handle_activity_change();
+
+create function public.handle_streak_settings_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    perform refresh_streaks(new.id);
+    return null;
+end;
+$$;
+
+create trigger on_streak_settings_change
+    after update of timezone, rest_days, streak_freezes, reviews_count_toward_streak on public.profiles
+    for each row execute function public.handle_streak_settings_change();
+
+-- Ends streaks whose last active day has slipped out of reach. A streak can
+-- only lapse once a full local day has passed with no activity, so profiles
+-- active in the last 20 hours (allowing for DST) are skipped.
+create function public.expire_stale_streaks()
+returns integer
+language plpgsql security definer set search_path = public
+as $$
+declare
+    v_user_id uuid;
+    v_count integer := 0;
+begin
+    for v_user_id in
+        select p.id
+        from profiles p
+        where p.current_streak > 0
+          and not exists (
+              select 1 from submissions s
+              where s.user_id = p.id and s.date > now() - interval '20 hours'
+          )
+          and not exists (
+              select 1 from review_events r
+              where r.user_id = p.id and p.reviews_count_toward_streak and r.reviewed_at > now() - interval '20 hours'
+          )
+    loop
+        perform refresh_streaks(v_user_id);
+        v_count := v_count + 1;
+    end loop;
+    return v_count;
+end;
+$$;
+
+-- Hourly, so every timezone gets a run shortly after its midnight.
+create extension if not exists pg_cron;
+
+select cron.schedule('expire-stale-streaks', '5 * * * *', 'select public.expire_stale_streaks()');
+
+revoke execute on function public.count_missed_days(date, date, integer[]) from public;
+revoke execute on function public.calculate_streaks(uuid, timestamptz) from public;
+revoke execute on function public.refresh_streaks(uuid) from public;
+revoke execute on function public.handle_activity_change() from public;
+revoke execute on function public.handle_streak_settings_change() from public;
+revoke execute on function public.expire_stale_streaks() from public;
+
+grant execute on function public.calculate_streaks(uuid, timestamptz) to authenticated;
+
+-- Streak columns are written only by the functions above.
+revoke insert, update on public.profiles from authenticated;
+grant insert (
+    id, username, streak_goal, timezone, rest_days, backfill_window_days,
+    reviews_count_toward_streak, is_public, public_show_notes, public_show_links,
+    reminder_times, quiet_hours_start, quiet_hours_end
+) on public.profiles to authenticated;
+grant update (
+    updated_at, username, streak_goal, timezone, rest_days, backfill_window_days,
+    reviews_count_toward_streak, is_public, public_show_notes, public_show_links,
+    reminder_times, quiet_hours_start, quiet_hours_end
+) on public.profiles to authenticated;
+
+-- Bring existing profiles in line with the server's calculation.
+select public.refresh_streaks(id) from public.profiles;
@@ -0,0 +1,6 @@
+-- Some early projects were set up with a unique (user_id, date) constraint
+-- on submissions, which rejects a second solve logged at the same moment
+-- (an import, or two tabs) with error 23505. Nothing in the app relies on
+-- it, and idempotent inserts now go through `client_id` instead.
+
+alter table public.submissions drop constraint if exists submissions_user_id_date_key;
@@ -0,0 +1,9 @@
+-- Streams changes to submissions and profiles to the user's other open
+-- devices (services/realtime.ts). Realtime applies RLS per subscriber, so
+-- the owner-only select policies decide who receives what.
+--
+-- Profiles are included because streaks are written there by the database
+-- (see 20261026090000_server_streaks.sql), which is how a solve logged on
+-- one device moves the streak shown on another.
+
+alter publication supabase_realtime add table public.submissions, public.profiles;
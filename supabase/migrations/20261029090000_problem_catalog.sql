@@ -0,0 +1,141 @@
+-- A shared catalog of problems, one row per problem on a supported judge,
+-- so that "Two Sum", "two sum" and "1. Two Sum" logged against the same
+-- LeetCode link are recognized as one problem.
+--
+-- Problems are identified by platform and slug, both taken from the link.
+-- `parse_problem_url` is the server's copy of `parseProblemUrl` in
+-- services/problems.ts; keep the two in step. Submissions are linked by a
+-- trigger whenever their link is set, which covers offline replays and
+-- imports as well as the submission form. The first submission of a problem
+-- creates its catalog entry, so its name and difficulty are what later
+-- submissions are offered.
+
+create table public.problems (
+    id bigint generated always as identity primary key,
+    created_at timestamptz not null default now(),
+    platform text not null check (platform in ('LeetCode', 'Codeforces', 'HackerRank', 'GeeksforGeeks')),
+    slug text not null check (char_length(slug) > 0),
+    name text not null check (char_length(btrim(name)) > 0),
+    difficulty text not null check (difficulty in ('Easy', 'Medium', 'Hard')),
+    url text not null,
+    unique (platform, slug)
+);
+
+alter table public.problems enable row level security;
+
+-- The catalog holds nothing personal. Entries are only written by the
+-- trigger below.
+create policy "Signed-in users can view the problem catalog"
+    on public.problems for select
+    to authenticated
+    using (true);
+
+alter table public.submissions
+    add column problem_id bigint references public.problems (id) on delete set null;
+
+create index submissions_user_id_problem_id_idx on public.submissions (user_id, problem_id);
+
+-- Recognized links: LeetCode (.com and .cn) `/problems/<slug>`, Codeforces
+-- `/problemset/problem/<contest>/<index>` and `/contest/<contest>/problem/<index>`,
+-- HackerRank `/challenges/<slug>` (also inside a contest) and GeeksforGeeks
+-- `/problems/<slug>`. Anything else returns no row.
+create function public.parse_problem_url(p_url text)
+returns table (
+    platform text,
+    slug text,
+    url text
+)
+language plpgsql immutable
+as $$
+declare
+    v_match text[];
+begin
+    v_match := regexp_match(btrim(p_url), '^https?://(?:www\.)?leetcode\.(?:com|cn)/problems/([a-z0-9-]+)', 'i');
+    if v_match is not null then
+        platform := 'LeetCode';
+        slug := lower(v_match[1]);
+        url := 'https://leetcode.com/problems/' || slug || '/';
+        return next;
+        return;
+    end if;
+
+    v_match := regexp_match(
+        btrim(p_url),
+        '^https?://(?:www\.|m[0-9]\.)?codeforces\.com/(?:problemset/problem/([0-9]+)/([a-z][0-9]?)|contest/([0-9]+)/problem/([a-z][0-9]?))(?:[/?#]|$)',
+        'i'
+    );
+    if v_match is not null then
+        platform := 'Codeforces';
+        slug := coalesce(v_match[1], v_match[3]) || upper(coalesce(v_match[2], v_match[4]));
+        url := 'https://codeforces.com/problemset/problem/' || coalesce(v_match[1], v_match[3]) || '/' || upper(coalesce(v_match[2], v_match[4]));
+        return next;
+        return;
+    end if;
+
+    v_match := regexp_match(btrim(p_url), '^https?://(?:www\.)?hackerrank\.com/(?:contests/[^/]+/)?challenges/([a-z0-9-]+)', 'i');
+    if v_match is not null then
+        platform := 'HackerRank';
+        slug := lower(v_match[1]);
+        url := 'https://www.hackerrank.com/challenges/' || slug || '/problem';
+        return next;
+        return;
+    end if;
+
+    v_match := regexp_match(btrim(p_url), '^https?://(?:www\.|practice\.)?geeksforgeeks\.org/problems/([a-z0-9-]+)', 'i');
+    if v_match is not null then
+        platform := 'GeeksforGeeks';
+        slug := lower(v_match[1]);
+        url := 'https://www.geeksforgeeks.org/problems/' || slug || '/1';
+        return next;
+        return;
+    end if;
+end;
+$$;
+
+create function public.link_submission_problem()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+    v_platform text;
+    v_slug text;
+    v_url text;
+begin
+    select p.platform, p.slug, p.url into v_platform, v_slug, v_url
+    from parse_problem_url(new.link) p;
+
+    if v_slug is null then
+        new.problem_id := null;
+        return new;
+    end if;
+
+    insert into problems (platform, slug, name, difficulty, url)
+    values (v_platform, v_slug, btrim(new.problem_name), new.difficulty, v_url)
+    on conflict (platform, slug) do nothing;
+
+    select id into new.problem_id
+    from problems
+    where platform = v_platform and slug = v_slug;
+
+    return new;
+end;
+$$;
+
+create trigger on_submission_link_change
+    before insert or update of link on public.submissions
+    for each row execute function public.link_submission_problem();
+
+revoke execute on function public.link_submission_problem() from public;
+
+-- Link what was logged before the catalog existed. The earliest submission
+-- of each problem names its entry, as it would have going forward.
+insert into public.problems (platform, slug, name, difficulty, url)
+select distinct on (p.platform, p.slug) p.platform, p.slug, btrim(s.problem_name), s.difficulty, p.url
+from public.submissions s
+cross join lateral public.parse_problem_url(s.link) p
+order by p.platform, p.slug, s.created_at, s.id;
+
+update public.submissions s
+set problem_id = pr.id
+from public.problems pr
+where (pr.platform, pr.slug) = (select p.platform, p.slug from public.parse_problem_url(s.link) p);
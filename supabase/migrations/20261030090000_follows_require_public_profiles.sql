@@ -0,0 +1,132 @@
+-- Following used to need nothing but a username, after which the feed
+-- showed that user's solves and streak whether or not they had made their
+-- profile public. Follows now respect the same opt-in as public profiles
+-- (`profiles.is_public`):
+--
+--   * only public profiles can be followed;
+--   * the feed, the following list and "passed your longest streak"
+--     notifications skip anyone whose profile is private, including people
+--     who made it private after being followed (the follow is kept, so it
+--     picks up again if they go public);
+--   * solves in the feed carry links and notes only when the owner shares
+--     them publicly (`public_show_links`, `public_show_notes`).
+
+create or replace function public.follow_user(p_username text)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    matches uuid[];
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    -- Private profiles don't count, so an error never reveals that one exists.
+    select array_agg(id) into matches from profiles where username = btrim(p_username) and is_public;
+    if matches is null then
+        raise exception 'No public profile found with that username';
+    end if;
+    if array_length(matches, 1) > 1 then
+        raise exception 'Several users share that username';
+    end if;
+    if matches[1] = auth.uid() then
+        raise exception 'You can''t follow yourself';
+    end if;
+
+    insert into follows (follower_id, followee_id)
+    values (auth.uid(), matches[1])
+    on conflict do nothing;
+
+    return matches[1];
+end;
+$$;
+
+create or replace function public.get_following()
+returns table (
+    user_id uuid,
+    username text,
+    current_streak integer,
+    longest_streak integer,
+    followed_at timestamptz
+)
+language sql stable security definer set search_path = public
+as $$
+    select f.followee_id, p.username, p.current_streak, p.longest_streak, f.created_at
+    from follows f
+    join profiles p on p.id = f.followee_id
+    where f.follower_id = auth.uid() and p.is_public
+    order by p.username;
+$$;
+
+-- The result gains `link` and `description`, which `create or replace`
+-- can't do.
+drop function public.get_following_feed(integer);
+
+create function public.get_following_feed(p_limit integer default 30)
+returns table (
+    kind text,
+    user_id uuid,
+    username text,
+    occurred_at timestamptz,
+    submission_id bigint,
+    problem_name text,
+    difficulty text,
+    link text,
+    description text,
+    streak integer
+)
+language sql stable security definer set search_path = public
+as $$
+    select * from (
+        select
+            'submission'::text, s.user_id, p.username, s.date, s.id, s.problem_name, s.difficulty::text,
+            case when p.public_show_links then s.link end,
+            case when p.public_show_notes then s.description end,
+            null::integer
+        from submissions s
+        join follows f on f.followee_id = s.user_id and f.follower_id = auth.uid()
+        join profiles p on p.id = s.user_id and p.is_public
+        union all
+        select 'streak_milestone'::text, m.user_id, p.username, m.reached_at, null::bigint, null::text, null::text, null::text, null::text, m.streak
+        from streak_milestones m
+        join follows f on f.followee_id = m.user_id and f.follower_id = auth.uid()
+        join profiles p on p.id = m.user_id and p.is_public
+    ) feed (kind, user_id, username, occurred_at, submission_id, problem_name, difficulty, link, description, streak)
+    order by occurred_at desc
+    limit least(greatest(p_limit, 1), 100);
+$$;
+
+revoke execute on function public.get_following_feed(integer) from public;
+grant execute on function public.get_following_feed(integer) to authenticated;
+
+create or replace function public.handle_streak_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if new.current_streak <= coalesce(old.current_streak, 0) then
+        return new;
+    end if;
+
+    insert into streak_milestones (user_id, streak)
+    select new.id, milestone
+    from unnest(array[7, 14, 30, 50, 100, 150, 200, 365, 500, 1000]) as milestone
+    where milestone > coalesce(old.current_streak, 0) and milestone <= new.current_streak;
+
+    if not new.is_public then
+        return new;
+    end if;
+
+    insert into notifications (user_id, kind, actor_id, actor_username, streak)
+    select f.follower_id, 'passed_longest_streak', new.id, new.username, new.current_streak
+    from follows f
+    join profiles p on p.id = f.follower_id
+    where f.followee_id = new.id
+      and p.longest_streak > 0
+      and coalesce(old.current_streak, 0) <= p.longest_streak
+      and new.current_streak > p.longest_streak;
+
+    return new;
+end;
+$$;
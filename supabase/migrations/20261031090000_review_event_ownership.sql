@@ -0,0 +1,17 @@
+-- Review events could be recorded against any submission id, including
+-- other users' submissions, as long as `user_id` was the caller's own.
+-- Require the submission to be the caller's too, as the policy on
+-- `review_schedules` already does.
+--
+-- New projects get this policy from 20261019092000_review_queue.sql; this
+-- replaces the looser one on projects that set the review queue up by hand.
+
+drop policy if exists "Users can record their own reviews" on public.review_events;
+drop policy if exists "Users can record reviews of their own submissions" on public.review_events;
+
+create policy "Users can record reviews of their own submissions"
+    on public.review_events for insert
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from public.submissions s where s.id = submission_id and s.user_id = auth.uid())
+    );
@@ -0,0 +1,313 @@
+-- Streaks are computed by the database (20261026090000_server_streaks.sql),
+-- but from dates the client picked: `submissions.date` and
+-- `review_events.reviewed_at`. Both are now checked on the way in, so a
+-- streak can only be built from days the app would have let you log:
+--
+--   * a submission can't be dated in the future, or before the start of the
+--     backfill window (`profiles.backfill_window_days` days before today, in
+--     the profile's timezone). An edit may also keep a solve anywhere on or
+--     after its original day, as the edit form allows. `created_at` and
+--     `is_backdated` are set here rather than trusted from the client.
+--   * a review is always recorded at the moment it's inserted.
+--
+-- Two flows legitimately write older dates, and go through functions that
+-- the checks recognize instead of plain inserts:
+--
+--   * `import_submissions` brings in history from another tracker. Solves
+--     from before the window are kept but marked `counts_toward_streak =
+--     false`, so importing can't build a streak.
+--   * `restore_submissions` puts back submissions deleted in the last ten
+--     minutes (undo after a delete) exactly as they were.
+--
+-- Offline writes replayed after the window has moved on are rejected like
+-- any other and show up as sync conflicts.
+
+alter table public.submissions
+    add column counts_toward_streak boolean not null default true;
+
+-- The profile's timezone, resolved the same way as in `calculate_streaks`.
+create function public.profile_time_zone(p_user_id uuid)
+returns text
+language plpgsql stable security definer set search_path = public
+as $$
+declare
+    v_time_zone text;
+begin
+    select coalesce(nullif(timezone, ''), 'UTC') into v_time_zone from profiles where id = p_user_id;
+    v_time_zone := coalesce(v_time_zone, 'UTC');
+    begin
+        perform now() at time zone v_time_zone;
+    exception when invalid_parameter_value then
+        v_time_zone := 'UTC';
+    end;
+    return v_time_zone;
+end;
+$$;
+
+create function public.check_submission_date()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+    v_time_zone text;
+    v_window integer;
+    v_day date;
+    v_window_start date;
+begin
+    -- Restored rows (and the demo seed) come back exactly as they were.
+    if tg_op = 'INSERT' and current_setting('app.keep_activity_dates', true) = 'on' then
+        return new;
+    end if;
+
+    if tg_op = 'INSERT' then
+        new.created_at := now();
+        new.counts_toward_streak := true;
+    else
+        new.created_at := old.created_at;
+        new.counts_toward_streak := old.counts_toward_streak;
+        if new.date = old.date then
+            new.is_backdated := old.is_backdated;
+            return new;
+        end if;
+    end if;
+
+    -- A few minutes' grace for device clocks running fast.
+    if new.date > now() + interval '5 minutes' then
+        raise exception 'Solve date can''t be in the future' using errcode = 'check_violation';
+    end if;
+
+    v_time_zone := profile_time_zone(new.user_id);
+    select backfill_window_days into v_window from profiles where id = new.user_id;
+    v_day := (new.date at time zone v_time_zone)::date;
+    v_window_start := (now() at time zone v_time_zone)::date - greatest(coalesce(v_window, 3), 0);
+    new.is_backdated := v_day < (new.created_at at time zone v_time_zone)::date;
+
+    if v_day < v_window_start then
+        if tg_op = 'INSERT' and current_setting('app.importing_submissions', true) = 'on' then
+            new.counts_toward_streak := false;
+        elsif tg_op = 'UPDATE' and v_day >= (old.date at time zone v_time_zone)::date then
+            null;
+        else
+            raise exception 'Solve date can''t be before %', v_window_start using errcode = 'check_violation';
+        end if;
+    end if;
+
+    return new;
+end;
+$$;
+
+create trigger on_submission_write_check_date
+    before insert or update on public.submissions
+    for each row execute function public.check_submission_date();
+
+create function public.stamp_review_event()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if current_setting('app.keep_activity_dates', true) is distinct from 'on' then
+        new.reviewed_at := now();
+    end if;
+    return new;
+end;
+$$;
+
+create trigger on_review_event_insert_stamp
+    before insert on public.review_events
+    for each row execute function public.stamp_review_event();
+
+-- Imports ---------------------------------------------------------------
+
+create function public.import_submissions(p_rows jsonb)
+returns setof public.submissions
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    perform set_config('app.importing_submissions', 'on', true);
+    return query
+    with imported as (
+        insert into submissions (user_id, date, problem_name, difficulty, platform, link, description, time_spent_minutes)
+        select auth.uid(), r.date, r.problem_name, r.difficulty, r.platform, r.link, r.description, r.time_spent_minutes
+        from jsonb_to_recordset(p_rows) as r (
+            date timestamptz,
+            problem_name text,
+            difficulty text,
+            platform text,
+            link text,
+            description text,
+            time_spent_minutes integer
+        )
+        returning *
+    )
+    select * from imported;
+    perform set_config('app.importing_submissions', 'off', true);
+end;
+$$;
+
+-- Undo ------------------------------------------------------------------
+
+-- Deleted submissions are kept briefly so a delete can be undone without
+-- going through the date checks. Only the functions below read this table.
+create table public.deleted_submissions (
+    id bigint primary key,
+    user_id uuid not null,
+    deleted_at timestamptz not null default now(),
+    submission jsonb not null
+);
+
+create index deleted_submissions_deleted_at_idx on public.deleted_submissions (deleted_at);
+
+alter table public.deleted_submissions enable row level security;
+
+create function public.remember_deleted_submission()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    insert into deleted_submissions (id, user_id, submission)
+    values (old.id, old.user_id, to_jsonb(old))
+    on conflict (id) do update
+        set user_id = excluded.user_id, deleted_at = now(), submission = excluded.submission;
+    return null;
+end;
+$$;
+
+create trigger on_submission_delete_remember
+    after delete on public.submissions
+    for each row execute function public.remember_deleted_submission();
+
+create function public.restore_submissions(p_ids bigint[])
+returns setof public.submissions
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    perform set_config('app.keep_activity_dates', 'on', true);
+    return query
+    with restored as (
+        insert into submissions
+        select (jsonb_populate_record(null::submissions, d.submission)).*
+        from deleted_submissions d
+        where d.id = any(p_ids)
+          and d.user_id = auth.uid()
+          and d.deleted_at > now() - interval '10 minutes'
+        returning *
+    )
+    select * from restored;
+    perform set_config('app.keep_activity_dates', 'off', true);
+
+    delete from deleted_submissions where id = any(p_ids) and user_id = auth.uid();
+end;
+$$;
+
+select cron.schedule(
+    'purge-deleted-submissions',
+    '15 * * * *',
+    $$delete from public.deleted_submissions where deleted_at < now() - interval '1 hour'$$
+);
+
+-- Streaks ---------------------------------------------------------------
+
+-- As before, except that imported history from before the backfill window
+-- doesn't count.
+create or replace function public.calculate_streaks(p_user_id uuid, p_now timestamptz default now())
+returns table (
+    current_streak integer,
+    longest_streak integer,
+    freezes_remaining integer
+)
+language plpgsql stable security definer set search_path = public
+as $$
+declare
+    v_profile profiles%rowtype;
+    v_time_zone text;
+    v_freezes integer;
+    v_days date[];
+    v_day date;
+    v_previous date;
+    v_missed integer;
+    v_run integer := 0;
+    v_longest integer := 0;
+begin
+    -- The trigger and the hourly job run without a user; anyone else may
+    -- only ask about themselves.
+    if auth.uid() is not null and auth.uid() <> p_user_id then
+        raise exception 'You can only calculate your own streaks';
+    end if;
+
+    select * into v_profile from profiles where id = p_user_id;
+    if not found then
+        return;
+    end if;
+
+    v_time_zone := profile_time_zone(p_user_id);
+    v_freezes := greatest(coalesce(v_profile.streak_freezes, 0), 0);
+
+    select array_agg(activity_day order by activity_day) into v_days
+    from (
+        select (s.date at time zone v_time_zone)::date as activity_day
+        from submissions s
+        where s.user_id = p_user_id and s.counts_toward_streak
+        union
+        select (r.reviewed_at at time zone v_time_zone)::date
+        from review_events r
+        where r.user_id = p_user_id and v_profile.reviews_count_toward_streak
+    ) activity;
+
+    if v_days is null then
+        return query select 0, 0, v_freezes;
+        return;
+    end if;
+
+    -- Walk forward through active days, bridging gaps with freezes when
+    -- there are enough to cover the whole gap.
+    foreach v_day in array v_days loop
+        if v_previous is not null then
+            v_missed := count_missed_days(v_previous, v_day, v_profile.rest_days);
+            if v_missed > v_freezes then
+                v_run := 0;
+            else
+                v_freezes := v_freezes - v_missed;
+            end if;
+        end if;
+        v_run := v_run + 1;
+        if v_run % 7 = 0 and v_freezes < 2 then
+            v_freezes := v_freezes + 1;
+        end if;
+        v_longest := greatest(v_longest, v_run);
+        v_previous := v_day;
+    end loop;
+
+    -- Today is still in play, so only the days before it can end the streak.
+    if v_previous < (p_now at time zone v_time_zone)::date then
+        v_missed := count_missed_days(v_previous, (p_now at time zone v_time_zone)::date, v_profile.rest_days);
+        if v_missed > v_freezes then
+            v_run := 0;
+        else
+            v_freezes := v_freezes - v_missed;
+        end if;
+    end if;
+
+    return query select v_run, v_longest, v_freezes;
+end;
+$$;
+
+revoke execute on function public.profile_time_zone(uuid) from public;
+revoke execute on function public.check_submission_date() from public;
+revoke execute on function public.stamp_review_event() from public;
+revoke execute on function public.import_submissions(jsonb) from public;
+revoke execute on function public.remember_deleted_submission() from public;
+revoke execute on function public.restore_submissions(bigint[]) from public;
+
+grant execute on function public.import_submissions(jsonb) to authenticated;
+grant execute on function public.restore_submissions(bigint[]) to authenticated;
+
+-- Bring existing profiles in line with the calculation above.
+select public.refresh_streaks(id) from public.profiles;
@@ -0,0 +1,81 @@
+-- A group always keeps at least one admin. Before this, an admin could
+-- demote themselves (or the only other admin) through the role update
+-- policy and leave the group with nobody able to rename it, remove members
+-- or change the invite code.
+--
+-- The check is an after trigger that runs for each changed row of
+-- `group_members`. Postgres fires those once the whole statement is done,
+-- so every row's check sees the roles as the statement left them, and a
+-- single update that swaps roles around is fine. What it allows:
+--
+--   * the last member leaving (`leave_group` then deletes the group);
+--   * the group itself being deleted;
+--   * the last admin's account being deleted, in which case the role passes
+--     to the longest-standing member, as it does when they leave.
+
+create function public.check_group_keeps_admin()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if old.role <> 'admin' or (tg_op = 'UPDATE' and new.role = 'admin') then
+        return null;
+    end if;
+
+    if not exists (select 1 from groups where id = old.group_id)
+       or not exists (select 1 from group_members where group_id = old.group_id)
+       or exists (select 1 from group_members where group_id = old.group_id and role = 'admin') then
+        return null;
+    end if;
+
+    if tg_op = 'DELETE' and not exists (select 1 from auth.users where id = old.user_id) then
+        update group_members set role = 'admin'
+        where group_id = old.group_id
+          and user_id = (
+              select user_id from group_members
+              where group_id = old.group_id
+              order by joined_at, user_id
+              limit 1
+          );
+        return null;
+    end if;
+
+    raise exception 'A group needs at least one admin. Make someone else an admin first.'
+        using errcode = 'check_violation';
+end;
+$$;
+
+create trigger on_group_member_change_keep_admin
+    after update of role or delete on public.group_members
+    for each row execute function public.check_group_keeps_admin();
+
+-- Hands the admin role on before leaving rather than after, since the
+-- group may no longer be left without one in between.
+create or replace function public.leave_group(p_group_id bigint)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if not exists (
+        select 1 from group_members
+        where group_id = p_group_id and role = 'admin' and user_id <> auth.uid()
+    ) then
+        update group_members set role = 'admin'
+        where group_id = p_group_id
+          and user_id = (
+              select user_id from group_members
+              where group_id = p_group_id and user_id <> auth.uid()
+              order by joined_at, user_id
+              limit 1
+          );
+    end if;
+
+    delete from group_members where group_id = p_group_id and user_id = auth.uid();
+
+    if not exists (select 1 from group_members where group_id = p_group_id) then
+        delete from groups where id = p_group_id;
+    end if;
+end;
+$$;
+
+revoke execute on function public.check_group_keeps_admin() from public;
@@ -0,0 +1,68 @@
+-- The problem catalog (20261029090000_problem_catalog.sql) took each
+-- problem's name and difficulty from whoever logged it first, so one user
+-- could put any text in front of everyone who logs the same link later.
+-- New entries are now named from the link's slug, the same way the client
+-- names a problem it hasn't seen (`problemNameFromSlug` in
+-- services/problems.ts), and have no difficulty until it's verified, i.e.
+-- set by someone with the service role.
+--
+-- `problem_id` could also be set directly, linking a submission to any
+-- catalog entry. The trigger now runs whenever either column is written,
+-- so it always follows the link.
+
+alter table public.problems
+    alter column difficulty drop not null;
+
+create function public.problem_name_from_slug(p_platform text, p_slug text)
+returns text
+language sql immutable
+as $$
+    -- A slug made only of dashes keeps its slug, as the name can't be empty.
+    select case
+        when p_platform = 'Codeforces' then p_slug
+        else coalesce(nullif(initcap(btrim(regexp_replace(
+            case when p_platform = 'GeeksforGeeks' then regexp_replace(p_slug, '-[0-9]+$', '') else p_slug end,
+            '-+', ' ', 'g'
+        ))), ''), p_slug)
+    end;
+$$;
+
+create or replace function public.link_submission_problem()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+    v_platform text;
+    v_slug text;
+    v_url text;
+begin
+    select p.platform, p.slug, p.url into v_platform, v_slug, v_url
+    from parse_problem_url(new.link) p;
+
+    if v_slug is null then
+        new.problem_id := null;
+        return new;
+    end if;
+
+    insert into problems (platform, slug, name, url)
+    values (v_platform, v_slug, problem_name_from_slug(v_platform, v_slug), v_url)
+    on conflict (platform, slug) do nothing;
+
+    select id into new.problem_id
+    from problems
+    where platform = v_platform and slug = v_slug;
+
+    return new;
+end;
+$$;
+
+drop trigger on_submission_link_change on public.submissions;
+
+create trigger on_submission_link_change
+    before insert or update of link, problem_id on public.submissions
+    for each row execute function public.link_submission_problem();
+
+-- Entries created so far were named by users, so they start over as if
+-- nobody had verified them yet.
+update public.problems
+set name = public.problem_name_from_slug(platform, slug), difficulty = null;
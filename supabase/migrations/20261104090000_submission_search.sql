@@ -0,0 +1,48 @@
+-- Full-text search for the history page, which used to run `ilike '%term%'`
+-- over every name and note a user had. `search` is kept up to date by
+-- Postgres and queried with PostgREST's `fts` filter (`textSearch` in
+-- supabase-js). The 'simple' configuration lowercases words without
+-- stemming or dropping stop words: problem names aren't prose, and notes
+-- aren't in any one language.
+
+alter table public.submissions
+    add column search tsvector generated always as (
+        to_tsvector('simple', problem_name || ' ' || coalesce(description, ''))
+    ) stored;
+
+create index submissions_search_idx on public.submissions using gin (search);
+
+-- Generated columns can't be written, so restoring now lists the columns it
+-- copies instead of taking the whole saved row. Add new columns here too.
+create or replace function public.restore_submissions(p_ids bigint[])
+returns setof public.submissions
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    perform set_config('app.keep_activity_dates', 'on', true);
+    return query
+    with restored as (
+        insert into submissions (
+            id, created_at, user_id, date, problem_name, link, difficulty, platform, description,
+            is_backdated, time_spent_minutes, client_id, problem_id, counts_toward_streak
+        )
+        select
+            r.id, r.created_at, r.user_id, r.date, r.problem_name, r.link, r.difficulty, r.platform, r.description,
+            r.is_backdated, r.time_spent_minutes, r.client_id, r.problem_id, r.counts_toward_streak
+        from deleted_submissions d
+        cross join lateral jsonb_populate_record(null::submissions, d.submission) r
+        where d.id = any(p_ids)
+          and d.user_id = auth.uid()
+          and d.deleted_at > now() - interval '10 minutes'
+        returning *
+    )
+    select * from restored;
+    perform set_config('app.keep_activity_dates', 'off', true);
+
+    delete from deleted_submissions where id = any(p_ids) and user_id = auth.uid();
+end;
+$$;
@@ -0,0 +1,111 @@
+-- The app used to load every submission a user had ever logged on start-up,
+-- just to draw the heatmap, charts, goals and achievements. It now loads the
+-- rows of the last few weeks only, and per-day totals for everything before:
+--
+--   * get_activity_summary returns one row per day with solves, counts per
+--     difficulty, minutes, platforms and solves per tag;
+--   * get_solve_counts says how often each listed submission's problem has
+--     been solved, which the history page shows next to older rows it has
+--     no other copy of.
+
+create function public.get_activity_summary(p_before timestamptz, p_time_zone text)
+returns table (
+    day date,
+    solves integer,
+    easy integer,
+    medium integer,
+    hard integer,
+    minutes integer,
+    counts_toward_streak boolean,
+    problems text[],
+    platforms text[],
+    topics jsonb
+)
+language plpgsql stable security definer set search_path = public
+as $$
+#variable_conflict use_column
+declare
+    v_time_zone text := coalesce(nullif(p_time_zone, ''), 'UTC');
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    begin
+        perform now() at time zone v_time_zone;
+    exception when invalid_parameter_value then
+        v_time_zone := 'UTC';
+    end;
+
+    return query
+    with mine as (
+        select s.id, (s.date at time zone v_time_zone)::date as day, s.date, s.difficulty, s.time_spent_minutes,
+            s.counts_toward_streak, s.problem_name, s.platform
+        from submissions s
+        where s.user_id = auth.uid() and s.date < p_before
+    ),
+    day_topics as (
+        select t.day, jsonb_object_agg(t.name, t.solves) as topics
+        from (
+            select m.day, tg.name, count(*)::integer as solves
+            from mine m
+            join submission_tags st on st.submission_id = m.id
+            join tags tg on tg.id = st.tag_id
+            group by m.day, tg.name
+        ) t
+        group by t.day
+    )
+    select
+        m.day,
+        count(*)::integer,
+        (count(*) filter (where m.difficulty = 'Easy'))::integer,
+        (count(*) filter (where m.difficulty = 'Medium'))::integer,
+        (count(*) filter (where m.difficulty = 'Hard'))::integer,
+        coalesce(sum(m.time_spent_minutes), 0)::integer,
+        bool_or(m.counts_toward_streak),
+        -- A few names are enough for the heatmap's tooltip.
+        (array_agg(m.problem_name order by m.date desc, m.id desc))[1:3],
+        coalesce(array_agg(distinct m.platform) filter (where m.platform is not null and m.platform <> ''), '{}'),
+        coalesce(dt.topics, '{}'::jsonb)
+    from mine m
+    left join day_topics dt on dt.day = m.day
+    group by m.day, dt.topics
+    order by m.day;
+end;
+$$;
+
+revoke execute on function public.get_activity_summary(timestamptz, text) from public;
+grant execute on function public.get_activity_summary(timestamptz, text) to authenticated;
+
+-- Matches countSolvesByProblem (services/problems.ts): submissions are the
+-- same problem when they link to the same catalog entry, or, without a
+-- recognized link, when their names match one another or a linked
+-- submission's name once numbering and punctuation are dropped.
+create function public.get_solve_counts(p_ids bigint[])
+returns table (submission_id bigint, solves integer)
+language sql stable security definer set search_path = public
+as $$
+    with mine as (
+        select s.id, s.problem_id,
+            btrim(regexp_replace(regexp_replace(lower(s.problem_name), '^\s*\d+\.\s*', ''), '[^a-z0-9]+', ' ', 'g')) as name_key
+        from submissions s
+        where s.user_id = auth.uid()
+    ),
+    linked_names as (
+        select distinct on (m.name_key) m.name_key, m.problem_id
+        from mine m
+        where m.problem_id is not null and m.name_key <> ''
+        order by m.name_key, m.id
+    ),
+    keyed as (
+        select m.id, coalesce('problem:' || m.problem_id, 'problem:' || l.problem_id, 'name:' || m.name_key) as key
+        from mine m
+        left join linked_names l on l.name_key = m.name_key
+    )
+    select c.id, c.solves
+    from (select k.id, (count(*) over (partition by k.key))::integer as solves from keyed k) c
+    where c.id = any(p_ids);
+$$;
+
+revoke execute on function public.get_solve_counts(bigint[]) from public;
+grant execute on function public.get_solve_counts(bigint[]) to authenticated;
@@ -0,0 +1,47 @@
+-- Goal history used to be graded against the goal's current target, so
+-- raising a target turned weeks that had been hit into misses (and lowering
+-- it did the opposite). Every target a goal has had is now recorded with
+-- when it was set, and each finished period is graded against the target in
+-- force when it ended (services/goals.ts).
+--
+-- Goals created before this only know their current target, which is
+-- recorded as set when the goal was created.
+
+create table public.goal_targets (
+    id bigint generated always as identity primary key,
+    goal_id bigint not null references public.goals (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    target integer not null check (target > 0),
+    set_at timestamptz not null default now()
+);
+
+create index goal_targets_goal_id_idx on public.goal_targets (goal_id, set_at);
+
+-- Written only by the trigger below.
+alter table public.goal_targets enable row level security;
+
+create policy "Users can view their goal targets"
+    on public.goal_targets for select
+    using (user_id = auth.uid());
+
+insert into public.goal_targets (goal_id, user_id, target, set_at)
+select id, user_id, target, created_at from public.goals;
+
+create function public.record_goal_target()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if tg_op = 'UPDATE' and new.target = old.target then
+        return null;
+    end if;
+
+    insert into goal_targets (goal_id, user_id, target, set_at)
+    values (new.id, new.user_id, new.target, case when tg_op = 'INSERT' then new.created_at else now() end);
+    return null;
+end;
+$$;
+
+create trigger on_goal_target_change
+    after insert or update of target on public.goals
+    for each row execute function public.record_goal_target();
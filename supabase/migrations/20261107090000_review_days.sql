@@ -0,0 +1,33 @@
+-- The app used to load every review a user had ever done, only to tell
+-- which days had one when reviews count toward the streak. It now loads the
+-- reviews of the same recent window as submissions, and just the days with
+-- a review before that (services/reviews.ts).
+
+create function public.get_review_days(p_before timestamptz, p_time_zone text)
+returns table (day date)
+language plpgsql stable security definer set search_path = public
+as $$
+#variable_conflict use_column
+declare
+    v_time_zone text := coalesce(nullif(p_time_zone, ''), 'UTC');
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    begin
+        perform now() at time zone v_time_zone;
+    exception when invalid_parameter_value then
+        v_time_zone := 'UTC';
+    end;
+
+    return query
+    select distinct (r.reviewed_at at time zone v_time_zone)::date
+    from review_events r
+    where r.user_id = auth.uid() and r.reviewed_at < p_before
+    order by 1;
+end;
+$$;
+
+revoke execute on function public.get_review_days(timestamptz, text) from public;
+grant execute on function public.get_review_days(timestamptz, text) to authenticated;
@@ -0,0 +1,42 @@
+-- Recording a review used to take two requests: one to log the event and
+-- one to move the schedule on. When the second failed, the review still
+-- counted toward the streak but the card stayed due. record_review does
+-- both in one transaction. The client still works out the next SM-2 step
+-- (nextReviewState in services/reviews.ts) and passes it in.
+
+create function public.record_review(
+    p_submission_id bigint,
+    p_quality integer,
+    p_ease_factor double precision,
+    p_interval_days integer,
+    p_repetitions integer,
+    p_due_on date
+)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+
+    -- Schedules only exist for the owner's own submissions (see the insert
+    -- policy on review_schedules), so this also checks the submission.
+    update review_schedules
+    set ease_factor = p_ease_factor,
+        interval_days = p_interval_days,
+        repetitions = p_repetitions,
+        due_on = p_due_on,
+        last_reviewed_at = now()
+    where submission_id = p_submission_id and user_id = auth.uid();
+    if not found then
+        raise exception 'This submission isn''t in your review queue';
+    end if;
+
+    insert into review_events (user_id, submission_id, quality)
+    values (auth.uid(), p_submission_id, p_quality);
+end;
+$$;
+
+revoke execute on function public.record_review(bigint, integer, double precision, integer, integer, date) from public;
+grant execute on function public.record_review(bigint, integer, double precision, integer, integer, date) to authenticated;
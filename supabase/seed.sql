@@ -0,0 +1,178 @@
+-- Demo data for a local stack. `supabase db reset` loads it after the
+-- migrations. Sign in as any of these with the password `password123`:
+--
+--   alice@example.com  solves every day, public profile, admin of the demo group
+--   bob@example.com    on and off, with weekends as rest days
+--   carol@example.com  started last week
+--
+-- Dates are relative to when the seed runs, so streaks, goals and the review
+-- queue are live after every reset. Streaks themselves are filled in by the
+-- triggers from 20261026090000_server_streaks.sql.
+
+select setseed(0.42);
+
+-- The demo history goes back further than the backfill window, so skip the
+-- date checks from 20261101090000_enforce_activity_dates.sql as an undo does.
+select set_config('app.keep_activity_dates', 'on', false);
+
+insert into auth.users (
+    instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+    raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+    confirmation_token, email_change, email_change_token_new, recovery_token
+)
+select
+    '00000000-0000-0000-0000-000000000000',
+    demo.id,
+    'authenticated',
+    'authenticated',
+    demo.email,
+    extensions.crypt('password123', extensions.gen_salt('bf')),
+    now(),
+    '{"provider": "email", "providers": ["email"]}',
+    '{}',
+    now() - interval '200 days',
+    now(),
+    '', '', '', ''
+from (values
+    ('a1111111-1111-4111-8111-111111111111'::uuid, 'alice@example.com'),
+    ('b2222222-2222-4222-8222-222222222222'::uuid, 'bob@example.com'),
+    ('c3333333-3333-4333-8333-333333333333'::uuid, 'carol@example.com')
+) as demo (id, email);
+
+insert into auth.identities (id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at)
+select gen_random_uuid(), u.id, u.id::text, 'email', jsonb_build_object('sub', u.id::text, 'email', u.email), now(), now(), now()
+from auth.users u
+where u.email like '%@example.com';
+
+insert into public.profiles (
+    id, username, streak_goal, timezone, rest_days, reviews_count_toward_streak,
+    is_public, public_show_notes, public_show_links, reminder_times
+)
+values
+    ('a1111111-1111-4111-8111-111111111111', 'alice', 100, 'Europe/London', '{}', true, true, true, true, '{21:00}'),
+    ('b2222222-2222-4222-8222-222222222222', 'bob', 30, 'America/New_York', '{0,6}', false, true, false, true, '{}'),
+    ('c3333333-3333-4333-8333-333333333333', 'carol', 7, 'Asia/Kolkata', '{}', false, false, false, false, '{20:30}');
+
+-- Problems the demo users draw their solves from, each with one topic.
+create temporary table seed_problems (
+    n integer primary key,
+    problem_name text,
+    difficulty text,
+    platform text,
+    link text,
+    tag text
+);
+
+insert into seed_problems
+select row_number() over (), problem_name, difficulty, platform, link, tag
+from (values
+    ('Two Sum', 'Easy', 'LeetCode', 'https://leetcode.com/problems/two-sum/', 'Hash Table'),
+    ('Valid Parentheses', 'Easy', 'LeetCode', 'https://leetcode.com/problems/valid-parentheses/', 'Stack'),
+    ('Merge Two Sorted Lists', 'Easy', 'LeetCode', 'https://leetcode.com/problems/merge-two-sorted-lists/', 'Linked List'),
+    ('Best Time to Buy and Sell Stock', 'Easy', 'LeetCode', 'https://leetcode.com/problems/best-time-to-buy-and-sell-stock/', 'Array'),
+    ('Binary Search', 'Easy', 'LeetCode', 'https://leetcode.com/problems/binary-search/', 'Binary Search'),
+    ('Climbing Stairs', 'Easy', 'LeetCode', 'https://leetcode.com/problems/climbing-stairs/', 'DP / 1D'),
+    ('Longest Substring Without Repeating Characters', 'Medium', 'LeetCode', 'https://leetcode.com/problems/longest-substring-without-repeating-characters/', 'Sliding Window'),
+    ('3Sum', 'Medium', 'LeetCode', 'https://leetcode.com/problems/3sum/', 'Two Pointers'),
+    ('Number of Islands', 'Medium', 'LeetCode', 'https://leetcode.com/problems/number-of-islands/', 'Graph / DFS'),
+    ('Course Schedule', 'Medium', 'LeetCode', 'https://leetcode.com/problems/course-schedule/', 'Topological Sort'),
+    ('Coin Change', 'Medium', 'LeetCode', 'https://leetcode.com/problems/coin-change/', 'DP / Knapsack'),
+    ('Kth Largest Element in an Array', 'Medium', 'LeetCode', 'https://leetcode.com/problems/kth-largest-element-in-an-array/', 'Heap / Priority Queue'),
+    ('Implement Trie (Prefix Tree)', 'Medium', 'LeetCode', 'https://leetcode.com/problems/implement-trie-prefix-tree/', 'Trie'),
+    ('Validate Binary Search Tree', 'Medium', 'LeetCode', 'https://leetcode.com/problems/validate-binary-search-tree/', 'Binary Search Tree'),
+    ('Permutations', 'Medium', 'LeetCode', 'https://leetcode.com/problems/permutations/', 'Backtracking'),
+    ('Longest Common Subsequence', 'Medium', 'LeetCode', 'https://leetcode.com/problems/longest-common-subsequence/', 'DP / 2D'),
+    ('Redundant Connection', 'Medium', 'LeetCode', 'https://leetcode.com/problems/redundant-connection/', 'Union Find'),
+    ('Network Delay Time', 'Medium', 'LeetCode', 'https://leetcode.com/problems/network-delay-time/', 'Graph / Shortest Path'),
+    ('Trapping Rain Water', 'Hard', 'LeetCode', 'https://leetcode.com/problems/trapping-rain-water/', 'Two Pointers'),
+    ('Median of Two Sorted Arrays', 'Hard', 'LeetCode', 'https://leetcode.com/problems/median-of-two-sorted-arrays/', 'Binary Search'),
+    ('Word Ladder', 'Hard', 'LeetCode', 'https://leetcode.com/problems/word-ladder/', 'Graph / BFS'),
+    ('Burst Balloons', 'Hard', 'LeetCode', 'https://leetcode.com/problems/burst-balloons/', 'DP / Intervals'),
+    ('Watermelon', 'Easy', 'Codeforces', 'https://codeforces.com/problemset/problem/4/A', 'Math'),
+    ('Way Too Long Words', 'Easy', 'Codeforces', 'https://codeforces.com/problemset/problem/71/A', 'String'),
+    ('Boredom', 'Medium', 'Codeforces', 'https://codeforces.com/problemset/problem/455/A', 'DP / 1D'),
+    ('Xenia and Bit Operations', 'Medium', 'Codeforces', 'https://codeforces.com/problemset/problem/339/D', 'Segment Tree'),
+    ('Fox And Names', 'Hard', 'Codeforces', 'https://codeforces.com/problemset/problem/510/C', 'Topological Sort'),
+    ('Sherlock and Anagrams', 'Medium', 'HackerRank', 'https://www.hackerrank.com/challenges/sherlock-and-anagrams/problem', 'Hash Table'),
+    ('Count Inversions', 'Medium', 'GeeksforGeeks', 'https://www.geeksforgeeks.org/problems/inversion-of-array-1587115620/1', 'Sorting'),
+    ('Activity Selection', 'Easy', 'GeeksforGeeks', 'https://www.geeksforgeeks.org/problems/activity-selection-1587115620/1', 'Greedy')
+) as problems (problem_name, difficulty, platform, link, tag);
+
+-- Each plan row covers a range of days back from today, the chance of being
+-- active on one of those days and the most solves logged on an active day.
+with plan (email, from_days, to_days, chance, max_per_day, skip_weekends) as (
+    values
+        ('alice@example.com', 0, 44, 1.0, 3, false),
+        ('alice@example.com', 45, 150, 0.6, 2, false),
+        ('bob@example.com', 0, 120, 0.55, 2, true),
+        ('carol@example.com', 0, 6, 1.0, 2, false)
+),
+active_days as (
+    select u.id as user_id, p.timezone, d.days_ago, 1 + floor(random() * plan.max_per_day)::integer as solves
+    from plan
+    join auth.users u on u.email = plan.email
+    join public.profiles p on p.id = u.id
+    cross join lateral generate_series(plan.from_days, plan.to_days) as d (days_ago)
+    where random() < plan.chance
+      and not (plan.skip_weekends and extract(isodow from current_date - d.days_ago) in (6, 7))
+)
+insert into public.submissions (user_id, date, problem_name, link, difficulty, platform, time_spent_minutes)
+select
+    a.user_id,
+    least(now(), ((current_date - a.days_ago) + time '08:00' + random() * interval '13 hours') at time zone a.timezone),
+    pr.problem_name,
+    pr.link,
+    pr.difficulty,
+    pr.platform,
+    case pr.difficulty when 'Easy' then 10 when 'Medium' then 25 else 45 end + floor(random() * 30)::integer
+from active_days a
+cross join lateral generate_series(1, a.solves) as k (solve)
+join seed_problems pr
+    on pr.n = 1 + abs(hashtext(a.user_id::text || a.days_ago || '-' || k.solve)) % (select count(*) from seed_problems);
+
+insert into public.submission_tags (submission_id, tag_id, user_id)
+select s.id, t.id, s.user_id
+from public.submissions s
+join seed_problems pr on pr.problem_name = s.problem_name
+join public.tags t on t.user_id is null and t.name = pr.tag;
+
+-- Alice keeps her Hard solves in the review queue, some of them due today.
+insert into public.review_schedules (submission_id, user_id, ease_factor, interval_days, repetitions, due_on, last_reviewed_at)
+select s.id, s.user_id, 2.5, 6, 2, current_date - (s.id % 4)::integer + 2, least(now(), s.date + interval '7 days')
+from public.submissions s
+where s.user_id = 'a1111111-1111-4111-8111-111111111111' and s.difficulty = 'Hard';
+
+insert into public.review_events (user_id, submission_id, reviewed_at, quality)
+select r.user_id, r.submission_id, r.last_reviewed_at, 3 + (r.submission_id % 3)::integer
+from public.review_schedules r
+where r.last_reviewed_at is not null;
+
+insert into public.goals (user_id, metric, period, target, tag, created_at)
+values
+    ('a1111111-1111-4111-8111-111111111111', 'solves', 'week', 10, null, now() - interval '8 weeks'),
+    ('a1111111-1111-4111-8111-111111111111', 'hard_solves', 'week', 2, null, now() - interval '8 weeks'),
+    ('b2222222-2222-4222-8222-222222222222', 'minutes', 'month', 600, null, now() - interval '3 months'),
+    ('c3333333-3333-4333-8333-333333333333', 'topic', 'week', 3, 'Hash Table', now() - interval '5 days');
+
+insert into public.groups (name, invite_code, created_by)
+values ('Interview Prep Crew', 'DEMOCREW', 'a1111111-1111-4111-8111-111111111111');
+
+insert into public.group_members (group_id, user_id, role)
+select g.id, member.user_id, member.role
+from public.groups g
+cross join (values
+    ('a1111111-1111-4111-8111-111111111111'::uuid, 'admin'),
+    ('b2222222-2222-4222-8222-222222222222'::uuid, 'member'),
+    ('c3333333-3333-4333-8333-333333333333'::uuid, 'member')
+) as member (user_id, role)
+where g.invite_code = 'DEMOCREW';
+
+insert into public.follows (follower_id, followee_id)
+values
+    ('b2222222-2222-4222-8222-222222222222', 'a1111111-1111-4111-8111-111111111111'),
+    ('c3333333-3333-4333-8333-333333333333', 'a1111111-1111-4111-8111-111111111111'),
+    ('c3333333-3333-4333-8333-333333333333', 'b2222222-2222-4222-8222-222222222222');
+
+drop table seed_problems;
+
+select set_config('app.keep_activity_dates', 'off', false);
@@ -0,0 +1,141 @@
+-- Row level security on study groups (20261020090000_study_groups.sql) and
+-- the last-admin check (20261102090000_groups_keep_an_admin.sql).
+-- Run with `npm run db:test` against a local stack.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(24);
+
+-- Ada runs the group, Max is a member and Olga isn't in it.
+insert into auth.users (id, email) values
+    ('00000000-0000-4000-8000-00000000000a', 'ada@example.com'),
+    ('00000000-0000-4000-8000-00000000000b', 'max@example.com'),
+    ('00000000-0000-4000-8000-00000000000c', 'olga@example.com');
+
+insert into public.groups (id, name, invite_code, created_by)
+overriding system value
+values (1001, 'Graph night', 'TESTCODE', '00000000-0000-4000-8000-00000000000a');
+
+insert into public.group_members (group_id, user_id, role, joined_at) values
+    (1001, '00000000-0000-4000-8000-00000000000a', 'admin', now() - interval '2 days'),
+    (1001, '00000000-0000-4000-8000-00000000000b', 'member', now() - interval '1 day');
+
+-- Members ----------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "00000000-0000-4000-8000-00000000000b", "role": "authenticated"}';
+
+select results_eq('select name from public.groups', array['Graph night'], 'Members can see their group');
+select is((select count(*)::integer from public.group_members where group_id = 1001), 2, 'Members can see fellow members');
+select lives_ok('select * from public.get_group_leaderboard(1001, now() - interval ''7 days'')', 'Members can read the leaderboard');
+select lives_ok('select * from public.get_group_feed(1001)', 'Members can read the feed');
+
+update public.groups set name = 'Renamed' where id = 1001;
+select is((select name from public.groups where id = 1001), 'Graph night', 'Members can''t rename the group');
+
+update public.group_members set role = 'admin' where group_id = 1001 and user_id = '00000000-0000-4000-8000-00000000000b';
+select is(
+    (select role from public.group_members where group_id = 1001 and user_id = '00000000-0000-4000-8000-00000000000b'),
+    'member',
+    'Members can''t make themselves admins'
+);
+
+delete from public.group_members where group_id = 1001 and user_id = '00000000-0000-4000-8000-00000000000a';
+select is((select count(*)::integer from public.group_members where group_id = 1001), 2, 'Members can''t remove anyone');
+
+select throws_ok(
+    'select public.regenerate_invite_code(1001)',
+    'Only group admins can change the invite code',
+    'Members can''t change the invite code'
+);
+
+-- Non-members ------------------------------------------------------------
+
+set local request.jwt.claims to '{"sub": "00000000-0000-4000-8000-00000000000c", "role": "authenticated"}';
+
+select is_empty('select * from public.groups', 'Non-members can''t see the group');
+select is_empty('select * from public.group_members', 'Non-members can''t see its members');
+select throws_ok(
+    'select * from public.get_group_leaderboard(1001, now())',
+    'Not a member of this group',
+    'Non-members can''t read the leaderboard'
+);
+select throws_ok('select * from public.get_group_feed(1001)', 'Not a member of this group', 'Non-members can''t read the feed');
+select throws_ok(
+    $$insert into public.group_members (group_id, user_id) values (1001, '00000000-0000-4000-8000-00000000000c')$$,
+    '42501',
+    null,
+    'Non-members can''t add themselves without the invite code'
+);
+
+update public.groups set name = 'Renamed' where id = 1001;
+reset role;
+select is((select name from public.groups where id = 1001), 'Graph night', 'Non-members can''t rename the group');
+
+-- Admins -----------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "00000000-0000-4000-8000-00000000000a", "role": "authenticated"}';
+
+update public.groups set name = 'Graph club' where id = 1001;
+select is((select name from public.groups where id = 1001), 'Graph club', 'Admins can rename the group');
+select isnt(public.regenerate_invite_code(1001), 'TESTCODE', 'Admins can change the invite code');
+
+-- The last admin -----------------------------------------------------------
+
+select throws_ok(
+    $$update public.group_members set role = 'member' where group_id = 1001 and user_id = '00000000-0000-4000-8000-00000000000a'$$,
+    '23514',
+    'A group needs at least one admin. Make someone else an admin first.',
+    'The last admin can''t demote themselves'
+);
+
+select lives_ok(
+    $$update public.group_members set role = 'admin' where group_id = 1001 and user_id = '00000000-0000-4000-8000-00000000000b'$$,
+    'Admins can promote members'
+);
+select lives_ok(
+    $$update public.group_members set role = 'member' where group_id = 1001 and user_id = '00000000-0000-4000-8000-00000000000a'$$,
+    'An admin can step down once someone else is admin'
+);
+
+-- Max is now the only admin, and Ada a member again.
+set local request.jwt.claims to '{"sub": "00000000-0000-4000-8000-00000000000b", "role": "authenticated"}';
+
+select throws_ok(
+    $$update public.group_members set role = 'member' where group_id = 1001$$,
+    '23514',
+    'A group needs at least one admin. Make someone else an admin first.',
+    'No update can leave the group without an admin'
+);
+
+-- Deleting the last admin's account hands the role on, as leaving does.
+reset role;
+insert into public.group_members (group_id, user_id, role) values (1001, '00000000-0000-4000-8000-00000000000c', 'member');
+
+select lives_ok(
+    $$delete from auth.users where id = '00000000-0000-4000-8000-00000000000b'$$,
+    'The last admin''s account can be deleted'
+);
+select results_eq(
+    'select user_id, role from public.group_members where group_id = 1001 order by joined_at',
+    $$values ('00000000-0000-4000-8000-00000000000a'::uuid, 'admin'::text), ('00000000-0000-4000-8000-00000000000c'::uuid, 'member'::text)$$,
+    'Their role passes to the longest-standing member'
+);
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "00000000-0000-4000-8000-00000000000a", "role": "authenticated"}';
+
+select lives_ok('select public.leave_group(1001)', 'The last admin can leave');
+reset role;
+select results_eq(
+    'select user_id, role from public.group_members where group_id = 1001',
+    $$values ('00000000-0000-4000-8000-00000000000c'::uuid, 'admin'::text)$$,
+    'Leaving hands the admin role to the longest-standing member'
+);
+
+select * from finish();
+
+rollback;
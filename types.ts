@@ -1,106 +1,113 @@
-export type Json =
-  | string
-  | number
-  | boolean
-  | null
-  | { [key: string]: Json | undefined }
-  | Json[]
+import type { Database as GeneratedDatabase, Json } from './database.types';
 
-export interface Database {
-  public: {
-    Tables: {
-      profiles: {
-        Row: {
-          id: string
-          updated_at: string | null
-          username: string | null
-          current_streak: number
-          longest_streak: number
-          streak_goal: number
-        }
-        Insert: {
-          id: string
-          updated_at?: string | null
-          username?: string | null
-          current_streak?: number
-          longest_streak?: number
-          streak_goal?: number
-        }
-        Update: {
-          id?: string
-          updated_at?: string | null
-          username?: string | null
-          current_streak?: number
-          longest_streak?: number
-          streak_goal?: number
-        }
-        Relationships: [
-          {
-            foreignKeyName: "profiles_id_fkey"
-            columns: ["id"]
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          }
-        ]
-      }
-      submissions: {
-        Row: {
-          id: number
-          created_at: string
-          user_id: string
-          date: string
-          problem_name: string
-          link: string | null
-          difficulty: 'Easy' | 'Medium' | 'Hard'
-          platform: string | null
-          description: string | null
-        }
-        Insert: {
-          id?: number
-          created_at?: string
-          user_id: string
-          date: string
-          problem_name: string
-          link?: string | null
-          difficulty: 'Easy' | 'Medium' | 'Hard'
-          platform?: string | null
-          description?: string | null
-        }
-        Update: {
-          id?: number
-          created_at?: string
-          user_id?: string
-          date?: string
-          problem_name?: string
-          link?: string | null
-          difficulty?: 'Easy' | 'Medium' | 'Hard'
-          platform?: string | null
-          description?: string | null
-        }
-        Relationships: [
-          {
-            foreignKeyName: "submissions_user_id_fkey"
-            columns: ["user_id"]
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          }
-        ]
-      }
-    }
+export type { Json };
+
+// database.types.ts is generated from supabase/migrations by `npm run gen:types`
+// and must not be edited by hand. Postgres can't tell the generator a few
+// things the app relies on, so they're narrowed here instead: text columns
+// limited by a check constraint become unions, and view and function columns
+// that are never null lose the `| null`.
+
+type Generated = GeneratedDatabase['public'];
+
+type Difficulty = 'Easy' | 'Medium' | 'Hard';
+type GroupRole = 'admin' | 'member';
+
+export type ProblemPlatform = 'LeetCode' | 'Codeforces' | 'HackerRank' | 'GeeksforGeeks';
+
+/** Replaces the types of the properties of `T` that are listed in `U`. */
+type Narrow<T, U> = { [K in keyof T]: K extends keyof U ? U[K] : T[K] };
+
+type NarrowTable<T extends { Row: unknown; Insert: unknown; Update: unknown }, U> = Omit<T, 'Row' | 'Insert' | 'Update'> & {
+  Row: Narrow<T['Row'], U>
+  Insert: Narrow<T['Insert'], U>
+  Update: Narrow<T['Update'], U>
+};
+
+type NarrowView<T extends { Row: unknown }, U> = Omit<T, 'Row'> & { Row: Narrow<T['Row'], U> };
+
+type NarrowRows<T extends { Returns: unknown[] }, U> = Omit<T, 'Returns'> & { Returns: Narrow<T['Returns'][number], U>[] };
+
+export type Database = {
+  public: Omit<Generated, 'Tables' | 'Views' | 'Functions'> & {
+    Tables: Narrow<Generated['Tables'], {
+      submissions: NarrowTable<Generated['Tables']['submissions'], { difficulty: Difficulty }>
+      problems: NarrowTable<Generated['Tables']['problems'], {
+        platform: ProblemPlatform
+        difficulty: Difficulty | null
+      }>
+      group_members: NarrowTable<Generated['Tables']['group_members'], { role: GroupRole }>
+      notifications: NarrowTable<Generated['Tables']['notifications'], { kind: 'passed_longest_streak' }>
+      goals: NarrowTable<Generated['Tables']['goals'], {
+        metric: 'solves' | 'hard_solves' | 'minutes' | 'topic'
+        period: 'day' | 'week' | 'month'
+      }>
+    }>
     Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
-    }
-    Enums: {
-      [_ in never]: never
-    }
-    CompositeTypes: {
-      [_ in never]: never
+      public_profiles: NarrowView<Generated['Views']['public_profiles'], {
+        id: string
+        username: string
+        current_streak: number
+        longest_streak: number
+        rest_days: number[]
+      }>
+      public_submissions: NarrowView<Generated['Views']['public_submissions'], {
+        id: number
+        user_id: string
+        date: string
+        problem_name: string
+        difficulty: Difficulty
+      }>
     }
+    Functions: Narrow<Generated['Functions'], {
+      get_group_leaderboard: NarrowRows<Generated['Functions']['get_group_leaderboard'], {
+        username: string | null
+        role: GroupRole
+      }>
+      get_group_feed: NarrowRows<Generated['Functions']['get_group_feed'], {
+        username: string | null
+        difficulty: Difficulty
+      }>
+      get_activity_summary: NarrowRows<Generated['Functions']['get_activity_summary'], { topics: Record<string, number> }>
+      get_following: NarrowRows<Generated['Functions']['get_following'], { username: string | null }>
+      import_submissions: NarrowRows<Generated['Functions']['import_submissions'], { difficulty: Difficulty }>
+      restore_submissions: NarrowRows<Generated['Functions']['restore_submissions'], { difficulty: Difficulty }>
+      parse_problem_url: NarrowRows<Generated['Functions']['parse_problem_url'], { platform: ProblemPlatform }>
+      get_following_feed: NarrowRows<Generated['Functions']['get_following_feed'], {
+        kind: 'submission' | 'streak_milestone'
+        username: string | null
+        submission_id: number | null
+        problem_name: string | null
+        difficulty: Difficulty | null
+        link: string | null
+        description: string | null
+        streak: number | null
+      }>
+    }>
   }
-}
+};
 
 export type Profile = Database['public']['Tables']['profiles']['Row'];
-export type Submission = Database['public']['Tables']['submissions']['Row'];
\ No newline at end of file
+// `search` is the generated full-text search vector. The app filters on it
+// but never reads it.
+export type Submission = Omit<Database['public']['Tables']['submissions']['Row'], 'search'>;
+export type Tag = Database['public']['Tables']['tags']['Row'];
+export type ReviewSchedule = Database['public']['Tables']['review_schedules']['Row'];
+export type ReviewEvent = Database['public']['Tables']['review_events']['Row'];
+// All the streak needs to know about a review.
+export type ReviewTime = Pick<ReviewEvent, 'reviewed_at'>;
+export type PublicProfile = Database['public']['Views']['public_profiles']['Row'];
+export type PublicSubmission = Database['public']['Views']['public_submissions']['Row'];
+export type Group = Database['public']['Tables']['groups']['Row'];
+export type GroupMember = Database['public']['Tables']['group_members']['Row'];
+export type GroupLeaderboardEntry = Database['public']['Functions']['get_group_leaderboard']['Returns'][number];
+export type GroupFeedItem = Database['public']['Functions']['get_group_feed']['Returns'][number];
+export type UserNotification = Database['public']['Tables']['notifications']['Row'];
+export type FollowedUser = Database['public']['Functions']['get_following']['Returns'][number];
+export type ActivitySummaryRow = Database['public']['Functions']['get_activity_summary']['Returns'][number];
+export type FollowingFeedItem = Database['public']['Functions']['get_following_feed']['Returns'][number];
+export type UserAchievement = Database['public']['Tables']['user_achievements']['Row'];
+export type GoalTarget = Database['public']['Tables']['goal_targets']['Row'];
+// Goals are always loaded with the targets they have had (see fetchGoals).
+export type Goal = Database['public']['Tables']['goals']['Row'] & { goal_targets: Pick<GoalTarget, 'target' | 'set_at'>[] };
+export type Problem = Database['public']['Tables']['problems']['Row'];